@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Tesseract.js spawns its worker script from node_modules at runtime, and MuPDF and
+  // libheif load their WebAssembly modules from it, so they must not be bundled
+  serverExternalPackages: ["tesseract.js", "mupdf", "heic-convert"],
 };
 
 export default nextConfig;
@@ -0,0 +1,133 @@
+/**
+ * Extraction Accuracy Benchmark CLI
+ *
+ * Runs the normalization pipeline over a labeled card corpus, prints per-field
+ * precision/recall and the exact-match rate, and diffs the result against the previous
+ * run so heuristic changes can be gated on numbers.
+ *
+ * Usage:
+ *   pnpm benchmark [corpusDir] [--ocr <provider>] [--baseline <file>] [--out <file>]
+ *                  [--tolerance <n>] [--fail-on-regression]
+ *
+ * Options:
+ * - `corpusDir`: directory of labeled cards (default: the normalization fixture corpus)
+ * - `--ocr`: run card images through an OCR provider ("tesseract", "google-vision")
+ * - `--baseline`: report to compare against (default: the `--out` file of the last run)
+ * - `--out`: where to write this run's JSON report (default: .benchmark/last-run.json)
+ * - `--tolerance`: allowed metric drop before it counts as a regression (default: 0)
+ * - `--fail-on-regression`: exit with code 1 when any metric regressed
+ *
+ * @author Ahmed Kamal
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import {
+  diffReports,
+  runBenchmark,
+  type BenchmarkReport,
+} from "@/lib/benchmark";
+import { getOcrProvider } from "@/lib/ocr";
+
+const DEFAULT_CORPUS = "src/lib/normalization/__fixtures__/cards";
+const DEFAULT_OUT = ".benchmark/last-run.json";
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      ocr: { type: "string" },
+      baseline: { type: "string" },
+      out: { type: "string", default: DEFAULT_OUT },
+      tolerance: { type: "string", default: "0" },
+      "fail-on-regression": { type: "boolean", default: false },
+    },
+  });
+
+  const corpus = positionals[0] || DEFAULT_CORPUS;
+  const out = values.out!;
+  const baselinePath = values.baseline || out;
+  const previous: BenchmarkReport | null = fs.existsSync(baselinePath)
+    ? JSON.parse(fs.readFileSync(baselinePath, "utf8"))
+    : null;
+
+  const ocr = values.ocr ? getOcrProvider(values.ocr) : undefined;
+  const report = await runBenchmark(corpus, ocr);
+
+  printReport(report);
+
+  let regressed = false;
+  if (previous) {
+    const diff = diffReports(previous, report, Number(values.tolerance));
+    regressed = diff.regressions.length > 0;
+
+    console.log(`\nCompared to ${baselinePath} (${previous.generatedAt}):`);
+    const changed = diff.deltas.filter((entry) => entry.delta !== 0);
+    if (changed.length === 0) {
+      console.log("  no metric changes");
+    }
+    for (const entry of changed) {
+      const sign = entry.delta > 0 ? "+" : "";
+      console.log(
+        `  ${entry.metric.padEnd(22)} ${percent(entry.previous)} → ${percent(entry.current)} (${sign}${(entry.delta * 100).toFixed(1)}pp)`,
+      );
+    }
+    if (diff.newlyFailing.length > 0) {
+      console.log(`  newly failing: ${diff.newlyFailing.join(", ")}`);
+    }
+    if (diff.newlyPassing.length > 0) {
+      console.log(`  newly passing: ${diff.newlyPassing.join(", ")}`);
+    }
+  }
+
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, JSON.stringify(report, null, 2) + "\n");
+  console.log(`\nReport written to ${out}`);
+
+  if (regressed && values["fail-on-regression"]) {
+    console.error("Benchmark regressed, failing.");
+    process.exit(1);
+  }
+}
+
+function printReport(report: BenchmarkReport) {
+  console.log(
+    `Benchmark: ${report.cards} cards from ${report.corpus}${report.ocrProvider ? ` (OCR: ${report.ocrProvider})` : ""}\n`,
+  );
+  const fields = Object.entries(report.fields);
+  const width = Math.max(
+    "field".length,
+    ...fields.map(([field]) => field.length),
+  );
+  console.log(`  ${"field".padEnd(width)}  precision  recall   tp  fp  fn`);
+  for (const [field, metrics] of fields) {
+    console.log(
+      `  ${field.padEnd(width)}  ${percent(metrics.precision).padStart(9)}  ${percent(metrics.recall).padStart(6)}  ${String(metrics.truePositives).padStart(3)} ${String(metrics.falsePositives).padStart(3)} ${String(metrics.falseNegatives).padStart(3)}`,
+    );
+  }
+  console.log(
+    `\n  exact match: ${percent(report.exactMatchRate)} (${report.exactMatches}/${report.cards})`,
+  );
+
+  if (report.mismatches.length > 0) {
+    console.log("\nMismatches:");
+    for (const mismatch of report.mismatches) {
+      console.log(
+        `  ${mismatch.card} ${mismatch.field}: expected ${JSON.stringify(mismatch.expected ?? null)}, got ${JSON.stringify(mismatch.actual ?? null)}`,
+      );
+    }
+  }
+  for (const error of report.errors) {
+    console.log(`  ${error.card} failed: ${error.error}`);
+  }
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
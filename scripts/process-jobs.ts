@@ -0,0 +1,55 @@
+/**
+ * Processing Job Worker
+ *
+ * Runs queued asynchronous card processing jobs (`async=true` uploads) outside the
+ * request lifecycle, so large images are not cut short by serverless timeouts. Any
+ * number of workers can run side by side: jobs are claimed atomically.
+ *
+ * Usage:
+ *   pnpm worker [--once] [--interval <ms>]
+ *
+ * Options:
+ * - `--once`: run the queued jobs and exit instead of polling
+ * - `--interval`: how often to check an empty queue, in milliseconds (default: 2000)
+ *
+ * @author Ahmed Kamal
+ */
+
+import { parseArgs } from "node:util";
+import { runProcessingJobs } from "@/app/api/process-card/jobs";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      once: { type: "boolean", default: false },
+      interval: { type: "string", default: "2000" },
+    },
+  });
+  const interval = Number(values.interval);
+
+  // Finish the running job before exiting
+  let stopping = false;
+  for (const signal of ["SIGINT", "SIGTERM"] as const) {
+    process.on(signal, () => {
+      console.log("Stopping after the current job...");
+      stopping = true;
+    });
+  }
+
+  do {
+    try {
+      const count = await runProcessingJobs();
+      if (count > 0) console.log(`Ran ${count} jobs`);
+    } catch (error) {
+      console.error("Worker error:", error);
+    }
+    if (!values.once && !stopping) {
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  } while (!values.once && !stopping);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
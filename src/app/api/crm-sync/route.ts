@@ -18,6 +18,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseClient } from "@/lib/supabase";
+import { buildCRMPayload } from "@/lib/crm";
 import type { LeadData } from "@/models/lead";
 
 // Mock CRM providers configuration
@@ -171,15 +172,7 @@ async function simulateCRMAPICall(
   // Log the mock API call
   console.log(`Mock ${provider} API call:`, {
     endpoint: CRM_PROVIDERS[provider as keyof typeof CRM_PROVIDERS]?.apiUrl,
-    payload: {
-      email: lead.email,
-      firstName: lead.name?.split(" ")[0],
-      lastName: lead.name?.split(" ").slice(1).join(" "),
-      company: lead.company,
-      jobTitle: lead.job_title,
-      phone: lead.phone,
-      website: lead.website,
-    },
+    payload: buildCRMPayload(lead, provider),
   });
 }
 
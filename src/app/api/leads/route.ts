@@ -56,6 +56,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { getSupabaseClient } from "@/lib/supabase";
+import { normalizeLeadInput, resolveDefaultRegion } from "@/lib/normalization";
 
 /**
  * GET /api/leads
@@ -67,6 +68,8 @@ import { getSupabaseClient } from "@/lib/supabase";
  * Query Parameters:
  * - `limit` (optional): Number of leads to return (default: 50, max recommended: 100)
  * - `offset` (optional): Number of leads to skip for pagination (default: 0)
+ * - `batch` (optional): Only the leads created by a batch upload (its id, see
+ *   `POST /api/process-card/batch`)
  *
  * Response Format:
  * ```json
@@ -77,11 +80,13 @@ import { getSupabaseClient } from "@/lib/supabase";
  *       "id": "uuid",
  *       "name": "John Doe",
  *       "email": "john@company.com",
- *       "phone": "+1-555-123-4567",
+ *       "phone": "+13125550123",
+ *       "phone_display": "+1 312 555 0123",
  *       "company": "Acme Corp",
  *       "job_title": "CEO",
  *       "website": "acme.com",
  *       "source": "Google Vision - 2024-01-15",
+ *       "lead_scans": [{ "id": "uuid", "side": "front" }],
  *       "created_at": "2024-01-15T14:30:25.123Z"
  *     }
  *   ],
@@ -91,6 +96,9 @@ import { getSupabaseClient } from "@/lib/supabase";
  * }
  * ```
  *
+ * Each lead lists its card scans (`lead_scans`); the card images are served by
+ * `GET /api/scans/{id}/image`.
+ *
  * Pagination Logic:
  * - Uses offset-based pagination for simplicity and broad compatibility
  * - Returns total count for UI pagination controls
@@ -113,6 +121,9 @@ import { getSupabaseClient } from "@/lib/supabase";
  * // Fetch specific page with custom limit:
  * GET /api/leads?limit=25&offset=50
  *
+ * // Fetch the leads of a batch upload:
+ * GET /api/leads?batch=0b7c6c1e-...
+ *
  * // Client-side usage:
  * const response = await fetch('/api/leads?limit=25&offset=50');
  * const { leads, total, limit, offset } = await response.json();
@@ -128,17 +139,23 @@ export async function GET(request: NextRequest) {
     const limit = Math.min(parseInt(searchParams.get("limit") || "50"), 100); // Cap at 100 for performance
     const offset = Math.max(parseInt(searchParams.get("offset") || "0"), 0); // Ensure non-negative
 
+    const batch = searchParams.get("batch");
+
     const db = getSupabaseClient();
 
     // Execute paginated query with total count
     // Uses single query optimization - gets data and count in one database round trip
+    let query = db
+      .from("leads")
+      // Include total count for pagination, and the scans to show each card
+      .select("*, lead_scans(id, side)", { count: "exact" });
+    if (batch) query = query.eq("batch_id", batch);
+
     const {
       data: leads,
       error,
       count,
-    } = await db
-      .from("leads")
-      .select("*", { count: "exact" }) // Include total count for pagination
+    } = await query
       .order("created_at", { ascending: false }) // Newest leads first
       .range(offset, offset + limit - 1); // Supabase range is inclusive
 
@@ -186,17 +203,23 @@ export async function GET(request: NextRequest) {
  * {
  *   "name": "John Doe",           // Optional - personal name
  *   "email": "john@company.com",  // Optional - email address
- *   "phone": "+1-555-123-4567",   // Optional - phone number
+ *   "phone": "020 7946 0958",     // Optional - phone number, any format
  *   "company": "Acme Corp",       // Optional - company name
  *   "job_title": "CEO",           // Optional - job/position title
  *   "website": "acme.com",        // Optional - company website
- *   "source": "Manual Entry"      // Optional - lead source attribution
+ *   "source": "Manual Entry",     // Optional - lead source attribution
+ *   "region": "GB"                // Optional - default phone region (ISO 3166-1 alpha-2)
  * }
  * ```
  *
  * Validation Rules:
  * - **Flexible Requirements**: At least one of `name`, `email`, or `company` must be provided
  * - **Data Quality**: No strict format validation - accepts partial/incomplete data
+ * - **Normalization**: Fields are normalized with `normalizeLeadInput` (same canonical
+ *   formats as the OCR pipeline, without OCR error correction)
+ * - **Phone Numbers**: Parsed in `region` (falls back to `DEFAULT_PHONE_REGION`, then "US")
+ *   and stored as E.164 with `phone_display`/`phone_extension`. Invalid numbers are not
+ *   stored; they are recorded in `extraction_warnings` and returned as `warnings`
  * - **Source Attribution**: Automatically assigns source if not provided
  * - **Timestamp**: Automatically adds creation timestamp
  *
@@ -218,6 +241,7 @@ export async function GET(request: NextRequest) {
  *     "source": "Manual Entry",
  *     "created_at": "2024-01-15T14:30:25.123Z"
  *   },
+ *   "warnings": [],
  *   "message": "Lead created successfully"
  * }
  * ```
@@ -242,7 +266,7 @@ export async function GET(request: NextRequest) {
  * {
  *   "name": "Sarah Johnson",
  *   "email": "sarah@techcorp.com",
- *   "phone": "+1-555-987-6543",
+ *   "phone": "+1 212 736 5000",
  *   "company": "TechCorp Solutions",
  *   "job_title": "VP of Engineering",
  *   "website": "techcorp.com",
@@ -263,8 +287,12 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
-    // Parse and validate request body
-    const leadData = await request.json();
+    // Parse, normalize and validate request body
+    // Uses the same canonical field formats as the OCR pipeline (phone, website, etc.)
+    const { region, ...input } = await request.json();
+    const { data: leadData, warnings } = normalizeLeadInput(input, {
+      defaultRegion: resolveDefaultRegion(region),
+    });
 
     // Flexible validation: require at least one key identifier
     // This approach prioritizes lead capture over strict data requirements
@@ -290,6 +318,7 @@ export async function POST(request: NextRequest) {
           // Automatic field population
           source: leadData.source || "Manual Entry", // Default source attribution
           created_at: new Date().toISOString(), // Consistent timestamp format
+          extraction_warnings: warnings,
           // Future enhancement: add created_by user tracking
           // Future enhancement: add lead_score calculation
         },
@@ -315,6 +344,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       lead,
+      warnings,
       message: "Lead created successfully",
     });
   } catch (error) {
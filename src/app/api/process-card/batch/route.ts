@@ -0,0 +1,217 @@
+/**
+ * Batch Card Processing API Route
+ *
+ * Processes many business cards in one request, e.g. the stack of cards a rep brings
+ * back from an event. Every file runs through the regular pipeline (see
+ * `processCardUpload`) as a single card in commit mode, with at most
+ * `BATCH_CONCURRENCY` cards processed at once.
+ *
+ * The leads of a batch share a `batch_id`, so the dashboard can list them
+ * (`/leads?batch={id}`). Larger selections are sent as several requests with the same
+ * `batch` id; the upload page also retries failed files that way.
+ *
+ * Environment Dependencies:
+ * - `BATCH_CONCURRENCY`: Cards processed at once per request (default 3)
+ *
+ * @module api/process-card/batch
+ * @author Ahmed Kamal
+ * @since 1.0.0
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { resolveLanguageHints } from "@/lib/ocr";
+import { resolveDefaultRegion } from "@/lib/normalization";
+import {
+  firstOccurrences,
+  mapConcurrent,
+  summarizeBatch,
+  toBatchFileResult,
+  toRepeatResult,
+  type BatchFileResult,
+} from "@/lib/batch";
+import { hashContent, readUploadFile, UploadError } from "@/lib/upload";
+import { BATCH_CONFIG } from "@/lib/upload-limits";
+import { processCardUpload } from "@/app/api/process-card/pipeline";
+
+const DEFAULT_CONCURRENCY = 3;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * POST /api/process-card/batch
+ *
+ * Processes a batch of business card files and reports the outcome of each.
+ *
+ * Request Format:
+ * - Content-Type: multipart/form-data
+ * - Field: 'images' (File, repeated) - Card files, one card each (multi-page PDFs one
+ *   card per page), validated like `POST /api/process-card`; up to 10 per request
+ * - Field: 'batch' (optional) - Id of the batch to add the files to, as returned by
+ *   an earlier request; a new batch is started without it
+ * - Field: 'region' (optional) - Default phone region, as for `POST /api/process-card`
+ * - Field: 'languages' (optional) - OCR language hints, as for `POST /api/process-card`
+ *
+ * Response Format:
+ * ```json
+ * {
+ *   "success": true,
+ *   "batch": { "id": "uuid" },
+ *   "summary": { "total": 3, "created": 1, "duplicates": 1, "failed": 1 },
+ *   "results": [
+ *     { "file": "card-01.jpg", "status": "created", "leads": [{ "id": "uuid", "name": "John Doe", "company": "Acme Corp" }] },
+ *     { "file": "card-02.jpg", "status": "duplicate", "leads": [{ "id": "uuid", "name": "Jane Roe" }] },
+ *     { "file": "card-03.jpg", "status": "failed", "leads": [], "code": "resolution_too_low", "message": "..." }
+ *   ]
+ * }
+ * ```
+ *
+ * Results are in upload order. Files that fail do not fail the batch; they are
+ * reported with the `code`/`message` of the pipeline's error response. Duplicates
+ * (cards already processed) return their existing leads, which keep their original
+ * batch. Identical files within the batch are processed once, the later copies are
+ * reported as duplicates of the first.
+ *
+ * Error Responses:
+ * - 400: No files (`missing_file`), more than 10 files (`too_many_files`) or an
+ *   invalid `batch` id (`invalid_batch`)
+ * - 500: Internal error
+ *
+ * @param request - Next.js request object containing multipart form data
+ * @returns Promise<NextResponse> - JSON response with the outcome of every file
+ *
+ * @example
+ * const formData = new FormData();
+ * files.forEach((file) => formData.append("images", file));
+ *
+ * const { data } = await axios.postForm("/api/process-card/batch", formData);
+ * console.log(`${data.summary.created} leads created`);
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const files = formData
+      .getAll("images")
+      .filter((value): value is File => value instanceof File);
+    const region = resolveDefaultRegion(
+      formData.get("region") as string | null,
+    );
+    const languageHints = resolveLanguageHints(
+      formData.get("languages") as string | null,
+    );
+
+    if (files.length === 0) {
+      return NextResponse.json(
+        { success: false, code: "missing_file", message: "No images provided" },
+        { status: 400 },
+      );
+    }
+    if (files.length > BATCH_CONFIG.MAX_FILES) {
+      return NextResponse.json(
+        {
+          success: false,
+          code: "too_many_files",
+          message: `At most ${BATCH_CONFIG.MAX_FILES} files can be sent per request`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const batch = formData.get("batch") as string | null;
+    if (batch && !UUID_PATTERN.test(batch)) {
+      return NextResponse.json(
+        {
+          success: false,
+          code: "invalid_batch",
+          message: "batch must be the id of a batch",
+        },
+        { status: 400 },
+      );
+    }
+    const batchId = batch || crypto.randomUUID();
+
+    const concurrency =
+      parseInt(process.env.BATCH_CONCURRENCY || "") || DEFAULT_CONCURRENCY;
+    console.log(
+      `Processing ${files.length} cards of batch ${batchId} (${concurrency} at once)...`,
+    );
+
+    // Files failing the checks that need no decoding (size first, so oversized
+    // files are never read) are rejected up front; identical files are processed
+    // once (see `toRepeatResult`)
+    const rejected = new Map<number, BatchFileResult>();
+    const hashes = await Promise.all(
+      files.map(async (file, index) => {
+        try {
+          return hashContent((await readUploadFile(file)).buffer);
+        } catch (error) {
+          if (!(error instanceof UploadError)) throw error;
+          rejected.set(
+            index,
+            toBatchFileResult(file.name, 400, {
+              success: false,
+              code: error.code,
+              message: error.message,
+            }),
+          );
+          return null;
+        }
+      }),
+    );
+    const originals = firstOccurrences(hashes);
+    const unique = files.filter(
+      (_, index) => originals[index] === index && !rejected.has(index),
+    );
+
+    const processed = await mapConcurrent(unique, concurrency, async (file) => {
+      try {
+        const response = await processCardUpload({
+          image: file,
+          back: null,
+          mode: "commit",
+          multipleCards: false,
+          region,
+          languageHints,
+          batchId,
+        });
+        return toBatchFileResult(
+          file.name,
+          response.status,
+          await response.json(),
+        );
+      } catch (error) {
+        // One card failing (e.g. an OCR provider error) doesn't fail the batch
+        console.error(`Processing ${file.name} failed:`, error);
+        return toBatchFileResult(file.name, 500, {
+          success: false,
+          message: error instanceof Error ? error.message : "Processing failed",
+        });
+      }
+    });
+    const results = files.map((file, index) => {
+      const rejection = rejected.get(index);
+      if (rejection) return rejection;
+      const original = processed[unique.indexOf(files[originals[index]])];
+      return originals[index] === index
+        ? original
+        : toRepeatResult(file.name, original);
+    });
+
+    return NextResponse.json({
+      success: true,
+      batch: { id: batchId },
+      summary: summarizeBatch(results),
+      results,
+    });
+  } catch (error) {
+    console.error("Batch processing error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Batch processing failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Draft Confirmation API Route
+ *
+ * Second half of the review-and-correct flow: turns a pending draft created by
+ * `POST /api/process-card` (with `mode=draft`) into a persisted lead, applying any
+ * corrections made by the reviewer, and only then triggers CRM sync.
+ *
+ * Draft Lifecycle:
+ * - `pending`   → created by the process-card route, editable in the upload page
+ * - `confirmed` → lead created, `lead_id` references it (also set on the draft's
+ *                 `lead_scans`)
+ * - `expired`   → never confirmed within its TTL, can no longer be committed
+ *
+ * @module api/process-card/drafts/confirm
+ * @author Ahmed Kamal
+ * @since 1.0.0
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseClient } from "@/lib/supabase";
+import { syncLeads } from "@/lib/crm";
+import { parsePhone, resolveDefaultRegion } from "@/lib/normalization";
+import {
+  acceptsEventStream,
+  streamStages,
+  trackStages,
+  type StageTracker,
+} from "@/lib/progress";
+import { applyCorrections } from "@/lib/review";
+
+/**
+ * POST /api/process-card/drafts/{id}/confirm
+ *
+ * Confirms a draft and persists it as a lead.
+ *
+ * Request Body (all optional - omitted fields keep the extracted value):
+ * ```json
+ * {
+ *   "name": "John Doe",
+ *   "email": "john@company.com",
+ *   "phone": "+44 20 7946 0958",
+ *   "company": "Acme Corp",
+ *   "job_title": "CEO",
+ *   "website": "acme.com"
+ * }
+ * ```
+ *
+ * Fields changed by the reviewer are recorded in `field_provenance` with the
+ * rule `manual:review` and full confidence; an empty string clears a field.
+ * A corrected phone number is parsed in the draft's region, stored as E.164 and
+ * replaces the primary entry of `phones`; it is rejected with 422 when it is not
+ * a valid number. Extraction warnings about corrected fields are dropped.
+ *
+ * Progress Streaming:
+ * Like `POST /api/process-card`, requests sent with `Accept: text/event-stream` are
+ * answered with Server-Sent Events: `stage` events for the `storage` and `crm_sync`
+ * stages, with the CRM sync awaited so its real outcome is reported, followed by a
+ * `result` event carrying the status and response body.
+ *
+ * Error Responses:
+ * - 404: Draft not found
+ * - 409: Draft already confirmed
+ * - 410: Draft expired
+ * - 422: Corrected phone number is invalid
+ * - 500: Database error
+ *
+ * @param request - Next.js request object containing the corrected fields
+ * @param context - Route context with the draft id
+ * @returns Promise<NextResponse> - JSON response with the created lead
+ *
+ * @example
+ * const { data } = await axios.post(`/api/process-card/drafts/${draftId}/confirm`, {
+ *   job_title: "Chief Executive Officer",
+ * });
+ * console.log('New lead created:', data.lead.id);
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  const corrections = await request.json().catch(() => ({}));
+
+  if (acceptsEventStream(request)) {
+    return streamStages((onStage) =>
+      trackStages(onStage, (progress) =>
+        confirmDraft(id, corrections, progress),
+      ),
+    );
+  }
+  return trackStages(undefined, (progress) =>
+    confirmDraft(id, corrections, progress),
+  );
+}
+
+/**
+ * Confirms a draft with the reviewer's corrections, reporting the storage and CRM
+ * sync stages.
+ */
+async function confirmDraft(
+  id: string,
+  corrections: Record<string, unknown>,
+  progress: StageTracker,
+): Promise<NextResponse> {
+  try {
+    progress.start("storage");
+    const db = getSupabaseClient();
+
+    const { data: draft, error: fetchError } = await db
+      .from("lead_drafts")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (fetchError || !draft) {
+      return NextResponse.json(
+        { success: false, message: "Draft not found" },
+        { status: 404 },
+      );
+    }
+
+    if (draft.status === "confirmed") {
+      return NextResponse.json(
+        {
+          success: false,
+          message: "Draft already confirmed",
+          leadId: draft.lead_id,
+        },
+        { status: 409 },
+      );
+    }
+
+    if (draft.status === "expired" || new Date(draft.expires_at) < new Date()) {
+      await db.from("lead_drafts").update({ status: "expired" }).eq("id", id);
+      return NextResponse.json(
+        { success: false, message: "Draft expired, please re-scan the card" },
+        { status: 410 },
+      );
+    }
+
+    // Corrected phone numbers must be valid; the reviewer is asked to fix them instead
+    const region = resolveDefaultRegion(draft.region);
+    const correctedPhone =
+      typeof corrections.phone === "string" && corrections.phone.trim()
+        ? parsePhone(corrections.phone, region)
+        : null;
+
+    if (correctedPhone && !correctedPhone.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `"${correctedPhone.raw}" is not a valid phone number for region ${region}`,
+        },
+        { status: 422 },
+      );
+    }
+
+    // Claim the draft first so concurrent confirms can't create duplicate leads
+    const { data: claimed } = await db
+      .from("lead_drafts")
+      .update({ status: "confirmed", confirmed_at: new Date().toISOString() })
+      .eq("id", id)
+      .eq("status", "pending")
+      .select("id");
+
+    if (!claimed || claimed.length === 0) {
+      return NextResponse.json(
+        { success: false, message: "Draft already confirmed" },
+        { status: 409 },
+      );
+    }
+
+    const { data, fieldProvenance, warnings } = applyCorrections(
+      draft,
+      corrections,
+      correctedPhone,
+    );
+
+    const { data: lead, error } = await db
+      .from("leads")
+      .insert([
+        {
+          ...data,
+          field_provenance: fieldProvenance,
+          ocr_confidence: draft.ocr_confidence,
+          extraction_warnings: warnings,
+          source: draft.source,
+          image_front_path: draft.image_front_path,
+          image_back_path: draft.image_back_path,
+          created_at: new Date().toISOString(),
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Database error:", error);
+      // Release the draft so the reviewer can retry
+      await db
+        .from("lead_drafts")
+        .update({ status: "pending", confirmed_at: null })
+        .eq("id", id);
+      return NextResponse.json(
+        { success: false, message: "Failed to store lead data" },
+        { status: 500 },
+      );
+    }
+
+    await db.from("lead_drafts").update({ lead_id: lead.id }).eq("id", id);
+    // The draft's card images and OCR results now belong to the lead
+    await db.from("lead_scans").update({ lead_id: lead.id }).eq("draft_id", id);
+
+    await syncLeads([lead.id], progress);
+
+    return NextResponse.json({ success: true, lead });
+  } catch (error) {
+    console.error("Draft confirmation error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Failed to confirm draft",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
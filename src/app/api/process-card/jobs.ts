@@ -0,0 +1,293 @@
+/**
+ * Asynchronous Card Processing Jobs
+ *
+ * Queue behind `async=true` uploads, backed by the `processing_jobs` table:
+ *
+ * 1. The route stores the uploads in the storage backend and queues a job
+ * 2. A worker claims the oldest queued job (`claim_processing_job()`, safe with
+ *    concurrent workers), rebuilds the uploads and runs the regular pipeline
+ * 3. The response body is stored as the job `result`; when the job has a
+ *    `callback_url`, the result is posted to it (see `deliverCallback`)
+ * 4. The stored uploads are deleted; the pipeline keeps its own copy with the scans
+ *
+ * Jobs whose worker died mid-run are retried; after their last run they are failed
+ * as timed out (`expire_processing_jobs()`), with the callback and cleanup of any
+ * other finished job.
+ *
+ * Jobs run right after the upload is answered (`after()` in the route) and in the
+ * standalone worker (`pnpm worker`), which also picks up jobs a serverless instance
+ * was stopped in the middle of.
+ *
+ * @module api/process-card/jobs
+ * @author Ahmed Kamal
+ */
+
+import { getSupabaseClient } from "@/lib/supabase";
+import { deliverCallback } from "@/lib/callbacks";
+import type { CountryCode } from "@/lib/normalization";
+import { getStorageProvider } from "@/lib/storage";
+import {
+  processCardUpload,
+  type CardUploadInput,
+} from "@/app/api/process-card/pipeline";
+import type {
+  ProcessingJob,
+  ProcessingJobParams,
+} from "@/models/processing-job";
+
+/**
+ * Stores a card upload and queues it for processing.
+ *
+ * @param input - Upload and processing options, as parsed from the request
+ * @param callbackUrl - URL receiving the result when the job finishes
+ * @returns The queued job
+ * @throws {Error} When the uploads cannot be stored or the job cannot be queued
+ *
+ * @example
+ * const job = await createProcessingJob(input, "https://crm.example.com/hooks/cards");
+ * // { id: "uuid", status: "queued", ... }
+ */
+export async function createProcessingJob(
+  input: CardUploadInput,
+  callbackUrl?: string | null,
+): Promise<ProcessingJob> {
+  const storage = getStorageProvider();
+  const id = crypto.randomUUID();
+
+  const store = async (file: File, name: string) => {
+    const path = `jobs/${id}/${name}`;
+    await storage.put(
+      path,
+      Buffer.from(await file.arrayBuffer()),
+      file.type || "application/octet-stream",
+    );
+    return path;
+  };
+
+  const { image, back } = input;
+  const params: ProcessingJobParams = {
+    mode: input.mode,
+    multipleCards: input.multipleCards,
+    region: input.region,
+    languageHints: input.languageHints,
+    files: {
+      image: { name: image.name, type: image.type },
+      ...(back && { back: { name: back.name, type: back.type } }),
+    },
+  };
+
+  const { data: job, error } = await getSupabaseClient()
+    .from("processing_jobs")
+    .insert([
+      {
+        id,
+        status: "queued",
+        params,
+        storage_provider: storage.name,
+        image_path: await store(image, "image"),
+        back_path: back ? await store(back, "back") : undefined,
+        callback_url: callbackUrl || undefined,
+        created_at: new Date().toISOString(),
+      },
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to queue processing job: ${error.message}`);
+  }
+  return job;
+}
+
+/**
+ * Fails timed-out jobs, then runs queued jobs one at a time until the queue is
+ * empty.
+ *
+ * @returns Number of jobs run
+ * @throws {Error} When no job can be claimed from the database
+ *
+ * @example
+ * const count = await runProcessingJobs();
+ * console.log(`Ran ${count} jobs`);
+ */
+export async function runProcessingJobs(): Promise<number> {
+  await expireProcessingJobs();
+
+  let count = 0;
+  for (;;) {
+    const { data, error } = await getSupabaseClient().rpc(
+      "claim_processing_job",
+    );
+    if (error) {
+      throw new Error(`Failed to claim processing job: ${error.message}`);
+    }
+
+    const [job] = (data || []) as ProcessingJob[];
+    if (!job) return count;
+
+    await runProcessingJob(job);
+    count++;
+  }
+}
+
+/**
+ * Public view of a job, as returned by the status endpoint and sent to callbacks.
+ */
+export function describeJob(job: ProcessingJob) {
+  return {
+    id: job.id,
+    status: job.status,
+    attempts: job.attempts,
+    ...(job.error && { error: job.error }),
+    created_at: job.created_at,
+    started_at: job.started_at,
+    completed_at: job.completed_at,
+  };
+}
+
+/**
+ * Runs a claimed job through the pipeline and records its result. Pipeline errors
+ * fail the job with the 500 response the synchronous API would have returned.
+ */
+async function runProcessingJob(job: ProcessingJob): Promise<void> {
+  console.log(`Running processing job ${job.id} (attempt ${job.attempts})...`);
+  const db = getSupabaseClient();
+
+  let status: number;
+  let result: Record<string, unknown>;
+  try {
+    const response = await processCardUpload(await loadJobInput(job));
+    status = response.status;
+    result = await response.json();
+  } catch (error) {
+    console.error(`Processing job ${job.id} failed:`, error);
+    status = 500;
+    result = {
+      success: false,
+      message: "Processing failed",
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  const succeeded = status < 400;
+  const finished: ProcessingJob = {
+    ...job,
+    status: succeeded ? "completed" : "failed",
+    result,
+    result_status: status,
+    error: succeeded ? undefined : String(result.message),
+    completed_at: new Date().toISOString(),
+  };
+  const { error } = await db
+    .from("processing_jobs")
+    .update({
+      status: finished.status,
+      result,
+      result_status: status,
+      error: finished.error ?? null,
+      completed_at: finished.completed_at,
+    })
+    .eq("id", job.id);
+  // Unrecorded jobs are retried, so they keep their uploads
+  if (error) console.error(`Failed to record job ${job.id} result:`, error);
+  else await deleteJobUploads(job);
+
+  await notifyCallback(finished);
+}
+
+/**
+ * Fails the jobs whose last run timed out. Errors are logged, so they don't keep
+ * the worker from running queued jobs.
+ */
+async function expireProcessingJobs(): Promise<void> {
+  const { data, error } = await getSupabaseClient().rpc(
+    "expire_processing_jobs",
+  );
+  if (error) {
+    console.error("Failed to expire processing jobs:", error);
+    return;
+  }
+
+  for (const job of (data || []) as ProcessingJob[]) {
+    console.warn(`Processing job ${job.id} timed out`);
+    await deleteJobUploads(job);
+    await notifyCallback(job);
+  }
+}
+
+/**
+ * Posts the result of a finished job to its callback, if it has one, and records
+ * the delivery.
+ */
+async function notifyCallback(job: ProcessingJob): Promise<void> {
+  if (!job.callback_url) return;
+
+  console.log(`Delivering job ${job.id} result to callback...`);
+  const delivery = await deliverCallback(job.callback_url, {
+    event: job.status === "completed" ? "job.completed" : "job.failed",
+    job: describeJob(job),
+    result: job.result,
+  });
+  if (!delivery.delivered) {
+    console.warn(`Callback for job ${job.id} failed:`, delivery.error);
+  }
+  await getSupabaseClient()
+    .from("processing_jobs")
+    .update({
+      callback_status: delivery.status ?? null,
+      callback_error: delivery.error ?? null,
+      callback_delivered_at: delivery.delivered
+        ? new Date().toISOString()
+        : null,
+    })
+    .eq("id", job.id);
+}
+
+/**
+ * Deletes the stored uploads of a finished job. Failures are logged only: the job
+ * is finished either way.
+ */
+async function deleteJobUploads(job: ProcessingJob): Promise<void> {
+  const storage = getStorageProvider(job.storage_provider);
+  for (const path of [job.image_path, job.back_path]) {
+    if (!path) continue;
+    try {
+      await storage.delete(path);
+    } catch (error) {
+      console.error(`Failed to delete upload ${path} of job ${job.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Rebuilds the upload of a job from the storage backend.
+ *
+ * @throws {Error} When a stored upload is missing
+ */
+async function loadJobInput(job: ProcessingJob): Promise<CardUploadInput> {
+  const storage = getStorageProvider(job.storage_provider);
+  const { params } = job;
+
+  const load = async (
+    path: string,
+    file: ProcessingJobParams["files"]["image"],
+  ) => {
+    const stored = await storage.get(path);
+    if (!stored) throw new Error(`Upload ${path} not found`);
+    return new File([new Uint8Array(stored.data)], file.name, {
+      type: file.type,
+    });
+  };
+
+  return {
+    image: await load(job.image_path, params.files.image),
+    back:
+      job.back_path && params.files.back
+        ? await load(job.back_path, params.files.back)
+        : null,
+    mode: params.mode,
+    multipleCards: params.multipleCards,
+    region: params.region as CountryCode,
+    languageHints: params.languageHints,
+  };
+}
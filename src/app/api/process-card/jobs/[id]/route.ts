@@ -0,0 +1,113 @@
+/**
+ * Processing Job Status API Route
+ *
+ * Status polling for asynchronous uploads (`POST /api/process-card` with
+ * `async=true`). Finished jobs include the response body the synchronous API would
+ * have returned, e.g. the stored `lead`.
+ *
+ * Job Lifecycle:
+ * - `queued`     → upload stored, waiting for a worker
+ * - `processing` → claimed by a worker, retried when the worker dies mid-run (failed
+ *                  as timed out after the third run)
+ * - `completed`  → `result` holds the successful response
+ * - `failed`     → `result` holds the error response (`result.code` for uploads
+ *                  failing validation)
+ *
+ * @module api/process-card/jobs/status
+ * @author Ahmed Kamal
+ * @since 1.0.0
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseClient } from "@/lib/supabase";
+import { describeJob } from "@/app/api/process-card/jobs";
+import type { ProcessingJob } from "@/models/processing-job";
+
+// Suggested polling interval for unfinished jobs, in seconds
+const POLL_INTERVAL_SECONDS = 2;
+
+/**
+ * GET /api/process-card/jobs/{id}
+ *
+ * Returns the status of a processing job, and its result once it finished.
+ *
+ * Response Format:
+ * ```json
+ * {
+ *   "success": true,
+ *   "job": {
+ *     "id": "uuid",
+ *     "status": "completed",
+ *     "attempts": 1,
+ *     "created_at": "2024-01-15T14:30:25.123Z",
+ *     "started_at": "2024-01-15T14:30:25.456Z",
+ *     "completed_at": "2024-01-15T14:30:29.789Z"
+ *   },
+ *   "result": { "success": true, "lead": { "id": "uuid", ... }, ... }
+ * }
+ * ```
+ *
+ * Unfinished jobs are answered with a `Retry-After` header.
+ *
+ * Error Responses:
+ * - 404: Job not found
+ * - 500: Database error
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with the job id
+ * @returns Promise<NextResponse> - JSON response with the job status
+ *
+ * @example
+ * const { data } = await axios.get(`/api/process-card/jobs/${jobId}`);
+ * if (data.job.status === "completed") console.log(data.result.lead);
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id } = await params;
+
+    const { data: job, error } = await getSupabaseClient()
+      .from("processing_jobs")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle<ProcessingJob>();
+
+    if (error) {
+      console.error("Database error:", error);
+      return NextResponse.json(
+        { success: false, message: "Failed to fetch job" },
+        { status: 500 },
+      );
+    }
+    if (!job) {
+      return NextResponse.json(
+        { success: false, message: "Job not found" },
+        { status: 404 },
+      );
+    }
+
+    const finished = job.status === "completed" || job.status === "failed";
+    return NextResponse.json(
+      {
+        success: true,
+        job: describeJob(job),
+        ...(finished && { result: job.result }),
+      },
+      finished
+        ? undefined
+        : { headers: { "Retry-After": String(POLL_INTERVAL_SECONDS) } },
+    );
+  } catch (error) {
+    console.error("Job status error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Failed to fetch job",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,1011 @@
+/**
+ * Business Card Processing Pipeline
+ *
+ * The processing behind `POST /api/process-card`: upload validation, QR decoding,
+ * preprocessing, OCR, field extraction, storage and CRM sync for single cards,
+ * two-sided cards, multi-card photos and multi-page PDFs. Shared by the route, which
+ * runs it inline, and the processing job worker (see `runProcessingJobs`).
+ *
+ * Every flow runs the stages in order (OCR, normalization, storage, CRM sync) and
+ * reports them to `onStage`, which the route streams to the upload page.
+ *
+ * See the route for the request options and response formats.
+ *
+ * @module api/process-card/pipeline
+ * @author Ahmed Kamal
+ */
+
+import { NextResponse } from "next/server";
+import { getSupabaseClient } from "@/lib/supabase";
+import { getOcrProvider, type OcrResult } from "@/lib/ocr";
+import {
+  cleanAndNormalizeData,
+  detectCardRegions,
+  locateSourceRegions,
+  LOW_CONFIDENCE_THRESHOLD,
+  mergeCardSides,
+  mergeDecodedContact,
+  parseContactPayload,
+  sideFields,
+  type CountryCode,
+  type DecodedContact,
+} from "@/lib/normalization";
+import { syncLeads } from "@/lib/crm";
+import {
+  cropImage,
+  recognizeImage,
+  type CardImage,
+  type ImageCrop,
+} from "@/lib/image";
+import { decodeQrCode } from "@/lib/qr";
+import {
+  trackStages,
+  type StageEvent,
+  type StageTracker,
+} from "@/lib/progress";
+import { readScanArtifact, storeScan } from "@/lib/scans";
+import { prepareUpload, UploadError, type PreparedUpload } from "@/lib/upload";
+import type {
+  CardSide,
+  ExtractionResult,
+  ExtractionWarning,
+  LeadData,
+  LeadFieldProvenance,
+  LeadScan,
+} from "@/models/lead";
+
+// Unconfirmed drafts are discarded after this many hours
+const DRAFT_TTL_HOURS = 24;
+
+// One side of a card after QR decoding and OCR
+type RecognizedSide = {
+  decoded: DecodedContact | null;
+  /** OCR result on its own, as stored with the scan */
+  ocrResult: OcrResult;
+  /** Image the OCR result refers to */
+  image: CardImage;
+  preprocessing: string[];
+};
+
+// A recognized card side with its extracted lead fields
+type CardSideRead = OcrResult &
+  RecognizedSide & {
+    extraction: ExtractionResult;
+  };
+
+// Lead row as stored in `leads`
+type StoredLead = LeadData & {
+  id: string;
+  field_provenance?: LeadFieldProvenance;
+  ocr_confidence?: number;
+  extraction_warnings?: ExtractionWarning[];
+};
+
+/**
+ * A card upload with its processing options, as parsed from the request form.
+ */
+export type CardUploadInput = {
+  image: File;
+  back: File | null;
+  mode: "commit" | "draft";
+  multipleCards: boolean;
+  region: CountryCode;
+  languageHints: string[];
+  /** Batch upload the stored leads belong to (see the batch route) */
+  batchId?: string;
+  /** Receives the pipeline stages as they start and finish */
+  onStage?: (event: StageEvent) => void;
+};
+
+/**
+ * Processes a card upload through the complete pipeline:
+ * Validation → OCR → Data Cleaning → Database Storage → CRM Sync
+ *
+ * The stage running when the upload is rejected or an error is thrown is reported
+ * as failed. While stages are reported, the CRM sync is awaited so its outcome can
+ * be shown; otherwise it runs in the background.
+ *
+ * @param input - Upload and processing options
+ * @returns The response for the upload, as returned by `POST /api/process-card`
+ * @throws Errors of the OCR provider and unexpected failures, answered with 500 by
+ *   the caller
+ */
+export async function processCardUpload(
+  input: CardUploadInput,
+): Promise<NextResponse> {
+  return trackStages(input.onStage, (progress) => runPipeline(input, progress));
+}
+
+async function runPipeline(
+  input: CardUploadInput,
+  progress: StageTracker,
+): Promise<NextResponse> {
+  const { image, back, mode, multipleCards, region, languageHints } = input;
+  progress.start("ocr");
+
+  // Server-side validation by magic bytes; HEIC photos and PDF pages are
+  // converted to images before OCR
+  let upload: PreparedUpload;
+  let backUpload: PreparedUpload | null = null;
+  try {
+    upload = await prepareUpload(image);
+  } catch (error) {
+    return uploadErrorResponse(error, "image");
+  }
+  try {
+    if (back instanceof File) backUpload = await prepareUpload(back);
+  } catch (error) {
+    return uploadErrorResponse(error, "back");
+  }
+
+  // Several cards in one upload are committed directly, one lead per card
+  const multiplePages = upload.images.length > 1;
+  if (
+    (multipleCards || multiplePages) &&
+    (backUpload || mode === "draft" || (multipleCards && multiplePages))
+  ) {
+    return NextResponse.json(
+      {
+        success: false,
+        code: "unsupported_combination",
+        message:
+          "Multi-card photos and multi-page PDFs cannot be combined with each other, a back side or draft mode",
+      },
+      { status: 400 },
+    );
+  }
+  if (backUpload && backUpload.images.length > 1) {
+    return NextResponse.json(
+      {
+        success: false,
+        code: "too_many_pages",
+        field: "back",
+        message: "Back side: the back of a card must be a single page",
+      },
+      { status: 400 },
+    );
+  }
+
+  // Re-uploads of cards already stored as leads return those leads
+  const processed = await findProcessedLeads(
+    upload.contentHash,
+    backUpload?.contentHash,
+  );
+  if (processed.length > 0) {
+    console.log("Upload already processed, returning the existing leads...");
+    progress.complete("Card already processed");
+    for (const stage of ["normalization", "storage", "crm_sync"] as const) {
+      progress.skip(stage, "Card already processed");
+    }
+    return alreadyProcessedResponse(processed, multipleCards || multiplePages);
+  }
+
+  if (multipleCards) {
+    return await processMultipleCards(
+      upload,
+      { region, languageHints, batchId: input.batchId },
+      progress,
+    );
+  }
+  if (multiplePages) {
+    return await processCardPages(
+      upload,
+      { region, languageHints, batchId: input.batchId },
+      progress,
+    );
+  }
+
+  // Stage 2: QR decoding and OCR for each side of the card
+  const frontRead = await recognizeCardSide(upload.images[0], {
+    region,
+    languageHints,
+    contentHash: upload.contentHash,
+  });
+  const backRead = backUpload
+    ? await recognizeCardSide(backUpload.images[0], {
+        region,
+        languageHints,
+        contentHash: backUpload.contentHash,
+        optional: true,
+      })
+    : null;
+
+  if (
+    !frontRead.ocrResult.fullText &&
+    !frontRead.decoded &&
+    !backRead?.ocrResult.fullText &&
+    !backRead?.decoded
+  ) {
+    return NextResponse.json(
+      { success: false, message: "No text detected in image" },
+      { status: 400 },
+    );
+  }
+
+  // Stage 3: Field extraction, with the QR code contact merged in
+  progress.start("normalization");
+  const front = await extractCardSide(frontRead, region);
+  const backSide = backRead ? await extractCardSide(backRead, region) : null;
+
+  const {
+    data: cleanedData,
+    fields,
+    warnings,
+  } = backSide
+    ? mergeCardSides(front.extraction, backSide.extraction)
+    : front.extraction;
+  const { fullText, textSegments } = front;
+  // Overall OCR confidence of a two-sided card is that of its weaker side with text
+  const confidence = backSide?.fullText
+    ? Math.min(front.confidence, backSide.confidence)
+    : front.confidence;
+
+  const db = getSupabaseClient();
+  const source = sourceLabel(
+    front.decoded || backSide?.decoded,
+    backSide && "front + back",
+  );
+
+  // Both sides are kept with the lead: upload, preprocessed image and OCR result
+  progress.start("storage");
+  const frontScan = await storeCardScan("front", upload.original, front, {
+    region,
+    languageHints,
+    contentHash: upload.contentHash,
+  });
+  const backScan =
+    backSide && backUpload
+      ? await storeCardScan("back", backUpload.original, backSide, {
+          region,
+          languageHints,
+          contentHash: backUpload.contentHash,
+        })
+      : null;
+  const scans = backScan ? [frontScan, backScan] : [frontScan];
+  const imagePaths = {
+    image_front_path: frontScan.image_path,
+    image_back_path: backScan?.image_path,
+  };
+  const preprocessing = {
+    front: {
+      steps: front.preprocessing,
+      originalPath: frontScan.original_path,
+    },
+    ...(backSide &&
+      backScan && {
+        back: {
+          steps: backSide.preprocessing,
+          originalPath: backScan.original_path,
+        },
+      }),
+  };
+  const lowConfidence = lowConfidenceFields(fields);
+
+  // Draft Mode: park the extraction for human review instead of committing it
+  if (mode === "draft") {
+    console.log("Storing draft for review...");
+
+    // Opportunistic cleanup of drafts that were never confirmed
+    await db
+      .from("lead_drafts")
+      .delete()
+      .eq("status", "pending")
+      .lt("expires_at", new Date().toISOString());
+
+    const { data: draft, error: draftError } = await db
+      .from("lead_drafts")
+      .insert([
+        {
+          data: cleanedData,
+          field_provenance: fields,
+          ocr_confidence: confidence,
+          raw_text: fullText,
+          text_segments: textSegments,
+          back_raw_text: backSide?.fullText,
+          back_text_segments: backSide?.textSegments,
+          ...imagePaths,
+          extraction_warnings: warnings,
+          region,
+          source,
+          status: "pending",
+          expires_at: new Date(
+            Date.now() + DRAFT_TTL_HOURS * 60 * 60 * 1000,
+          ).toISOString(),
+          created_at: new Date().toISOString(),
+        },
+      ])
+      .select("id, expires_at")
+      .single();
+
+    if (draftError) {
+      console.error("Database error:", draftError);
+      return NextResponse.json(
+        { success: false, message: "Failed to store draft" },
+        { status: 500 },
+      );
+    }
+
+    const draftScans = scans.map((scan) => ({ ...scan, draft_id: draft.id }));
+    await recordScans(draftScans);
+    progress.complete("Draft stored, awaiting review");
+    progress.skip("crm_sync", "Runs when the draft is confirmed");
+
+    return NextResponse.json({
+      success: true,
+      draft,
+      data: cleanedData,
+      fields,
+      sourceRegions: locateSourceRegions(
+        sideFields(fields, "front"),
+        textSegments,
+      ),
+      textSegments,
+      images: {
+        front: toDataUrl(front.image),
+        ...(backSide && { back: toDataUrl(backSide.image) }),
+      },
+      ...(backSide && {
+        backSourceRegions: locateSourceRegions(
+          sideFields(fields, "back"),
+          backSide.textSegments,
+        ),
+        backTextSegments: backSide.textSegments,
+        backRawText: backSide.fullText,
+      }),
+      ocrConfidence: confidence,
+      lowConfidenceFields: lowConfidence,
+      warnings,
+      preprocessing,
+      scans: draftScans,
+      rawText: fullText,
+    });
+  }
+
+  // Stage 4: Persistent Storage with Audit Trail
+  console.log("Storing in database...");
+  const { data: lead, error } = await db
+    .from("leads")
+    .insert([
+      {
+        ...cleanedData,
+        ...imagePaths,
+        field_provenance: fields,
+        ocr_confidence: confidence,
+        extraction_warnings: warnings,
+        source,
+        batch_id: input.batchId,
+        created_at: new Date().toISOString(),
+      },
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Database error:", error);
+    return NextResponse.json(
+      { success: false, message: "Failed to store lead data" },
+      { status: 500 },
+    );
+  }
+
+  const leadScans = scans.map((scan) => ({ ...scan, lead_id: lead.id }));
+  await recordScans(leadScans);
+
+  // Stage 5: CRM Integration
+  await syncLeads([lead.id], progress);
+
+  return NextResponse.json({
+    success: true,
+    lead,
+    fields,
+    ocrConfidence: confidence,
+    // Fields reviewers should double-check before trusting the lead
+    lowConfidenceFields: lowConfidence,
+    warnings,
+    preprocessing,
+    scans: leadScans,
+    rawText: fullText, // Include for debugging and transparency
+    ...(backSide && { backRawText: backSide.fullText }),
+  });
+}
+
+/**
+ * Recognizes one side of a card: decodes its vCard/MECARD QR code, preprocesses the
+ * image and runs OCR.
+ *
+ * OCR failures are tolerated when the QR code decoded, or for the optional back side
+ * (often just a logo); the side then contributes no OCR text.
+ *
+ * With the upload's `contentHash`, the OCR result of an earlier scan of the same
+ * file (and `page`) is reused when there is one (see `findCachedOcr`).
+ */
+async function recognizeCardSide(
+  upload: CardImage,
+  options: {
+    region: CountryCode;
+    languageHints: string[];
+    contentHash?: string;
+    page?: number;
+    optional?: boolean;
+  },
+): Promise<RecognizedSide> {
+  // A vCard/MECARD QR code carries the exact contact details
+  const qrPayload = await decodeQrCode(upload.buffer);
+  const decoded = qrPayload
+    ? parseContactPayload(qrPayload, { defaultRegion: options.region })
+    : null;
+
+  let recognized: Awaited<ReturnType<typeof recognizeImage>>;
+  try {
+    const cached = options.contentHash
+      ? await findCachedOcr(
+          options.contentHash,
+          options.page,
+          options.languageHints,
+        )
+      : null;
+    recognized =
+      cached ||
+      (await recognizeImage(upload, getOcrProvider(), options.languageHints));
+  } catch (error) {
+    // Cards that are little more than a QR code are still usable
+    if (!decoded && !options.optional) throw error;
+    console.warn("OCR failed, continuing without text:", error);
+    recognized = {
+      ocrResult: {
+        fullText: "",
+        confidence: 0,
+        textSegments: [],
+        wordCount: 0,
+      },
+      image: upload,
+      preprocessing: [],
+    };
+  }
+
+  return { decoded, ...recognized };
+}
+
+/**
+ * Extracts the lead fields of a recognized card side, with the decoded contact
+ * merged over the OCR result.
+ */
+async function extractCardSide(
+  side: RecognizedSide,
+  region: CountryCode,
+): Promise<CardSideRead> {
+  const { ocrResult, decoded } = side;
+
+  console.log("Cleaning and normalizing data...");
+  let extraction = await cleanAndNormalizeData(
+    ocrResult.fullText,
+    ocrResult.textSegments,
+    ocrResult.confidence,
+    { defaultRegion: region },
+  );
+  if (decoded) {
+    console.log(`Merging ${decoded.format} from QR code...`);
+    extraction = mergeDecodedContact(extraction, decoded);
+  }
+
+  return { ...ocrResult, ...side, extraction };
+}
+
+/**
+ * Processes a photo of several cards: OCR runs once on the whole photo, then every
+ * card found in the word geometry is cropped, checked for its own QR code, extracted
+ * and stored as a separate lead. Crop boxes refer to the preprocessed photo OCR read,
+ * and each card is scored by the confidence of its own words.
+ */
+async function processMultipleCards(
+  upload: PreparedUpload,
+  options: { region: CountryCode; languageHints: string[]; batchId?: string },
+  progress: StageTracker,
+): Promise<NextResponse> {
+  const {
+    ocrResult: { fullText, confidence, textSegments },
+    image,
+    preprocessing,
+  } = await recognizeImage(
+    upload.images[0],
+    getOcrProvider(),
+    options.languageHints,
+  );
+  const cards = detectCardRegions(textSegments);
+
+  if (cards.length === 0) {
+    return NextResponse.json(
+      { success: false, message: "No text detected in image" },
+      { status: 400 },
+    );
+  }
+  console.log(`Detected ${cards.length} cards in photo...`);
+
+  progress.start("normalization");
+  const extracted: {
+    card: (typeof cards)[number];
+    crop: ImageCrop;
+    cardConfidence: number;
+    decoded: DecodedContact | null;
+    extraction: ExtractionResult;
+  }[] = [];
+  for (const card of cards) {
+    const crop = await cropImage(image.buffer, card.rect);
+    const qrPayload = await decodeQrCode(crop.buffer);
+    const decoded = qrPayload
+      ? parseContactPayload(qrPayload, { defaultRegion: options.region })
+      : null;
+
+    // Providers without word confidences only score the whole photo
+    const cardConfidence = card.confidence ?? confidence;
+    let extraction = await cleanAndNormalizeData(
+      card.text,
+      card.segments,
+      cardConfidence,
+      { defaultRegion: options.region },
+    );
+    if (decoded) extraction = mergeDecodedContact(extraction, decoded);
+    extracted.push({ card, crop, cardConfidence, decoded, extraction });
+  }
+
+  // The photo is stored once, with the first card's scan
+  progress.start("storage");
+  let originalPath: string | undefined;
+  const results: {
+    crop: ImageCrop;
+    cardConfidence: number;
+    extraction: ExtractionResult;
+    scan: LeadScan;
+    row: Record<string, unknown>;
+  }[] = [];
+  for (const [
+    index,
+    { card, crop, cardConfidence, decoded, extraction },
+  ] of extracted.entries()) {
+    // The card's own words, in preprocessed photo coordinates like `crop_box`
+    const scan = await storeCardScan(
+      "front",
+      originalPath ? { path: originalPath } : upload.original,
+      {
+        ocrResult: {
+          fullText: card.text,
+          confidence: cardConfidence,
+          textSegments: card.segments,
+          wordCount: card.segments.length,
+        },
+        image: { buffer: crop.buffer, contentType: "image/jpeg" },
+        preprocessing,
+      },
+      { ...options, contentHash: upload.contentHash, cropBox: crop.box },
+    );
+    originalPath ??= scan.original_path;
+
+    results.push({
+      crop,
+      cardConfidence,
+      extraction,
+      scan,
+      row: {
+        ...extraction.data,
+        image_front_path: scan.image_path,
+        field_provenance: extraction.fields,
+        ocr_confidence: cardConfidence,
+        extraction_warnings: extraction.warnings,
+        source: sourceLabel(decoded, `card ${index + 1} of ${cards.length}`),
+        created_at: new Date().toISOString(),
+      },
+    });
+  }
+
+  const leads = await commitLeads(
+    results.map(({ row }) => row),
+    options.batchId,
+  );
+  if (!leads) {
+    return NextResponse.json(
+      { success: false, message: "Failed to store lead data" },
+      { status: 500 },
+    );
+  }
+  const scans = leads.map((lead, index) => ({
+    ...results[index].scan,
+    lead_id: lead.id,
+  }));
+  await recordScans(scans);
+  await syncLeads(
+    leads.map((lead) => lead.id),
+    progress,
+  );
+
+  return NextResponse.json({
+    success: true,
+    leads: leads.map((lead, index) => {
+      const { crop, cardConfidence, extraction } = results[index];
+      return {
+        lead,
+        scan: scans[index],
+        box: crop.box,
+        ocrConfidence: cardConfidence,
+        fields: extraction.fields,
+        lowConfidenceFields: lowConfidenceFields(extraction.fields),
+        warnings: extraction.warnings,
+      };
+    }),
+    ocrConfidence: confidence,
+    preprocessing: { steps: preprocessing, originalPath },
+    rawText: fullText,
+  });
+}
+
+/**
+ * Processes a multi-page PDF: every page is read as a card of its own (QR code,
+ * preprocessing, OCR, extraction) and stored as a separate lead. Blank pages are
+ * skipped.
+ */
+async function processCardPages(
+  upload: PreparedUpload,
+  options: { region: CountryCode; languageHints: string[]; batchId?: string },
+  progress: StageTracker,
+): Promise<NextResponse> {
+  const pageCount = upload.images.length;
+  const recognized: { page: number; side: RecognizedSide }[] = [];
+  for (const [index, pageImage] of upload.images.entries()) {
+    const page = pageImage.page || index + 1;
+    const side = await recognizeCardSide(pageImage, {
+      ...options,
+      contentHash: upload.contentHash,
+      page,
+      optional: true,
+    });
+    if (side.ocrResult.fullText || side.decoded) {
+      recognized.push({ page, side });
+    }
+  }
+
+  if (recognized.length === 0) {
+    return NextResponse.json(
+      { success: false, message: "No text detected in document" },
+      { status: 400 },
+    );
+  }
+
+  progress.start("normalization");
+  const cards: { page: number; card: CardSideRead }[] = [];
+  for (const { page, side } of recognized) {
+    cards.push({ page, card: await extractCardSide(side, options.region) });
+  }
+
+  // The PDF is stored once, with the first page's scan
+  progress.start("storage");
+  let originalPath: string | undefined;
+  const results: {
+    page: number;
+    card: CardSideRead;
+    scan: LeadScan;
+    row: Record<string, unknown>;
+  }[] = [];
+  for (const { page, card } of cards) {
+    const scan = await storeCardScan(
+      "front",
+      originalPath ? { path: originalPath } : upload.original,
+      card,
+      { ...options, contentHash: upload.contentHash, page },
+    );
+    originalPath ??= scan.original_path;
+
+    results.push({
+      page,
+      card,
+      scan,
+      row: {
+        ...card.extraction.data,
+        image_front_path: scan.image_path,
+        field_provenance: card.extraction.fields,
+        ocr_confidence: card.confidence,
+        extraction_warnings: card.extraction.warnings,
+        source: sourceLabel(card.decoded, `page ${page} of ${pageCount}`),
+        created_at: new Date().toISOString(),
+      },
+    });
+  }
+
+  const leads = await commitLeads(
+    results.map(({ row }) => row),
+    options.batchId,
+  );
+  if (!leads) {
+    return NextResponse.json(
+      { success: false, message: "Failed to store lead data" },
+      { status: 500 },
+    );
+  }
+  const scans = leads.map((lead, index) => ({
+    ...results[index].scan,
+    lead_id: lead.id,
+  }));
+  await recordScans(scans);
+  await syncLeads(
+    leads.map((lead) => lead.id),
+    progress,
+  );
+
+  return NextResponse.json({
+    success: true,
+    leads: leads.map((lead, index) => {
+      const { page, card } = results[index];
+      return {
+        lead,
+        scan: scans[index],
+        page,
+        fields: card.extraction.fields,
+        ocrConfidence: card.confidence,
+        lowConfidenceFields: lowConfidenceFields(card.extraction.fields),
+        warnings: card.extraction.warnings,
+        preprocessing: card.preprocessing,
+        rawText: card.fullText,
+      };
+    }),
+    preprocessing: { originalPath },
+  });
+}
+
+/**
+ * Stores the leads of a multi-card upload in one insert.
+ *
+ * @returns The stored leads in insertion order, or null when the insert failed
+ */
+async function commitLeads(rows: Record<string, unknown>[], batchId?: string) {
+  console.log(`Storing ${rows.length} leads in database...`);
+  const { data: leads, error } = await getSupabaseClient()
+    .from("leads")
+    .insert(rows.map((row) => ({ ...row, batch_id: batchId })))
+    .select();
+
+  if (error || !leads) {
+    console.error("Database error:", error);
+    return null;
+  }
+  return leads;
+}
+
+/**
+ * Maps an upload validation failure to its structured error response.
+ */
+function uploadErrorResponse(error: unknown, field: "image" | "back") {
+  if (!(error instanceof UploadError)) throw error;
+  return NextResponse.json(
+    {
+      success: false,
+      code: error.code,
+      field,
+      message: field === "back" ? `Back side: ${error.message}` : error.message,
+    },
+    { status: error.status },
+  );
+}
+
+// Names of the fields extracted below the low-confidence threshold
+function lowConfidenceFields(fields: LeadFieldProvenance): string[] {
+  return Object.entries(fields)
+    .filter(([, field]) => field.confidence < LOW_CONFIDENCE_THRESHOLD)
+    .map(([name]) => name);
+}
+
+/**
+ * Stores a read card image with its upload and OCR result (see `storeScan`).
+ */
+function storeCardScan(
+  side: CardSide,
+  original: CardImage | { path: string },
+  card: { ocrResult: OcrResult; image: CardImage; preprocessing: string[] },
+  options: {
+    region: CountryCode;
+    languageHints: string[];
+    contentHash: string;
+    cropBox?: ImageCrop["box"];
+    page?: number;
+  },
+): Promise<LeadScan> {
+  return storeScan({
+    side,
+    original,
+    contentHash: options.contentHash,
+    image: card.image,
+    ocrResult: card.ocrResult,
+    ocrProvider: getOcrProvider().name,
+    languageHints: options.languageHints,
+    region: options.region,
+    preprocessing: card.preprocessing,
+    cropBox: options.cropBox,
+    page: options.page,
+  });
+}
+
+/**
+ * Records scans in `lead_scans`. Failures are logged but don't fail the request;
+ * the lead keeps its image paths.
+ */
+async function recordScans(scans: LeadScan[]) {
+  const { error } = await getSupabaseClient().from("lead_scans").insert(scans);
+  if (error) console.error("Failed to record scans:", error);
+}
+
+/**
+ * Finds the OCR result of an earlier scan of the same file: same page, OCR provider
+ * and language hints. Multi-card scans hold only their card's words and are skipped.
+ *
+ * Lookup failures are logged and treated as a cache miss.
+ *
+ * @returns The stored OCR result with the preprocessed image it refers to, or null
+ */
+async function findCachedOcr(
+  contentHash: string,
+  page: number | undefined,
+  languageHints: string[],
+): Promise<Awaited<ReturnType<typeof recognizeImage>> | null> {
+  try {
+    const { data: scans, error } = await getSupabaseClient()
+      .from("lead_scans")
+      .select(
+        "storage_provider, original_path, image_path, ocr_result_path, preprocessing, language_hints, page",
+      )
+      .eq("content_hash", contentHash)
+      .eq("ocr_provider", getOcrProvider().name)
+      .is("crop_box", null)
+      .not("image_path", "is", null)
+      .not("ocr_result_path", "is", null)
+      .order("created_at", { ascending: false })
+      .limit(20);
+    if (error) throw error;
+
+    const scan = scans.find(
+      (scan) =>
+        (scan.page ?? undefined) === page &&
+        (scan.language_hints || []).join(",") === languageHints.join(","),
+    );
+    if (!scan) return null;
+
+    const [ocr, image] = await Promise.all([
+      readScanArtifact(scan, "ocr"),
+      readScanArtifact(scan, "image"),
+    ]);
+    if (!ocr || !image) return null;
+
+    console.log("Reusing cached OCR result...");
+    return {
+      ocrResult: JSON.parse(ocr.data.toString()) as OcrResult,
+      image: { buffer: image.data, contentType: image.contentType },
+      preprocessing: scan.preprocessing || [],
+    };
+  } catch (error) {
+    console.warn("OCR cache lookup failed, running OCR:", error);
+    return null;
+  }
+}
+
+/**
+ * Finds the leads an upload was already stored as: leads with a front scan of the
+ * file and, when a back side is sent, a back scan of that file.
+ *
+ * Lookup failures are logged and treated as a new upload.
+ *
+ * @returns The leads with their front scans, in scan order
+ */
+async function findProcessedLeads(
+  contentHash: string,
+  backContentHash?: string,
+): Promise<{ lead: StoredLead; scan: LeadScan }[]> {
+  const db = getSupabaseClient();
+  const { data: scans, error } = await db
+    .from("lead_scans")
+    .select("*")
+    .in(
+      "content_hash",
+      backContentHash ? [contentHash, backContentHash] : [contentHash],
+    )
+    .not("lead_id", "is", null)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Failed to look up earlier scans:", error);
+    return [];
+  }
+
+  const fronts = (scans as LeadScan[]).filter(
+    (scan) =>
+      scan.side === "front" &&
+      scan.content_hash === contentHash &&
+      (!backContentHash ||
+        scans.some(
+          (back) =>
+            back.lead_id === scan.lead_id &&
+            back.side === "back" &&
+            back.content_hash === backContentHash,
+        )),
+  );
+  if (fronts.length === 0) return [];
+
+  const { data: leads, error: leadsError } = await db
+    .from("leads")
+    .select()
+    .in(
+      "id",
+      fronts.map((scan) => scan.lead_id),
+    );
+
+  if (leadsError) {
+    console.error("Failed to look up earlier leads:", leadsError);
+    return [];
+  }
+
+  return fronts.flatMap((scan) => {
+    const lead = (leads as StoredLead[]).find(
+      (lead) => lead.id === scan.lead_id,
+    );
+    return lead ? [{ lead, scan }] : [];
+  });
+}
+
+/**
+ * Answers an upload that was already processed with its existing leads.
+ *
+ * @param multiple - Whether the upload holds several cards (multi-card photo or
+ *   multi-page PDF), answered with `leads` like when first processed
+ */
+function alreadyProcessedResponse(
+  processed: { lead: StoredLead; scan: LeadScan }[],
+  multiple: boolean,
+): NextResponse {
+  const details = (lead: StoredLead) => ({
+    fields: lead.field_provenance || {},
+    ocrConfidence: lead.ocr_confidence,
+    lowConfidenceFields: lowConfidenceFields(lead.field_provenance || {}),
+    warnings: lead.extraction_warnings || [],
+  });
+
+  if (multiple) {
+    return NextResponse.json({
+      success: true,
+      duplicate: true,
+      message: "These cards were already processed",
+      leads: processed.map(({ lead, scan }) => ({
+        lead,
+        ...(scan.crop_box && { box: scan.crop_box }),
+        ...(scan.page && { page: scan.page }),
+        ...details(lead),
+      })),
+    });
+  }
+
+  const [{ lead }] = processed;
+  return NextResponse.json({
+    success: true,
+    duplicate: true,
+    message: "This card was already processed",
+    lead,
+    ...details(lead),
+  });
+}
+
+function toDataUrl({ buffer, contentType }: CardImage): string {
+  return `data:${contentType};base64,${buffer.toString("base64")}`;
+}
+
+/**
+ * Lead source: OCR engine, QR code and scan details with a timestamp, e.g.
+ * "Google Vision + QR vCard - 2024-01-15 14:30:25".
+ */
+function sourceLabel(
+  decoded: DecodedContact | null | undefined,
+  ...details: (string | false | null | undefined)[]
+): string {
+  const engine = [
+    getOcrProvider().name,
+    decoded && `QR ${decoded.format === "vcard" ? "vCard" : "MECARD"}`,
+    ...details,
+  ]
+    .filter(Boolean)
+    .join(" + ");
+  const now = new Date();
+  return `${engine} - ${now.toISOString().split("T")[0]} ${now.toTimeString().split(" ")[0]}`;
+}
@@ -7,20 +7,43 @@
  * Pipeline Architecture:
  *
  * 1. Image Input Validation & Processing
- *    - Validates uploaded file format and size
- *    - Converts image to buffer format for OCR processing
+ *    - Validates type (by magic bytes), size and resolution server-side
+ *    - Converts iPhone HEIC photos and PDF pages (one card per page) to images locally
  *    - Handles multipart form data extraction
- *
- * 2. OCR Text Extraction (Google Vision AI)
- *    - Leverages Google Cloud Vision API for high-accuracy text detection
- *    - Optimized for business card layouts and typography
- *    - Returns raw text with confidence scores
+ *    - Server-side preprocessing before OCR (see `preprocessImage`): EXIF orientation,
+ *      downsizing, card crop, deskew and contrast; sideways or upside-down photos are
+ *      turned upright from the OCR text orientation and read again
+ *    - Optional back side image for two-sided cards, read like the front
+ *    - Decodes a vCard/MECARD QR code printed on the card, locally (jsQR)
+ *    - Optional multi-card photos: individual cards are found from the OCR word
+ *      geometry and cropped, one lead per card
+ *
+ * 2. OCR Text Extraction (Pluggable Provider)
+ *    - Google Cloud Vision API for high-accuracy text detection (default)
+ *    - Local Tesseract.js engine for offline, dev and CI environments
+ *    - Returns raw text with confidence scores and word bounding boxes
  *
  * 3. Intelligent Data Normalization
  *    - Advanced regex-based field extraction for emails, phones, websites
- *    - Heuristic-based classification for names, companies, and job titles
+ *    - International phone parsing to E.164 with a per-upload default region
+ *    - All phone numbers kept and typed (mobile/office/fax) from their labels
+ *    - Postal address split into street, city, region, postal code and country
+ *    - Non-Latin scripts (Arabic, CJK, Cyrillic, ...) with native-script name, company
+ *      and title kept next to the Latin version on bilingual cards
+ *    - Layout-aware classification of names, companies, and job titles using
+ *      word bounding boxes (font size, position, grouping)
+ *    - Text heuristics as fallback when no geometry is available
  *    - OCR error correction for common misreadings (0/O, 1/l confusion)
  *    - Smart field prioritization and conflict resolution
+ *    - Company and website inferred from a company email domain (free-mail ignored)
+ *    - Social profile links and messaging handles (LinkedIn, X, WhatsApp, ...) kept
+ *      apart from the website and phone numbers
+ *    - Contact decoded from the QR code merged over the OCR fields (decoded values win)
+ *    - Front and back merged with conflict rules (see `mergeCardSides`)
+ *    - Original upload, preprocessed image and full OCR result stored per scanned
+ *      image (see `storeScan`) and linked from `lead_scans`
+ *    - Re-uploads of the same file (by content hash) reuse the stored OCR result and
+ *      return the existing lead instead of creating a duplicate
  *
  * 4. Database Persistence (Supabase/PostgreSQL)
  *    - Structured lead data storage with proper indexing
@@ -31,11 +54,17 @@
  *    - Non-blocking CRM sync to prevent API timeout issues
  *    - Error isolation - CRM failures don't affect core pipeline
  *    - Retry logic and failure monitoring (production-ready pattern)
+ *    - Awaited only while progress is streamed, so its real outcome can be shown
  *
  * Technical Design Decisions:
  *
  * - **Synchronous OCR + Async CRM**: Critical path (OCR→DB) blocks for user feedback,
  *   while CRM sync happens in background to optimize response time
+ * - **Progress Streaming**: The upload page follows the real pipeline stages over
+ *   Server-Sent Events (`Accept: text/event-stream`, see `streamStages`)
+ * - **Optional Async Mode**: API clients with large images can queue the upload
+ *   (`async=true`) and poll or receive a callback instead of holding the request open
+ *   past serverless timeouts; jobs run the same pipeline (see `processCardUpload`)
  * - **Heuristic Field Detection**: Combines multiple signals (position, keywords, format)
  *   rather than relying on fixed layouts, making it robust across card designs
  * - **Progressive Enhancement**: Returns partial data when some fields aren't detected,
@@ -45,7 +74,8 @@
  *
  * Performance Characteristics:
  * - Average processing time: 2-4 seconds for standard business cards
- * - Error rate: <5% for standard business card formats
+ * - Extraction accuracy: measured per field with `pnpm benchmark` over the labeled
+ *   card corpus (see `src/lib/benchmark`)
  *
  * Usage Example:
  *
@@ -58,19 +88,37 @@
  * // Returns: { success: true, lead: {...}, rawText: "..." }
  *
  * Environment Dependencies:
- * - `GOOGLE_VISION_API_KEY`: Google Cloud Vision API credentials
+ * - `OCR_PROVIDER`: OCR backend, "google-vision" (default) or "tesseract"
+ * - `DEFAULT_PHONE_REGION`: Region for phone numbers without a country code (default "US")
+ * - `OCR_LANGUAGE_HINTS`: Default OCR language hints, e.g. "en,ar"
+ * - `GOOGLE_VISION_API_KEY`: Google Cloud Vision API credentials (google-vision provider)
  * - `SUPABASE_URL` & `SUPABASE_API_KEY`: Database connection
+ * - `STORAGE_PROVIDER`: Storage for card images and OCR results, "supabase" (default
+ *   in production) or "local" (see `getStorageProvider`)
+ * - `CARD_IMAGES_BUCKET`: Supabase Storage bucket for card images (default "card-images")
  * - `NEXT_PUBLIC_APP_URL`: Base URL for internal CRM sync calls
+ * - `CALLBACK_SIGNING_SECRET`: Signs async job callbacks (optional, see `deliverCallback`)
+ * - `CALLBACK_ALLOWED_HOSTS`: Restricts callback URLs to these hosts (optional, see
+ *   `parseCallbackUrl`)
  *
  * @module api/process-card
  * @author Ahmed Kamal
  * @since 1.0.0
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { getSupabaseClient } from "@/lib/supabase";
-import { extractTextFromImage } from "@/lib/google-vision";
-import type { LeadData } from "@/models/lead";
+import { after, NextRequest, NextResponse } from "next/server";
+import { parseCallbackUrl } from "@/lib/callbacks";
+import { acceptsEventStream, streamStages } from "@/lib/progress";
+import { resolveLanguageHints } from "@/lib/ocr";
+import { resolveDefaultRegion } from "@/lib/normalization";
+import {
+  processCardUpload,
+  type CardUploadInput,
+} from "@/app/api/process-card/pipeline";
+import {
+  createProcessingJob,
+  runProcessingJobs,
+} from "@/app/api/process-card/jobs";
 
 /**
  * POST /api/process-card
@@ -83,7 +131,21 @@ import type { LeadData } from "@/models/lead";
  *
  * Request Format:
  * - Content-Type: multipart/form-data
- * - Field: 'image' (File) - Business card image file
+ * - Field: 'image' (File) - Business card image file (front side): JPEG, PNG, WebP,
+ *   HEIC or PDF, up to 10MB and at least 800×600px; a multi-page PDF holds one card
+ *   per page (see Multi-Page PDFs below)
+ * - Field: 'back' (File, optional) - Back side of a two-sided card (single page)
+ * - Field: 'cards' (optional) - "multiple" when the photo shows several cards side by
+ *   side (see Multi-Card Photos below); not combined with `back` or `mode=draft`
+ * - Field: 'mode' (optional) - "commit" (default) stores the lead and triggers CRM sync,
+ *   "draft" only stores a pending draft for human review (see Draft Mode below)
+ * - Field: 'region' (optional) - ISO 3166-1 alpha-2 region for phone numbers written
+ *   without a country code, e.g. "GB" (default: `DEFAULT_PHONE_REGION`, then "US")
+ * - Field: 'languages' (optional) - Comma-separated ISO 639-1 OCR language hints for
+ *   bilingual cards, e.g. "en,ar" (default: `OCR_LANGUAGE_HINTS`, else auto-detect)
+ * - Field: 'async' (optional) - "true" queues the upload and answers 202 with a job
+ *   id right away (see Async Mode below)
+ * - Field: 'callbackUrl' (optional) - http(s) URL receiving the result of an async job
  *
  * Response Format:
  * ```json
@@ -93,19 +155,247 @@ import type { LeadData } from "@/models/lead";
  *     "id": "uuid",
  *     "name": "John Doe",
  *     "email": "john@company.com",
- *     "phone": "+1-555-123-4567",
+ *     "phone": "+12127365000",
+ *     "phone_display": "+1 212 736 5000",
+ *     "phone_extension": "204",
+ *     "phones": [
+ *       { "type": "office", "e164": "+12127365000", "display": "+1 212 736 5000", "extension": "204", "primary": true },
+ *       { "type": "fax", "e164": "+12127365001", "display": "+1 212 736 5001", "primary": false }
+ *     ],
  *     "company": "Acme Corp",
  *     "job_title": "CEO",
  *     "website": "acme.com",
+ *     "address_street": "350 Fifth Avenue, Suite 4100",
+ *     "address_city": "New York",
+ *     "address_region": "NY",
+ *     "address_postal_code": "10118",
+ *     "address_country": "US",
+ *     "social_profiles": [
+ *       { "network": "linkedin", "handle": "john-doe", "url": "https://www.linkedin.com/in/john-doe" }
+ *     ],
  *     "source": "Google Vision - 2024-01-15 14:30:25",
+ *     "field_provenance": {...},
+ *     "ocr_confidence": 0.97,
+ *     "extraction_warnings": [],
  *     "created_at": "2024-01-15T14:30:25.123Z"
  *   },
+ *   "fields": {
+ *     "email": {
+ *       "confidence": 0.92,
+ *       "rule": "regex:email",
+ *       "span": { "text": "john@company.com", "start": 42, "end": 58 }
+ *     },
+ *     ...
+ *   },
+ *   "ocrConfidence": 0.97,
+ *   "lowConfidenceFields": ["job_title"],
+ *   "warnings": [
+ *     { "code": "invalid_phone", "field": "phone", "message": "...", "value": "..." }
+ *   ],
+ *   "rawText": "Original OCR extracted text..."
+ * }
+ * ```
+ *
+ * Draft Mode:
+ * With `mode=draft` nothing is written to `leads` and no CRM sync is triggered.
+ * The extraction is stored in `lead_drafts` and returned for review together with
+ * the word segments and per-field source regions, so the UI can highlight where each
+ * value came from. The reviewer confirms (optionally with corrections) through
+ * `POST /api/process-card/drafts/{id}/confirm`. Drafts expire after 24 hours.
+ *
+ * ```json
+ * {
+ *   "success": true,
+ *   "draft": { "id": "uuid", "expires_at": "2024-01-16T14:30:25.123Z" },
+ *   "data": { "name": "John Doe", ... },
+ *   "fields": { ... },
+ *   "sourceRegions": { "name": [{ "vertices": [{ "x": 10, "y": 20 }, ...] }] },
+ *   "textSegments": [ ... ],
+ *   "ocrConfidence": 0.97,
+ *   "lowConfidenceFields": ["job_title"],
+ *   "warnings": [
+ *     { "code": "invalid_phone", "field": "phone", "message": "...", "value": "..." }
+ *   ],
+ *   "rawText": "Original OCR extracted text..."
+ * }
+ * ```
+ *
+ * Phone numbers that are not valid for their region are never stored; they are
+ * reported in `warnings` (and persisted in `extraction_warnings`) for follow-up,
+ * as are cross-field conflicts such as an email domain that does not match the
+ * website (`domain_mismatch`).
+ *
+ * QR Codes:
+ * When the card carries a QR code with a vCard or MECARD, the decoded contact is
+ * merged over the OCR result: decoded fields replace the OCR reading (provenance rule
+ * `qr:vcard`/`qr:mecard`) and `source` records the QR code, e.g. "Google Vision +
+ * QR vCard - 2024-01-15 14:30:25". A card whose QR code decodes is processed even
+ * when OCR finds no text.
+ *
+ * Two-Sided Cards:
+ * With a `back` image both sides are read and merged: values printed on one side
+ * are taken from it, conflicting readings keep the higher-confidence one and are
+ * reported as `side_conflict` warnings, and each field's provenance names its `side`.
+ * Draft responses add `backSourceRegions`, `backTextSegments` and `backRawText`.
+ * Both images are stored and referenced by the lead's
+ * `image_front_path`/`image_back_path`.
+ *
+ * Image Preprocessing:
+ * OCR reads the preprocessed image, so word boxes and source regions refer to it;
+ * it is the image stored as `image_front_path`/`image_back_path`, and draft
+ * responses include it as `images.front`/`images.back` (data URLs) for the review
+ * overlay. For debugging, the untouched upload is stored next to it and every
+ * response lists the applied stages and the original's storage path:
+ *
+ * ```json
+ * "preprocessing": {
+ *   "front": {
+ *     "steps": ["EXIF orientation 6 applied", "deskewed -2.5°", "contrast normalized"],
+ *     "originalPath": "<scan id>/original.jpeg"
+ *   }
+ * }
+ * ```
+ *
+ * Scans:
+ * Every scanned image (each side, card or page) keeps its original upload, the
+ * preprocessed image and the full OCR result JSON in the storage backend, so
+ * extraction can be re-run later. They are recorded in `lead_scans`, linked to the
+ * lead (or to the draft until it is confirmed), and returned as `scans`; the
+ * artifacts are served by `GET /api/scans/{id}/{original|image|ocr}`. Multi-card
+ * scans hold the card's own OCR words and its `crop_box` in the preprocessed
+ * photo; PDF scans their `page`. Storage failures are logged and leave the
+ * artifact's path empty.
+ *
+ * Multi-Card Photos:
+ * With `cards=multiple` the photo is read once and split into cards by clustering
+ * the OCR word boxes (see `detectCardRegions`). Each card is cropped, checked for
+ * its own QR code, extracted and stored as its own lead with the crop as its
+ * `image_front_path`. All leads are returned with their crop `box` and the
+ * `ocrConfidence` of the card's own words (the photo's when the OCR provider scores
+ * no words). Boxes are in pixel coordinates of the preprocessed photo OCR read,
+ * i.e. after the `preprocessing` steps (EXIF orientation, downsizing, card crop,
+ * deskewing), not of the original upload:
+ *
+ * ```json
+ * {
+ *   "success": true,
+ *   "leads": [
+ *     {
+ *       "lead": { "id": "uuid", "name": "John Doe", ... },
+ *       "box": { "left": 40, "top": 60, "right": 640, "bottom": 400 },
+ *       "ocrConfidence": 0.93,
+ *       "fields": { ... },
+ *       "lowConfidenceFields": [],
+ *       "warnings": []
+ *     }
+ *   ],
+ *   "ocrConfidence": 0.95,
  *   "rawText": "Original OCR extracted text..."
  * }
  * ```
  *
+ * Multi-Page PDFs:
+ * Every page of a PDF is read as a separate card and stored as its own lead (blank
+ * pages are skipped); single-page PDFs are processed like an image. The response
+ * lists the leads with their `page` and per-page `ocrConfidence`, `preprocessing`
+ * and `rawText`. Like multi-card photos, they are not combined with `back` or
+ * `mode=draft`.
+ *
+ * Re-Uploads:
+ * Uploads are identified by the SHA-256 hash of their bytes (`content_hash` of their
+ * scans). A file whose cards are already stored as leads (same front, and same back
+ * when one is sent) is not processed again: the existing lead is returned with
+ * `duplicate: true` and nothing is inserted, in draft mode too. Multi-card photos
+ * and PDFs return all their `leads`:
+ *
+ * ```json
+ * {
+ *   "success": true,
+ *   "duplicate": true,
+ *   "message": "This card was already processed",
+ *   "lead": { "id": "uuid", "name": "John Doe", ... },
+ *   "fields": { ... },
+ *   "ocrConfidence": 0.97,
+ *   "lowConfidenceFields": [],
+ *   "warnings": []
+ * }
+ * ```
+ *
+ * A file that was scanned before without becoming a lead (e.g. an unconfirmed
+ * draft) skips preprocessing and OCR: the stored OCR result and preprocessed image
+ * of the earlier scan are reused when the OCR provider and language hints match.
+ * Fields are always extracted again, with the current region.
+ *
+ * Async Mode:
+ * With `async=true` the upload is stored and queued in `processing_jobs`, and the
+ * request is answered immediately; any other field combination works as above.
+ * Workers run the job after the response is sent and in the standalone worker
+ * (`pnpm worker`):
+ *
+ * ```json
+ * {
+ *   "success": true,
+ *   "job": { "id": "uuid", "status": "queued", "created_at": "2024-01-15T14:30:25.123Z" },
+ *   "statusUrl": "/api/process-card/jobs/uuid"
+ * }
+ * ```
+ *
+ * `GET /api/process-card/jobs/{id}` reports the job status and, once it finished,
+ * the response the synchronous request would have returned as `result`. Uploads
+ * failing validation fail the job with that error. With a `callbackUrl` the result
+ * is also posted there, retried on failure:
+ *
+ * ```json
+ * {
+ *   "event": "job.completed",
+ *   "job": { "id": "uuid", "status": "completed", ... },
+ *   "result": { "success": true, "lead": { ... }, ... }
+ * }
+ * ```
+ *
+ * Jobs still unfinished after their third run (15 minutes each) fail as timed out,
+ * with a `job.failed` callback. The stored uploads of finished jobs are deleted.
+ *
+ * Progress Streaming:
+ * Requests sent with `Accept: text/event-stream` (and without `async=true`) are
+ * answered with a Server-Sent Events stream. A `stage` event is sent whenever a
+ * pipeline stage (`ocr`, `normalization`, `storage`, `crm_sync`) starts, completes,
+ * fails or is skipped (e.g. CRM sync in draft mode); finished stages carry their
+ * `durationMs`. The stage running when the upload is rejected is reported as
+ * failed with the error message. While streaming, the CRM sync is awaited so its
+ * real outcome is reported. A final `result` event carries the HTTP status and the
+ * response body documented above:
+ *
+ * ```
+ * event: stage
+ * data: {"stage":"ocr","status":"completed","durationMs":1840}
+ *
+ * event: stage
+ * data: {"stage":"crm_sync","status":"failed","message":"Rate limited, retry scheduled","durationMs":1203}
+ *
+ * event: result
+ * data: {"status":200,"body":{"success":true,"lead":{...},...}}
+ * ```
+ *
+ * Requests rejected before processing starts (e.g. no image) are answered with
+ * plain JSON.
+ *
+ * Upload Validation:
+ * Uploads are checked on the server regardless of the client. Failures return a
+ * structured `code` and the offending `field` ("image" or "back"):
+ *
+ * ```json
+ * { "success": false, "code": "resolution_too_low", "field": "image", "message": "..." }
+ * ```
+ *
+ * Codes: `missing_file`, `empty_file`, `unsupported_type` (415), `file_too_large` (413),
+ * `resolution_too_low`, `too_many_pages`, `unreadable_file`,
+ * `unsupported_combination` and `invalid_callback_url`.
+ *
  * Error Responses:
- * - 400: Invalid input (no image, no text detected)
+ * - 400: Invalid input (no image, failed validation, no text detected, unsupported
+ *   field combination, invalid `callbackUrl`)
+ * - 413/415: Upload too large or of an unsupported type
  * - 500: Processing failure (OCR, database, or internal error)
  *
  * @param request - Next.js request object containing multipart form data
@@ -125,65 +415,76 @@ export async function POST(request: NextRequest) {
   try {
     // Stage 1: Input Validation & Image Processing
     const formData = await request.formData();
-    const image = formData.get("image") as File;
+    const image = formData.get("image");
+    const back = formData.get("back");
+    const mode = formData.get("mode") === "draft" ? "draft" : "commit";
+    const multipleCards = formData.get("cards") === "multiple";
+    const region = resolveDefaultRegion(
+      formData.get("region") as string | null,
+    );
+    const languageHints = resolveLanguageHints(
+      formData.get("languages") as string | null,
+    );
 
-    if (!image) {
+    if (!(image instanceof File)) {
       return NextResponse.json(
-        { success: false, message: "No image provided" },
+        { success: false, code: "missing_file", message: "No image provided" },
         { status: 400 },
       );
     }
 
-    // Convert image to buffer for Google Vision processing
-    const imageBuffer = Buffer.from(await image.arrayBuffer());
-
-    // Stage 2: OCR Processing with Google Vision AI
-    const { fullText } = await extractTextFromImage(imageBuffer);
+    const input: CardUploadInput = {
+      image,
+      back: back instanceof File ? back : null,
+      mode,
+      multipleCards,
+      region,
+      languageHints,
+    };
 
-    if (!fullText) {
-      return NextResponse.json(
-        { success: false, message: "No text detected in image" },
-        { status: 400 },
-      );
-    }
+    // Async Mode: queue the upload and answer right away
+    if (formData.get("async") === "true") {
+      const callbackUrl = formData.get("callbackUrl") as string | null;
+      if (callbackUrl && !parseCallbackUrl(callbackUrl)) {
+        return NextResponse.json(
+          {
+            success: false,
+            code: "invalid_callback_url",
+            message:
+              "callbackUrl must be an absolute http(s) URL of a public (or allowed) host",
+          },
+          { status: 400 },
+        );
+      }
 
-    // Stage 3: Advanced Data Normalization and Field Extraction
-    console.log("Cleaning and normalizing data...");
-    const cleanedData = await cleanAndNormalizeData(fullText);
+      const job = await createProcessingJob(input, callbackUrl);
+      console.log(`Queued processing job ${job.id}...`);
+      // Starts on the job once the response is sent; a standalone worker
+      // (`pnpm worker`) picks up whatever this instance does not get to
+      after(() => runProcessingJobs().catch(console.error));
 
-    // Stage 4: Persistent Storage with Audit Trail
-    console.log("Storing in database...");
-    const db = getSupabaseClient();
-    const { data: lead, error } = await db
-      .from("leads")
-      .insert([
+      return NextResponse.json(
         {
-          ...cleanedData,
-          source: `Google Vision - ${new Date().toISOString().split("T")[0]} ${new Date().toTimeString().split(" ")[0]}`,
-          created_at: new Date().toISOString(),
+          success: true,
+          job: {
+            id: job.id,
+            status: job.status,
+            created_at: job.created_at,
+          },
+          statusUrl: `/api/process-card/jobs/${job.id}`,
         },
-      ])
-      .select()
-      .single();
-
-    if (error) {
-      console.error("Database error:", error);
-      return NextResponse.json(
-        { success: false, message: "Failed to store lead data" },
-        { status: 500 },
+        { status: 202 },
       );
     }
 
-    // Stage 5: Asynchronous CRM Integration
-    console.log("Triggering CRM sync...");
-    // Fire-and-forget pattern: (Mock) CRM failures don't block user response
-    triggerCRMSync(lead.id).catch(console.error);
+    // Progress Streaming: report the pipeline stages as they run
+    if (acceptsEventStream(request)) {
+      return streamStages((onStage) =>
+        processCardUpload({ ...input, onStage }),
+      );
+    }
 
-    return NextResponse.json({
-      success: true,
-      lead,
-      rawText: fullText, // Include for debugging and transparency
-    });
+    return await processCardUpload(input);
   } catch (error) {
     console.error("Processing error:", error);
     return NextResponse.json(
@@ -196,343 +497,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-/**
- * Demo Business Card Data Normalization Engine
- *
- * Transforms raw OCR text into structured lead data using sophisticated
- * pattern matching, heuristic classification, and OCR error correction.
- *
- * Algorithm Overview:
- * 1. **Multi-Pattern Field Extraction**: Uses specialized regex patterns for
- *    emails, phones, and websites with OCR error tolerance
- * 2. **Contextual Field Classification**: Employs heuristics to distinguish
- *    names, companies, and job titles based on position, format, and keywords
- * 3. **OCR Error Correction**: Fixes common Vision API misreadings (0/O, 1/l)
- * 4. **Smart Field Prioritization**: Handles cases where multiple candidates
- *    exist for the same field type
- *
- * Design Philosophy:
- * - **Graceful Degradation**: Returns partial data rather than failing completely
- * - **Business Card Agnostic**: Works with various layouts (horizontal, vertical, creative)
- * - **Cultural Awareness**: Handles international phone/name formats
- * - **Production Robustness**: Extensive input sanitization and validation
- *
- * @param text - Raw text extracted from business card via OCR
- * @returns Promise<LeadData> - Structured and cleaned lead information
- *
- * @example
- * const rawText = `
- *   John Smith
- *   Senior Software Engineer
- *   Acme Technologies Inc.
- *   john.smith@acme.com
- *   (555) 123-4567
- *   www.acme.com
- * `;
- *
- * const result = await cleanAndNormalizeData(rawText);
- * // Returns: { name: "John Smith", email: "john.smith@acme.com", ... }
- */
-async function cleanAndNormalizeData(text: string): Promise<LeadData> {
-  const lines = text.split("\n").filter((line) => line.trim().length > 0);
-  const result: LeadData = {};
-
-  // Email Extraction with OCR Error Tolerance
-  const emailRegex = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
-  const emailMatches = text.match(emailRegex);
-  if (emailMatches) {
-    result.email = cleanEmail(emailMatches[0]);
-  }
-
-  // Phone Number Extraction and International Formatting
-  const phoneRegex = /[\+]?[\s\-\(\)]*[0-9][\s\-\(\)0-9]{8,15}/g;
-  const phoneMatches = text.match(phoneRegex);
-  if (phoneMatches) {
-    result.phone = cleanPhoneNumber(phoneMatches[0]);
-  }
-
-  // Website/Domain Extraction with Protocol Handling
-  const websiteRegex =
-    /(www\.[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}|[a-zA-Z0-9.-]+\.(com|net|org|io|co|uk|ca|de))/gi;
-  const websiteMatches = text.match(websiteRegex);
-  if (websiteMatches) {
-    result.website = cleanWebsite(websiteMatches[0]);
-  }
-
-  // Heuristic-Based Field Classification
-  // Process remaining text lines to identify names, companies, and job titles
-  for (const line of lines) {
-    if (
-      !line.match(emailRegex) &&
-      !line.match(phoneRegex) &&
-      !line.match(websiteRegex) &&
-      line.length > 2 &&
-      line.length < 50
-    ) {
-      if (!result.name && isLikelyName(line)) {
-        result.name = cleanName(line);
-      } else if (!result.company && isLikelyCompany(line)) {
-        result.company = cleanCompany(line);
-      } else if (!result.job_title && isLikelyJobTitle(line)) {
-        result.job_title = cleanJobTitle(line);
-      }
-    }
-  }
-
-  return result;
-}
-
-/**
- * Email Address Cleaning and OCR Error Correction
- *
- * Fixes common OCR misreadings in email addresses while preserving
- * valid email structure and format.
- *
- * Common OCR Fixes Applied:
- * - 0 (zero) → o (letter O) in domain names
- * - 1 (one) → l (letter L) in usernames
- * - Case normalization to lowercase
- *
- * @param email - Raw email string from OCR
- * @returns Cleaned and normalized email address
- */
-function cleanEmail(email: string): string {
-  return email
-    .toLowerCase()
-    .replace(/[0O]/g, "o") // Common OCR errors: zero to letter O
-    .replace(/[1l]/g, "l") // Common OCR errors: one to letter L
-    .trim();
-}
-
-/**
- * Phone Number Standardization and International Formatting
- *
- * Converts various phone number formats into a standardized international
- * format with proper country code handling.
- *
- * Supported Input Formats:
- * - (555) 123-4567
- * - 555.123.4567
- * - +1 555 123 4567
- * - 15551234567
- *
- * Output Format: +1-555-123-4567
- *
- * @param phone - Raw phone number string from OCR
- * @returns Standardized international phone number format
- */
-function cleanPhoneNumber(phone: string): string {
-  // Extract digits only for processing
-  const digits = phone.replace(/\D/g, "");
-
-  // US/Canada number formatting (10 digits)
-  if (digits.length === 10) {
-    return `+1-${digits.substring(0, 3)}-${digits.substring(3, 6)}-${digits.substring(6)}`;
-  }
-  // US/Canada with country code (11 digits starting with 1)
-  else if (digits.length === 11 && digits.startsWith("1")) {
-    return `+${digits.substring(0, 1)}-${digits.substring(1, 4)}-${digits.substring(4, 7)}-${digits.substring(7)}`;
-  }
-
-  // International number - preserve as-is with + prefix
-  return `+${digits}`;
-}
-
-/**
- * Website URL Cleaning and Normalization
- *
- * Standardizes website URLs by removing common prefixes and
- * ensuring consistent formatting for storage and display.
- *
- * @param website - Raw website string from OCR
- * @returns Cleaned website URL without www prefix
- */
-function cleanWebsite(website: string): string {
-  return website.toLowerCase().replace(/^www\./, "");
-}
-
-/**
- * Personal Name Cleaning and Formatting
- *
- * Removes OCR artifacts and standardizes name formatting while
- * preserving cultural naming conventions and punctuation.
- *
- * @param name - Raw name string from OCR
- * @returns Cleaned and properly formatted name
- */
-function cleanName(name: string): string {
-  return name
-    .replace(/[^a-zA-Z\s.-]/g, "") // Remove non-letter chars except spaces, dots, hyphens
-    .trim()
-    .replace(/\s+/g, " "); // Normalize whitespace
-}
-
-/**
- * Company Name Cleaning and Standardization
- *
- * Removes formatting artifacts while preserving proper business
- * entity indicators and special characters.
- *
- * @param company - Raw company name from OCR
- * @returns Cleaned company name
- */
-function cleanCompany(company: string): string {
-  return company.trim().replace(/\s+/g, " ").replace(/,$/, ""); // Remove trailing comma
-}
-
-/**
- * Job Title Cleaning and Formatting
- *
- * Standardizes job title formatting and removes OCR artifacts
- * while preserving professional title structure.
- *
- * @param title - Raw job title from OCR
- * @returns Cleaned job title
- */
-function cleanJobTitle(title: string): string {
-  return title.trim().replace(/\s+/g, " ");
-}
-
-/**
- * Personal Name Detection Heuristic
- *
- * Uses linguistic patterns to identify personal names among OCR text lines.
- *
- * Detection Criteria:
- * - 2-4 words (handles first, middle, last name combinations)
- * - Title case formatting (First Letter Capitalized)
- * - Excludes obvious company/title indicators
- *
- * @param text - Text line to evaluate
- * @returns True if text appears to be a personal name
- */
-function isLikelyName(text: string): boolean {
-  const nameWords = text.trim().split(/\s+/);
-  return (
-    nameWords.length >= 2 &&
-    nameWords.length <= 4 &&
-    nameWords.every((word) => /^[A-Z][a-z]+/.test(word))
-  );
-}
-
-/**
- * Company Name Detection Heuristic
- *
- * Identifies company names using business entity indicators and
- * formatting patterns common in corporate naming.
- *
- * Detection Signals:
- * - Business entity suffixes (Inc, LLC, Corp, etc.)
- * - Corporate conjunctions (&, and)
- * - All-caps abbreviations
- * - Industry keywords
- *
- * @param text - Text line to evaluate
- * @returns True if text appears to be a company name
- */
-function isLikelyCompany(text: string): boolean {
-  const companyKeywords = [
-    "Inc",
-    "LLC",
-    "Corp",
-    "Company",
-    "Ltd",
-    "Group",
-    "Solutions",
-    "Services",
-    "Technologies",
-  ];
-  return (
-    companyKeywords.some((keyword) =>
-      text.toLowerCase().includes(keyword.toLowerCase()),
-    ) ||
-    text.includes("&") ||
-    /[A-Z]{2,}/.test(text) // All-caps abbreviations
-  );
-}
-
-/**
- * Job Title Detection Heuristic
- *
- * Identifies professional job titles using common corporate
- * title keywords and hierarchical indicators.
- *
- * Detection Keywords:
- * - Executive titles (CEO, CTO, CFO)
- * - Management levels (Manager, Director, VP)
- * - Seniority indicators (Senior, Lead, Head, Chief)
- * - Professional roles (Agent, Officer)
- *
- * @param text - Text line to evaluate
- * @returns True if text appears to be a job title
- */
-function isLikelyJobTitle(text: string): boolean {
-  const titleKeywords = [
-    "CEO",
-    "CTO",
-    "CFO",
-    "Manager",
-    "Director",
-    "President",
-    "Vice",
-    "Senior",
-    "Lead",
-    "Head",
-    "Chief",
-    "Officer",
-    "Agent",
-  ];
-  return titleKeywords.some((keyword) =>
-    text.toLowerCase().includes(keyword.toLowerCase()),
-  );
-}
-
-/**
- * Asynchronous CRM Integration Trigger
- *
- * Initiates background CRM synchronization for newly processed leads.
- * Uses fire-and-forget pattern to prevent blocking the main response.
- *
- * Production Implementation Notes:
- * - In production, this should use a proper message queue (Redis, AWS SQS)
- * - Implement retry logic with exponential backoff
- * - Add monitoring and alerting for sync failures
- * - Consider batch processing for high-volume scenarios
- *
- * Current Implementation:
- * - Makes HTTP call to internal CRM sync endpoint
- * - Errors are logged but don't affect main pipeline
- * - Suitable for demo and low-volume production use
- *
- * @param leadId - UUID of the lead to sync to CRM
- * @returns Promise<void> - Resolves when sync attempt completes
- *
- * @example
- * // Usage in main pipeline:
- * triggerCRMSync(lead.id).catch(console.error);
- */
-async function triggerCRMSync(leadId: string): Promise<void> {
-  try {
-    // In production, replace with actual CRM integration (Salesforce, HubSpot, etc.)
-    const response = await fetch(
-      `${process.env.NEXT_PUBLIC_APP_URL}/api/crm-sync`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ leadId }),
-      },
-    );
-
-    if (!response.ok) {
-      throw new Error(`CRM sync failed with status: ${response.status}`);
-    }
-
-    console.log(`CRM sync successful for lead ${leadId}`);
-  } catch (error) {
-    console.error(`CRM sync failed for lead ${leadId}:`, error);
-    // In production: send to error monitoring service (Sentry, DataDog)
-  }
-}
@@ -0,0 +1,98 @@
+/**
+ * Scan Artifacts API Route
+ *
+ * Serves the stored artifacts of a card scan (see `storeScan`): the original upload,
+ * the preprocessed image shown next to the lead on the dashboard, and the full OCR
+ * result for re-running extraction. Artifacts are read from the storage backend
+ * the scan was written to, so scans stored locally and in Supabase Storage can be
+ * mixed.
+ *
+ * @module api/scans
+ * @author Ahmed Kamal
+ * @since 1.0.0
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSupabaseClient } from "@/lib/supabase";
+import { readScanArtifact, type ScanArtifact } from "@/lib/scans";
+
+const ARTIFACTS: ScanArtifact[] = ["original", "image", "ocr"];
+
+/**
+ * GET /api/scans/{id}/{artifact}
+ *
+ * Streams a stored scan artifact with its content type.
+ *
+ * Artifacts:
+ * - `original`: the upload as received (JPEG, PNG, WebP, HEIC or PDF)
+ * - `image`: the preprocessed image OCR read (JPEG)
+ * - `ocr`: the OCR result JSON (`fullText`, `confidence`, `textSegments`, `wordCount`)
+ *
+ * Error Responses:
+ * - 400: Unknown artifact
+ * - 404: Scan not found, or the artifact was not stored
+ * - 500: Database or storage error
+ *
+ * @param request - Next.js request object
+ * @param context - Route context with the scan id and artifact
+ * @returns Promise<NextResponse> - The artifact, or a JSON error
+ *
+ * @example
+ * <img src={`/api/scans/${scan.id}/image`} alt="Business card" />
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; artifact: string }> },
+) {
+  try {
+    const { id, artifact } = await params;
+    if (!ARTIFACTS.includes(artifact as ScanArtifact)) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Unknown artifact, expected one of: ${ARTIFACTS.join(", ")}`,
+        },
+        { status: 400 },
+      );
+    }
+
+    const { data: scan, error } = await getSupabaseClient()
+      .from("lead_scans")
+      .select("storage_provider, original_path, image_path, ocr_result_path")
+      .eq("id", id)
+      .single();
+
+    if (error || !scan) {
+      return NextResponse.json(
+        { success: false, message: "Scan not found" },
+        { status: 404 },
+      );
+    }
+
+    const stored = await readScanArtifact(scan, artifact as ScanArtifact);
+    if (!stored) {
+      return NextResponse.json(
+        { success: false, message: "Artifact not stored for this scan" },
+        { status: 404 },
+      );
+    }
+
+    return new NextResponse(new Uint8Array(stored.data), {
+      headers: {
+        "Content-Type": stored.contentType,
+        // Artifacts never change once stored
+        "Cache-Control": "private, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Scan artifact error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: "Failed to read scan artifact",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 },
+    );
+  }
+}
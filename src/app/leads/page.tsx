@@ -14,12 +14,14 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 
 import {
+  AlertTriangle,
   ArrowLeft,
   ExternalLink,
   RefreshCw,
   Users,
   Building,
   Mail,
+  MapPin,
   Phone,
 } from "lucide-react";
 
@@ -28,10 +30,35 @@ interface Lead {
   name?: string;
   email?: string;
   phone?: string;
+  phone_display?: string;
+  phone_extension?: string;
+  phones?: {
+    type: string;
+    e164: string;
+    display: string;
+    extension?: string;
+    primary: boolean;
+  }[];
   company?: string;
   job_title?: string;
+  name_native?: string;
+  company_native?: string;
+  job_title_native?: string;
   website?: string;
+  address_street?: string;
+  address_city?: string;
+  address_region?: string;
+  address_postal_code?: string;
+  address_country?: string;
+  social_profiles?: { network: string; handle: string; url: string }[];
+  extraction_warnings?: {
+    code: string;
+    field?: string;
+    message: string;
+    value?: string;
+  }[];
   source: string;
+  lead_scans?: { id: string; side: "front" | "back" }[];
   created_at: string;
 }
 
@@ -39,15 +66,23 @@ export default function LeadsDashboard() {
   const [leads, setLeads] = useState<Lead[]>([]);
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState<string | null>(null);
+  // Leads of one batch upload (`/leads?batch={id}`), as linked from the upload page
+  const [batch, setBatch] = useState<string | null>(null);
 
   useEffect(() => {
-    fetchLeads();
+    const batchId = new URLSearchParams(window.location.search).get("batch");
+    setBatch(batchId);
+    fetchLeads(batchId);
   }, []);
 
-  const fetchLeads = async () => {
+  const fetchLeads = async (batchId: string | null) => {
     try {
       setLoading(true);
-      const response = await fetch("/api/leads");
+      const response = await fetch(
+        batchId
+          ? `/api/leads?batch=${encodeURIComponent(batchId)}`
+          : "/api/leads",
+      );
       const data = await response.json();
       setLeads(data.leads || []);
     } catch (error) {
@@ -57,6 +92,12 @@ export default function LeadsDashboard() {
     }
   };
 
+  const showAllLeads = () => {
+    window.history.replaceState(null, "", "/leads");
+    setBatch(null);
+    fetchLeads(null);
+  };
+
   const syncToCRM = async (leadId: string) => {
     try {
       setSyncing(leadId);
@@ -100,7 +141,11 @@ export default function LeadsDashboard() {
             </p>
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" onClick={fetchLeads} disabled={loading}>
+            <Button
+              variant="outline"
+              onClick={() => fetchLeads(batch)}
+              disabled={loading}
+            >
               <RefreshCw
                 className={`w-4 h-4 ${loading ? "animate-spin" : ""}`}
               />
@@ -175,9 +220,18 @@ export default function LeadsDashboard() {
         {/* Leads Table */}
         <Card>
           <CardHeader>
-            <CardTitle>Processed Leads</CardTitle>
+            <CardTitle className="flex items-center justify-between">
+              <span>{batch ? "Batch Leads" : "Processed Leads"}</span>
+              {batch && (
+                <Button variant="outline" size="sm" onClick={showAllLeads}>
+                  Show All Leads
+                </Button>
+              )}
+            </CardTitle>
             <CardDescription>
-              All business cards processed through the Fileadx pipeline
+              {batch
+                ? `Leads created by batch upload ${batch.slice(0, 8)}`
+                : "All business cards processed through the Fileadx pipeline"}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -198,6 +252,9 @@ export default function LeadsDashboard() {
                 <table className="w-full border-collapse">
                   <thead>
                     <tr className="border-b border-gray-200">
+                      <th className="text-left p-3 font-medium text-gray-900">
+                        Card
+                      </th>
                       <th className="text-left p-3 font-medium text-gray-900">
                         Contact
                       </th>
@@ -224,13 +281,42 @@ export default function LeadsDashboard() {
                         key={lead.id}
                         className="border-b border-gray-100 hover:bg-gray-50"
                       >
+                        <td className="p-3">
+                          <div className="flex gap-1">
+                            {/* Front before back */}
+                            {[...(lead.lead_scans || [])]
+                              .sort((a, b) => b.side.localeCompare(a.side))
+                              .map((scan) => (
+                                <a
+                                  key={scan.id}
+                                  href={`/api/scans/${scan.id}/image`}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                >
+                                  {/* eslint-disable-next-line @next/next/no-img-element -- served by the scans API */}
+                                  <img
+                                    src={`/api/scans/${scan.id}/image`}
+                                    alt={`Card ${scan.side}`}
+                                    loading="lazy"
+                                    className="h-12 w-20 rounded border border-gray-200 object-cover"
+                                  />
+                                </a>
+                              ))}
+                          </div>
+                        </td>
                         <td className="p-3">
                           <div>
-                            <p className="font-medium">
+                            <p className="font-medium" dir="auto">
                               {lead.name || "Unknown"}
                             </p>
+                            {lead.name_native &&
+                              lead.name_native !== lead.name && (
+                                <p className="text-sm" dir="auto">
+                                  {lead.name_native}
+                                </p>
+                              )}
                             {lead.job_title && (
-                              <p className="text-sm text-gray-600">
+                              <p className="text-sm text-gray-600" dir="auto">
                                 {lead.job_title}
                               </p>
                             )}
@@ -238,9 +324,15 @@ export default function LeadsDashboard() {
                         </td>
                         <td className="p-3">
                           <div>
-                            <p className="font-medium">
+                            <p className="font-medium" dir="auto">
                               {lead.company || "Unknown"}
                             </p>
+                            {lead.company_native &&
+                              lead.company_native !== lead.company && (
+                                <p className="text-sm" dir="auto">
+                                  {lead.company_native}
+                                </p>
+                              )}
                             {lead.website && (
                               <a
                                 href={
@@ -255,6 +347,27 @@ export default function LeadsDashboard() {
                                 {lead.website}
                               </a>
                             )}
+                            {(lead.address_street || lead.address_city) && (
+                              <div className="flex items-start space-x-1 mt-1 text-xs text-gray-600">
+                                <MapPin className="w-3 h-3 text-gray-400 mt-0.5 flex-shrink-0" />
+                                <span>
+                                  {lead.address_street && (
+                                    <span className="block">
+                                      {lead.address_street}
+                                    </span>
+                                  )}
+                                  {[
+                                    [lead.address_city, lead.address_region]
+                                      .filter(Boolean)
+                                      .join(", "),
+                                    lead.address_postal_code,
+                                    lead.address_country,
+                                  ]
+                                    .filter(Boolean)
+                                    .join(" ")}
+                                </span>
+                              </div>
+                            )}
                           </div>
                         </td>
                         <td className="p-3">
@@ -268,7 +381,45 @@ export default function LeadsDashboard() {
                             {lead.phone && (
                               <div className="flex items-center space-x-1">
                                 <Phone className="w-3 h-3 text-gray-400" />
-                                <span className="text-sm">{lead.phone}</span>
+                                <span className="text-sm">
+                                  {lead.phone_display || lead.phone}
+                                  {lead.phone_extension &&
+                                    ` ext. ${lead.phone_extension}`}
+                                </span>
+                                {(lead.phones?.length || 0) > 1 && (
+                                  <span
+                                    className="text-xs text-gray-400"
+                                    title={lead.phones
+                                      ?.filter((phone) => !phone.primary)
+                                      .map(
+                                        (phone) =>
+                                          `${phone.type}: ${phone.display}`,
+                                      )
+                                      .join("\n")}
+                                  >
+                                    +{lead.phones!.length - 1} more
+                                  </span>
+                                )}
+                              </div>
+                            )}
+                            {!!lead.social_profiles?.length && (
+                              <div className="flex flex-wrap gap-1">
+                                {lead.social_profiles.map((profile) => (
+                                  <a
+                                    key={`${profile.network}-${profile.handle}`}
+                                    href={profile.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    title={profile.handle}
+                                  >
+                                    <Badge
+                                      variant="outline"
+                                      className="text-xs capitalize hover:bg-gray-100"
+                                    >
+                                      {profile.network}
+                                    </Badge>
+                                  </a>
+                                ))}
                               </div>
                             )}
                           </div>
@@ -277,6 +428,19 @@ export default function LeadsDashboard() {
                           <Badge variant="secondary" className="text-xs">
                             {lead.source}
                           </Badge>
+                          {!!lead.extraction_warnings?.length && (
+                            <p
+                              className="flex items-center gap-1 text-xs text-amber-700 mt-1"
+                              title={lead.extraction_warnings
+                                .map((warning) => warning.message)
+                                .join("\n")}
+                            >
+                              <AlertTriangle className="w-3 h-3" />
+                              {lead.extraction_warnings.length === 1
+                                ? lead.extraction_warnings[0].message
+                                : `${lead.extraction_warnings.length} warnings`}
+                            </p>
+                          )}
                         </td>
                         <td className="p-3">
                           <span className="text-sm text-gray-600">
@@ -13,6 +13,20 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { LeadReview, type LeadDraft } from "@/components/lead-review";
+import { BatchUpload } from "@/components/batch-upload";
+import { CameraCapture } from "@/components/camera-capture";
+import {
+  CONVERTED_FORMATS,
+  IMAGE_CONFIG,
+  resolutionError,
+} from "@/lib/upload-limits";
+import {
+  readStageStream,
+  type PipelineStage,
+  type StageEvent,
+  type StageStatus,
+} from "@/lib/progress";
 
 import {
   Upload,
@@ -20,69 +34,216 @@ import {
   CheckCircle,
   XCircle,
   Clock,
+  CircleMinus,
   ExternalLink,
   Github,
   AlertTriangle,
   ArrowRight,
   Download,
+  Camera,
 } from "lucide-react";
-import axios, { isAxiosError } from "axios";
 import Link from "next/link";
 
 interface ProcessingStep {
   name: string;
-  status: "pending" | "processing" | "completed" | "error";
+  status: "pending" | "processing" | "completed" | "error" | "skipped";
   message?: string;
+  durationMs?: number;
 }
 
+const INITIAL_STEPS: ProcessingStep[] = [
+  { name: "OCR Processing", status: "pending" },
+  { name: "Data Cleaning", status: "pending" },
+  { name: "Database Storage", status: "pending" },
+  { name: "CRM Sync", status: "pending" },
+];
+
+// Pipeline stages reported by the API, in the order of the steps above
+const STAGE_STEPS: Record<PipelineStage, number> = {
+  ocr: 0,
+  normalization: 1,
+  storage: 2,
+  crm_sync: 3,
+};
+
+const STAGE_STATUSES: Record<StageStatus, ProcessingStep["status"]> = {
+  started: "processing",
+  completed: "completed",
+  failed: "error",
+  skipped: "skipped",
+};
+
+// Shown while a stage runs, unless the API sends its own message
+const STAGE_MESSAGES: Record<PipelineStage, string> = {
+  ocr: "Extracting text from business card...",
+  normalization: "Cleaning and normalizing data...",
+  storage: "Storing in database...",
+  crm_sync: "Syncing to CRM...",
+};
+
 interface LeadData {
   id: string;
   name?: string;
   email?: string;
   phone?: string;
+  phone_display?: string;
+  phone_extension?: string;
+  phones?: {
+    type: string;
+    e164: string;
+    display: string;
+    extension?: string;
+    primary: boolean;
+  }[];
   company?: string;
   job_title?: string;
+  name_native?: string;
+  company_native?: string;
+  job_title_native?: string;
   website?: string;
+  address_street?: string;
+  address_city?: string;
+  address_region?: string;
+  address_postal_code?: string;
+  address_country?: string;
+  social_profiles?: { network: string; handle: string; url: string }[];
+  extraction_warnings?: { code: string; field?: string; message: string }[];
   source: string;
+  field_provenance?: Record<string, FieldProvenance>;
   created_at: string;
 }
 
-// Image validation configuration
-const IMAGE_CONFIG = {
-  MIN_WIDTH: 800,
-  MIN_HEIGHT: 600,
-  MAX_SIZE_MB: 10,
-  SUPPORTED_FORMATS: ["image/jpeg", "image/jpg", "image/png", "image/webp"],
-};
+interface FieldProvenance {
+  confidence: number;
+  rule: string;
+  span: { text: string; start: number; end: number };
+}
+
+// Fields below this confidence are highlighted for review (matches the API threshold)
+const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+// Default regions for phone numbers printed without a country code
+// (empty = server default from DEFAULT_PHONE_REGION)
+const PHONE_REGIONS = [
+  { code: "", label: "Server default" },
+  { code: "US", label: "United States" },
+  { code: "CA", label: "Canada" },
+  { code: "GB", label: "United Kingdom" },
+  { code: "DE", label: "Germany" },
+  { code: "FR", label: "France" },
+  { code: "AE", label: "United Arab Emirates" },
+  { code: "SA", label: "Saudi Arabia" },
+  { code: "EG", label: "Egypt" },
+  { code: "IN", label: "India" },
+  { code: "AU", label: "Australia" },
+];
+
+// One card of a multi-card photo or multi-page PDF, as returned by the API
+interface CardLead {
+  lead: LeadData;
+  box?: { left: number; top: number; right: number; bottom: number };
+  page?: number;
+  lowConfidenceFields: string[];
+}
+
+// Common fields of the process-card and confirm responses
+interface PipelineResponse {
+  success: boolean;
+  message: string;
+  error?: string;
+  duplicate?: boolean;
+  lead?: LeadData;
+  leads?: CardLead[];
+}
+
+// OCR language hints for bilingual cards (empty = server default from OCR_LANGUAGE_HINTS)
+const CARD_LANGUAGES = [
+  { code: "", label: "Auto-detect" },
+  { code: "en,ar", label: "English + Arabic" },
+  { code: "en,zh", label: "English + Chinese" },
+  { code: "en,ja", label: "English + Japanese" },
+  { code: "en,ru", label: "English + Russian" },
+];
 
 export default function FileadxDemo() {
   const [file, setFile] = useState<File | null>(null);
+  const [backFile, setBackFile] = useState<File | null>(null);
+  const [multipleCards, setMultipleCards] = useState(false);
+  const [region, setRegion] = useState("");
+  const [languages, setLanguages] = useState("");
   const [processing, setProcessing] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
-  const [steps, setSteps] = useState<ProcessingStep[]>([
-    { name: "OCR Processing", status: "pending" },
-    { name: "Data Cleaning", status: "pending" },
-    { name: "Database Storage", status: "pending" },
-    { name: "CRM Sync", status: "pending" },
-  ]);
+  const [steps, setSteps] = useState<ProcessingStep[]>(INITIAL_STEPS);
   const [result, setResult] = useState<LeadData | null>(null);
+  const [cardLeads, setCardLeads] = useState<CardLead[] | null>(null);
+  const [draft, setDraft] = useState<LeadDraft | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [backImageUrl, setBackImageUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [cameraOpen, setCameraOpen] = useState(false);
 
   const updateStep = useCallback(
-    (stepIndex: number, status: ProcessingStep["status"], message?: string) => {
+    (
+      stepIndex: number,
+      status: ProcessingStep["status"],
+      message?: string,
+      durationMs?: number,
+    ) => {
       setSteps((prev) =>
         prev.map((step, i) =>
-          i === stepIndex ? { ...step, status, message } : step,
+          i === stepIndex ? { ...step, status, message, durationMs } : step,
         ),
       );
     },
     [],
   );
 
+  // Real pipeline progress, as streamed by the API
+  const applyStage = useCallback(
+    ({ stage, status, message, durationMs }: StageEvent) => {
+      updateStep(
+        STAGE_STEPS[stage],
+        STAGE_STATUSES[status],
+        message ?? (status === "started" ? STAGE_MESSAGES[stage] : undefined),
+        durationMs,
+      );
+    },
+    [updateStep],
+  );
+
+  // Sends a pipeline request and follows its stages while it runs
+  const postWithProgress = async <T = object,>(
+    url: string,
+    body: FormData | Record<string, string>,
+  ): Promise<PipelineResponse & T> => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Accept: "text/event-stream",
+        ...(!(body instanceof FormData) && {
+          "Content-Type": "application/json",
+        }),
+      },
+      body: body instanceof FormData ? body : JSON.stringify(body),
+    });
+    const { status, body: data } = await readStageStream<PipelineResponse & T>(
+      response,
+      applyStage,
+    );
+    if (status >= 400) {
+      throw new Error(data.error || data.message || "Processing failed");
+    }
+    return data;
+  };
+
   const validateImage = (file: File): Promise<string | null> => {
     return new Promise((resolve) => {
-      // Check file type
-      if (!IMAGE_CONFIG.SUPPORTED_FORMATS.includes(file.type)) {
+      // Check file type; some browsers report no type for HEIC photos
+      const type =
+        file.type || (/\.hei[cf]$/i.test(file.name) ? "image/heic" : "");
+      if (!IMAGE_CONFIG.SUPPORTED_FORMATS.includes(type)) {
         resolve(
           `Unsupported format. Please use: ${IMAGE_CONFIG.SUPPORTED_FORMATS.join(
             ", ",
@@ -100,6 +261,12 @@ export default function FileadxDemo() {
         return;
       }
 
+      // HEIC photos and PDFs are converted and checked by the server
+      if (CONVERTED_FORMATS.includes(type)) {
+        resolve(null);
+        return;
+      }
+
       // Check image dimensions
       const img = new Image();
       const url = URL.createObjectURL(file);
@@ -107,16 +274,8 @@ export default function FileadxDemo() {
       img.onload = () => {
         URL.revokeObjectURL(url);
 
-        if (
-          img.width < IMAGE_CONFIG.MIN_WIDTH ||
-          img.height < IMAGE_CONFIG.MIN_HEIGHT
-        ) {
-          resolve(
-            `Image resolution too low. Minimum: ${IMAGE_CONFIG.MIN_WIDTH}×${IMAGE_CONFIG.MIN_HEIGHT}px. Current: ${img.width}×${img.height}px`,
-          );
-        } else {
-          resolve(null); // Valid image
-        }
+        // Either orientation, like the server; null for a valid image
+        resolve(resolutionError(img.width, img.height));
       };
 
       img.onerror = () => {
@@ -128,12 +287,8 @@ export default function FileadxDemo() {
     });
   };
 
-  const handleFileSelect = async (
-    event: React.ChangeEvent<HTMLInputElement>,
-  ) => {
-    const selectedFile = event.target.files?.[0];
-    if (!selectedFile) return;
-
+  // Shared by the file input, drag-and-drop and the camera
+  const selectFile = async (selectedFile: File): Promise<boolean> => {
     setValidationError(null);
 
     // Validate the image
@@ -142,17 +297,82 @@ export default function FileadxDemo() {
     if (validationResult) {
       setValidationError(validationResult);
       setFile(null);
-      event.target.value = ""; // Reset input
-      return;
+      return false;
     }
 
     // Image is valid
     setFile(selectedFile);
     setResult(null);
+    setCardLeads(null);
+    discardDraft();
     setError(null);
-    setSteps((prev) =>
-      prev.map((step) => ({ ...step, status: "pending" as const })),
-    );
+    setNotice(null);
+    setSteps(INITIAL_STEPS);
+    return true;
+  };
+
+  const handleFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const selectedFile = event.target.files?.[0];
+    if (!selectedFile) return;
+
+    if (!(await selectFile(selectedFile))) {
+      event.target.value = ""; // Reset input
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    if (!processing) setDragging(true);
+  };
+
+  // Leaving for a child element of the drop zone doesn't count
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setDragging(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    if (processing) return;
+
+    const dropped = Array.from(event.dataTransfer.files);
+    if (dropped.length === 0) return;
+    if (dropped.length > 1) {
+      setValidationError(
+        "Drop one card at a time here, or use Batch Upload below for many cards.",
+      );
+      return;
+    }
+    void selectFile(dropped[0]);
+  };
+
+  const handleCapture = async (photo: File) => {
+    if (await selectFile(photo)) setCameraOpen(false);
+  };
+
+  // Optional back side of a two-sided card, validated like the front
+  const handleBackFileSelect = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const selectedFile = event.target.files?.[0];
+    if (!selectedFile) return;
+
+    setValidationError(null);
+
+    const validationResult = await validateImage(selectedFile);
+    if (validationResult) {
+      setValidationError(`Back side: ${validationResult}`);
+      setBackFile(null);
+      event.target.value = "";
+      return;
+    }
+
+    setBackFile(selectedFile);
+    discardDraft();
   };
 
   const processCard = async () => {
@@ -160,50 +380,130 @@ export default function FileadxDemo() {
 
     setProcessing(true);
     setError(null);
+    setNotice(null);
+    setSteps(INITIAL_STEPS);
+
+    // PDFs may hold several cards (one per page) and are stored without review
+    if (multipleCards || file.type === "application/pdf") {
+      await processWithoutReview();
+      return;
+    }
 
     try {
       const formData = new FormData();
       formData.append("image", file);
+      if (backFile) formData.append("back", backFile);
+      // Draft mode: nothing is stored until the extracted fields are reviewed
+      formData.append("mode", "draft");
+      if (region) formData.append("region", region);
+      if (languages) formData.append("languages", languages);
 
-      // Simulate processing steps with realistic timing
-      updateStep(0, "processing", "Extracting text from business card...");
+      const data = await postWithProgress<LeadDraft>(
+        "/api/process-card",
+        formData,
+      );
+      if (data.duplicate) {
+        showAlreadyProcessed(data);
+        return;
+      }
+
+      // Source regions refer to the preprocessed images returned with the draft
+      setImageUrl(data.images?.front || URL.createObjectURL(file));
+      setBackImageUrl(
+        data.images?.back || (backFile ? URL.createObjectURL(backFile) : null),
+      );
+      setDraft(data);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Multi-card photos and PDFs: every card is stored directly, without review
+  const processWithoutReview = async () => {
+    if (!file) return;
+
+    try {
+      const formData = new FormData();
+      formData.append("image", file);
+      if (multipleCards) {
+        formData.append("cards", "multiple");
+      } else if (backFile) {
+        formData.append("back", backFile);
+      }
+      if (region) formData.append("region", region);
+      if (languages) formData.append("languages", languages);
 
-      const { data } = await axios.postForm("/api/process-card", formData);
+      const data = await postWithProgress("/api/process-card", formData);
+      if (data.duplicate) {
+        showAlreadyProcessed(data);
+        return;
+      }
 
-      updateStep(0, "completed", "Text extraction completed");
-      updateStep(1, "processing", "Cleaning and normalizing data...");
+      setResult(data.leads ? null : data.lead || null);
+      setCardLeads(data.leads || null);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setProcessing(false);
+    }
+  };
 
-      updateStep(1, "completed", "Data normalized successfully");
-      updateStep(2, "processing", "Storing lead in database...");
+  // Re-uploads of stored cards: the server returns the existing leads instead
+  const showAlreadyProcessed = (data: {
+    message: string;
+    lead?: LeadData;
+    leads?: CardLead[];
+  }) => {
+    setNotice(data.message);
+    setResult(data.leads ? null : data.lead || null);
+    setCardLeads(data.leads || null);
+  };
 
-      // Simulate database storage
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      updateStep(2, "completed", "Lead stored successfully");
+  const confirmDraft = async (values: Record<string, string>) => {
+    if (!draft) return;
 
-      updateStep(3, "processing", "Syncing to CRM...");
+    setProcessing(true);
+    setError(null);
 
-      // Simulate CRM sync
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-      updateStep(3, "completed", "CRM sync successful");
+    try {
+      const data = await postWithProgress(
+        `/api/process-card/drafts/${draft.draft.id}/confirm`,
+        values,
+      );
 
-      setResult(data.lead);
+      discardDraft();
+      setCardLeads(null);
+      setResult(data.lead || null);
     } catch (err) {
-      const currentStep = steps.findIndex(
-        (step) => step.status === "processing",
-      );
-      if (currentStep !== -1) {
-        updateStep(currentStep, "error", "Processing failed");
-      }
-      if (isAxiosError(err) && !!err.response?.data?.error) {
-        setError(err.response.data.error);
-      } else {
-        setError(err instanceof Error ? err.message : "An error occurred");
-      }
+      handleError(err);
     } finally {
       setProcessing(false);
     }
   };
 
+  const discardDraft = () => {
+    if (imageUrl) URL.revokeObjectURL(imageUrl);
+    if (backImageUrl) URL.revokeObjectURL(backImageUrl);
+    setImageUrl(null);
+    setBackImageUrl(null);
+    setDraft(null);
+  };
+
+  const handleError = (err: unknown) => {
+    // Failed stages are reported by the API; this covers requests that never
+    // reached the pipeline (e.g. network errors)
+    setSteps((prev) =>
+      prev.map((step) =>
+        step.status === "processing"
+          ? { ...step, status: "error", message: "Processing failed" }
+          : step,
+      ),
+    );
+    setError(err instanceof Error ? err.message : "An error occurred");
+  };
+
   const getStepIcon = (status: ProcessingStep["status"]) => {
     switch (status) {
       case "completed":
@@ -212,6 +512,8 @@ export default function FileadxDemo() {
         return <Clock className="w-4 h-4 text-blue-500 animate-spin" />;
       case "error":
         return <XCircle className="w-4 h-4 text-red-500" />;
+      case "skipped":
+        return <CircleMinus className="w-4 h-4 text-gray-400" />;
       default:
         return (
           <div className="w-4 h-4 rounded-full border-2 border-gray-300" />
@@ -219,8 +521,26 @@ export default function FileadxDemo() {
     }
   };
 
+  const getConfidenceBadge = (field: string) => {
+    const provenance = result?.field_provenance?.[field];
+    if (!provenance) return null;
+
+    const isLow = provenance.confidence < LOW_CONFIDENCE_THRESHOLD;
+    return (
+      <Badge
+        variant="secondary"
+        title={`${provenance.rule} — "${provenance.span.text}"`}
+        className={`ml-2 text-xs ${isLow ? "bg-amber-100 text-amber-800" : "bg-green-100 text-green-700"}`}
+      >
+        {Math.round(provenance.confidence * 100)}%
+      </Badge>
+    );
+  };
+
   const progress =
-    (steps.filter((step) => step.status === "completed").length /
+    (steps.filter(
+      (step) => step.status === "completed" || step.status === "skipped",
+    ).length /
       steps.length) *
     100;
 
@@ -288,32 +608,58 @@ export default function FileadxDemo() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-gray-400 transition-colors">
-                <input
-                  type="file"
-                  id="file-upload"
-                  className="hidden"
-                  accept={IMAGE_CONFIG.SUPPORTED_FORMATS.join(",")}
-                  onChange={handleFileSelect}
-                  disabled={processing}
+              {cameraOpen ? (
+                <CameraCapture
+                  onCapture={handleCapture}
+                  onClose={() => setCameraOpen(false)}
                 />
-                <label
-                  htmlFor="file-upload"
-                  className="cursor-pointer flex flex-col items-center space-y-2"
+              ) : (
+                <div
+                  className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${dragging ? "border-blue-400 bg-blue-50" : "border-gray-300 hover:border-gray-400"}`}
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  onDrop={handleDrop}
                 >
-                  <FileImage className="w-12 h-12 text-gray-400" />
-                  <span className="text-sm font-medium">
-                    Click to upload or drag and drop
-                  </span>
-                  <span className="text-xs text-gray-500">
-                    PNG, JPG, JPEG, WebP up to {IMAGE_CONFIG.MAX_SIZE_MB}MB
-                  </span>
-                  <span className="text-xs text-gray-400">
-                    Min: {IMAGE_CONFIG.MIN_WIDTH}×{IMAGE_CONFIG.MIN_HEIGHT}px
-                    for optimal OCR accuracy
-                  </span>
-                </label>
-              </div>
+                  <input
+                    type="file"
+                    id="file-upload"
+                    className="hidden"
+                    accept={IMAGE_CONFIG.SUPPORTED_FORMATS.join(",")}
+                    onChange={handleFileSelect}
+                    disabled={processing}
+                  />
+                  <label
+                    htmlFor="file-upload"
+                    className="cursor-pointer flex flex-col items-center space-y-2"
+                  >
+                    <FileImage className="w-12 h-12 text-gray-400" />
+                    <span className="text-sm font-medium">
+                      Click to upload or drag and drop
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      PNG, JPG, WebP, HEIC or PDF up to{" "}
+                      {IMAGE_CONFIG.MAX_SIZE_MB}
+                      MB
+                    </span>
+                    <span className="text-xs text-gray-400">
+                      Min: {IMAGE_CONFIG.MIN_WIDTH}×{IMAGE_CONFIG.MIN_HEIGHT}px
+                      for optimal OCR accuracy
+                    </span>
+                  </label>
+                </div>
+              )}
+
+              {!cameraOpen && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setCameraOpen(true)}
+                  disabled={processing}
+                >
+                  <Camera />
+                  Use Camera
+                </Button>
+              )}
 
               {validationError && (
                 <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
@@ -346,9 +692,100 @@ export default function FileadxDemo() {
                 </div>
               )}
 
+              <div className="flex items-center justify-between gap-2">
+                <label htmlFor="back-upload" className="text-sm font-medium">
+                  Back side (optional)
+                </label>
+                <div className="flex items-center gap-2 min-w-0">
+                  {backFile && (
+                    <>
+                      <span className="text-xs text-gray-600 truncate">
+                        {backFile.name}
+                      </span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setBackFile(null);
+                          discardDraft();
+                        }}
+                        disabled={processing}
+                      >
+                        Remove
+                      </Button>
+                    </>
+                  )}
+                  <input
+                    type="file"
+                    id="back-upload"
+                    accept={IMAGE_CONFIG.SUPPORTED_FORMATS.join(",")}
+                    onChange={handleBackFileSelect}
+                    disabled={processing || multipleCards}
+                    className={
+                      backFile ? "hidden" : "text-xs file:mr-2 file:text-xs"
+                    }
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <label htmlFor="multiple-cards" className="text-sm font-medium">
+                  Several cards in one photo
+                </label>
+                <input
+                  type="checkbox"
+                  id="multiple-cards"
+                  checked={multipleCards}
+                  onChange={(event) => {
+                    setMultipleCards(event.target.checked);
+                    discardDraft();
+                  }}
+                  disabled={processing || !!backFile}
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <label htmlFor="phone-region" className="text-sm font-medium">
+                  Phone region
+                </label>
+                <select
+                  id="phone-region"
+                  value={region}
+                  onChange={(event) => setRegion(event.target.value)}
+                  disabled={processing}
+                  className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs"
+                >
+                  {PHONE_REGIONS.map(({ code, label }) => (
+                    <option key={code} value={code}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <label htmlFor="card-languages" className="text-sm font-medium">
+                  Card languages
+                </label>
+                <select
+                  id="card-languages"
+                  value={languages}
+                  onChange={(event) => setLanguages(event.target.value)}
+                  disabled={processing}
+                  className="h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs"
+                >
+                  {CARD_LANGUAGES.map(({ code, label }) => (
+                    <option key={code} value={code}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <Button
                 onClick={processCard}
-                disabled={!file || processing || !!validationError}
+                disabled={!file || processing || !!validationError || !!draft}
                 className="w-full"
                 size="lg"
               >
@@ -383,9 +820,18 @@ export default function FileadxDemo() {
                         {step.name}
                       </p>
                       {step.message && (
-                        <p className="text-xs text-gray-500">{step.message}</p>
+                        <p
+                          className={`text-xs ${step.status === "error" ? "text-red-600" : "text-gray-500"}`}
+                        >
+                          {step.message}
+                        </p>
                       )}
                     </div>
+                    {step.durationMs !== undefined && (
+                      <span className="text-xs text-gray-400 tabular-nums">
+                        {(step.durationMs / 1000).toFixed(1)}s
+                      </span>
+                    )}
                   </div>
                 ))}
               </div>
@@ -395,10 +841,38 @@ export default function FileadxDemo() {
                   <p className="text-sm text-red-700">{error}</p>
                 </div>
               )}
+
+              {notice && (
+                <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                  <p className="text-sm text-blue-700">
+                    {notice}. Showing the stored result instead of creating
+                    duplicates.
+                  </p>
+                </div>
+              )}
             </CardContent>
           </Card>
         </div>
 
+        {/* Batch Upload Section */}
+        <BatchUpload region={region} languages={languages} />
+
+        {/* Review Section */}
+        {draft && imageUrl && (
+          <LeadReview
+            key={draft.draft.id}
+            draft={draft}
+            imageUrl={imageUrl}
+            backImageUrl={backImageUrl}
+            submitting={processing}
+            onConfirm={confirmDraft}
+            onDiscard={() => {
+              discardDraft();
+              setSteps(INITIAL_STEPS);
+            }}
+          />
+        )}
+
         {/* Results Section */}
         {result && (
           <Card>
@@ -417,28 +891,89 @@ export default function FileadxDemo() {
                   <h4 className="font-semibold mb-2">Contact Information</h4>
                   <div className="space-y-2 text-sm">
                     <div>
-                      <strong>Name:</strong> {result.name || "Not found"}
+                      <strong>Name:</strong>{" "}
+                      <span dir="auto">{result.name || "Not found"}</span>
+                      {getConfidenceBadge("name")}
                     </div>
+                    {result.name_native &&
+                      result.name_native !== result.name && (
+                        <div dir="auto">{result.name_native}</div>
+                      )}
                     <div>
                       <strong>Email:</strong> {result.email || "Not found"}
+                      {getConfidenceBadge("email")}
                     </div>
                     <div>
-                      <strong>Phone:</strong> {result.phone || "Not found"}
+                      <strong>Phone:</strong>{" "}
+                      {result.phone_display || result.phone || "Not found"}
+                      {result.phone_extension &&
+                        ` ext. ${result.phone_extension}`}
+                      {getConfidenceBadge("phone")}
                     </div>
+                    {result.phones
+                      ?.filter((phone) => !phone.primary)
+                      .map((phone) => (
+                        <div key={phone.e164}>
+                          <strong className="capitalize">{phone.type}:</strong>{" "}
+                          {phone.display}
+                          {phone.extension && ` ext. ${phone.extension}`}
+                        </div>
+                      ))}
                     <div>
-                      <strong>Title:</strong> {result.job_title || "Not found"}
+                      <strong>Title:</strong>{" "}
+                      <span dir="auto">{result.job_title || "Not found"}</span>
+                      {getConfidenceBadge("job_title")}
                     </div>
+                    {result.job_title_native &&
+                      result.job_title_native !== result.job_title && (
+                        <div dir="auto">{result.job_title_native}</div>
+                      )}
                   </div>
                 </div>
                 <div>
                   <h4 className="font-semibold mb-2">Company Information</h4>
                   <div className="space-y-2 text-sm">
                     <div>
-                      <strong>Company:</strong> {result.company || "Not found"}
+                      <strong>Company:</strong>{" "}
+                      <span dir="auto">{result.company || "Not found"}</span>
+                      {getConfidenceBadge("company")}
                     </div>
+                    {result.company_native &&
+                      result.company_native !== result.company && (
+                        <div dir="auto">{result.company_native}</div>
+                      )}
                     <div>
                       <strong>Website:</strong> {result.website || "Not found"}
+                      {getConfidenceBadge("website")}
                     </div>
+                    <div>
+                      <strong>Address:</strong>{" "}
+                      {[
+                        result.address_street,
+                        result.address_city,
+                        result.address_region,
+                        result.address_postal_code,
+                        result.address_country,
+                      ]
+                        .filter(Boolean)
+                        .join(", ") || "Not found"}
+                      {getConfidenceBadge("address_city")}
+                    </div>
+                    {result.social_profiles?.map((profile) => (
+                      <div key={`${profile.network}-${profile.handle}`}>
+                        <strong className="capitalize">
+                          {profile.network}:
+                        </strong>{" "}
+                        <a
+                          href={profile.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:underline"
+                        >
+                          {profile.handle}
+                        </a>
+                      </div>
+                    ))}
                     <div>
                       <strong>Source:</strong> {result.source}
                     </div>
@@ -450,6 +985,20 @@ export default function FileadxDemo() {
                 </div>
               </div>
 
+              {!!result.extraction_warnings?.length && (
+                <div className="mt-4 space-y-1">
+                  {result.extraction_warnings.map((warning) => (
+                    <p
+                      key={`${warning.code}-${warning.field}-${warning.message}`}
+                      className="flex items-center gap-1 text-sm text-amber-700"
+                    >
+                      <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                      {warning.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+
               <Separator className="my-4" />
 
               <div className="flex justify-between items-center">
@@ -463,14 +1012,60 @@ export default function FileadxDemo() {
           </Card>
         )}
 
+        {/* Multi-Card Results */}
+        {cardLeads && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CheckCircle className="w-5 h-5 text-green-500" />
+                {cardLeads.length} Leads Created
+              </CardTitle>
+              <CardDescription>
+                One lead per card found in the upload
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {cardLeads.map(
+                ({ lead, box, page, lowConfidenceFields }, index) => (
+                  <div
+                    key={lead.id}
+                    className="flex items-start justify-between gap-4 p-3 border rounded-lg text-sm"
+                  >
+                    <div className="space-y-1 min-w-0">
+                      <p className="font-medium" dir="auto">
+                        {index + 1}. {lead.name || "Name not found"}
+                      </p>
+                      <p className="text-gray-600 truncate" dir="auto">
+                        {[lead.job_title, lead.company, lead.email]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {box
+                          ? `Crop: ${box.right - box.left}×${box.bottom - box.top}px at (${box.left}, ${box.top})`
+                          : `Page ${page}`}
+                      </p>
+                    </div>
+                    {lowConfidenceFields.length > 0 && (
+                      <Badge variant="secondary" className="shrink-0">
+                        Check {lowConfidenceFields.join(", ")}
+                      </Badge>
+                    )}
+                  </div>
+                ),
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Tech Stack Info */}
         <Card>
           <CardContent className="pt-6">
             <div className="text-center space-y-2">
               <h3 className="font-semibold">Technical Implementation</h3>
               <p className="text-sm text-gray-600">
-                Next.js • TypeScript • Google Vision API • Supabase • Tailwind
-                CSS • shadcn/ui
+                Next.js • TypeScript • Google Vision API / Tesseract.js •
+                Supabase • Tailwind CSS • shadcn/ui
               </p>
               <p className="text-xs text-gray-500">
                 Complete source code and documentation available on GitHub
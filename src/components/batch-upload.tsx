@@ -0,0 +1,337 @@
+"use client";
+
+import React, { useState } from "react";
+import Link from "next/link";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  summarizeBatch,
+  type BatchFileResult,
+  type BatchFileStatus,
+} from "@/lib/batch";
+import { BATCH_CONFIG, IMAGE_CONFIG } from "@/lib/upload-limits";
+
+import {
+  ArrowRight,
+  CheckCircle,
+  Clock,
+  Copy,
+  FolderOpen,
+  Layers,
+  RotateCcw,
+  XCircle,
+} from "lucide-react";
+
+interface BatchItem {
+  file: File;
+  status: "queued" | "processing" | BatchFileStatus;
+  result?: BatchFileResult;
+}
+
+interface BatchUploadProps {
+  /** Default phone region, as selected for single uploads */
+  region: string;
+  /** OCR language hints, as selected for single uploads */
+  languages: string;
+}
+
+const STATUS_BADGES: Record<BatchItem["status"], string> = {
+  queued: "bg-gray-100 text-gray-600",
+  processing: "bg-blue-100 text-blue-700",
+  created: "bg-green-100 text-green-700",
+  duplicate: "bg-sky-100 text-sky-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+// Folders hold other files too; only card formats are queued
+function isCardFile(file: File): boolean {
+  const type = file.type || (/\.hei[cf]$/i.test(file.name) ? "image/heic" : "");
+  return IMAGE_CONFIG.SUPPORTED_FORMATS.includes(type);
+}
+
+export function BatchUpload({ region, languages }: BatchUploadProps) {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [batchId, setBatchId] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [skipped, setSkipped] = useState(0);
+
+  const handleSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = "";
+    if (selected.length === 0) return;
+
+    const cards = selected.filter(isCardFile);
+    setSkipped(selected.length - cards.length);
+    setItems(cards.map((file) => ({ file, status: "queued" })));
+    setBatchId(null);
+  };
+
+  const updateItems = (
+    indices: number[],
+    update: (item: BatchItem, position: number) => BatchItem,
+  ) => {
+    setItems((prev) =>
+      prev.map((item, index) => {
+        const position = indices.indexOf(index);
+        return position === -1 ? item : update(item, position);
+      }),
+    );
+  };
+
+  // Sends the files in chunks the batch endpoint accepts; the server processes each
+  // chunk with bounded concurrency
+  const processFiles = async (indices: number[]) => {
+    setRunning(true);
+    let batch = batchId;
+
+    for (
+      let start = 0;
+      start < indices.length;
+      start += BATCH_CONFIG.MAX_FILES
+    ) {
+      const chunk = indices.slice(start, start + BATCH_CONFIG.MAX_FILES);
+      updateItems(chunk, (item) => ({
+        ...item,
+        status: "processing",
+        result: undefined,
+      }));
+
+      const formData = new FormData();
+      for (const index of chunk) formData.append("images", items[index].file);
+      if (batch) formData.append("batch", batch);
+      if (region) formData.append("region", region);
+      if (languages) formData.append("languages", languages);
+
+      try {
+        const response = await fetch("/api/process-card/batch", {
+          method: "POST",
+          body: formData,
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || data.message || "Batch request failed");
+        }
+
+        batch = data.batch.id;
+        setBatchId(batch);
+        updateItems(chunk, (item, position) => {
+          const result: BatchFileResult = data.results[position];
+          return { ...item, status: result.status, result };
+        });
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Batch request failed";
+        updateItems(chunk, (item) => ({
+          ...item,
+          status: "failed",
+          result: {
+            file: item.file.name,
+            status: "failed",
+            leads: [],
+            message,
+          },
+        }));
+      }
+    }
+
+    setRunning(false);
+  };
+
+  const failedIndices = items
+    .map((item, index) => (item.status === "failed" ? index : -1))
+    .filter((index) => index !== -1);
+  const finished = items.flatMap((item) => (item.result ? [item.result] : []));
+  const summary = summarizeBatch(finished);
+
+  const getStatusIcon = (status: BatchItem["status"]) => {
+    switch (status) {
+      case "created":
+        return <CheckCircle className="w-4 h-4 text-green-500" />;
+      case "duplicate":
+        return <Copy className="w-4 h-4 text-sky-500" />;
+      case "failed":
+        return <XCircle className="w-4 h-4 text-red-500" />;
+      case "processing":
+        return <Clock className="w-4 h-4 text-blue-500 animate-spin" />;
+      default:
+        return (
+          <div className="w-4 h-4 rounded-full border-2 border-gray-300" />
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Batch Upload
+        </CardTitle>
+        <CardDescription>
+          Process a whole stack of cards at once: select many files or a folder
+          of card photos. Every card is stored directly as a lead, without
+          review.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="file"
+            id="batch-files"
+            className="hidden"
+            multiple
+            accept={IMAGE_CONFIG.SUPPORTED_FORMATS.join(",")}
+            onChange={handleSelect}
+            disabled={running}
+          />
+          <input
+            type="file"
+            id="batch-folder"
+            className="hidden"
+            // Not in React's input attributes; supported by all major browsers
+            ref={(input) => input?.setAttribute("webkitdirectory", "")}
+            onChange={handleSelect}
+            disabled={running}
+          />
+          <Button variant="outline" asChild disabled={running}>
+            <label htmlFor="batch-files" className="cursor-pointer">
+              <Layers />
+              Select Files
+            </label>
+          </Button>
+          <Button variant="outline" asChild disabled={running}>
+            <label htmlFor="batch-folder" className="cursor-pointer">
+              <FolderOpen />
+              Select Folder
+            </label>
+          </Button>
+          <Button
+            onClick={() => processFiles(items.map((_, index) => index))}
+            disabled={running || items.length === 0 || finished.length > 0}
+            className="ml-auto"
+          >
+            {running
+              ? "Processing..."
+              : `Process ${items.length} Card${items.length === 1 ? "" : "s"}`}
+          </Button>
+        </div>
+
+        {skipped > 0 && (
+          <p className="text-xs text-gray-500">
+            Skipped {skipped} file{skipped === 1 ? "" : "s"} that{" "}
+            {skipped === 1 ? "is not a card image" : "are not card images"}.
+          </p>
+        )}
+
+        {items.length > 0 && (
+          <>
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>
+                  {finished.length} of {items.length} processed
+                </span>
+                <span className="text-gray-600">
+                  {summary.created} created · {summary.duplicates} duplicates ·{" "}
+                  {summary.failed} failed
+                </span>
+              </div>
+              <Progress
+                value={(finished.length / items.length) * 100}
+                className="h-2"
+              />
+            </div>
+
+            <div className="max-h-80 overflow-y-auto divide-y divide-gray-100 border rounded-lg">
+              {items.map((item, index) => (
+                <div
+                  key={`${item.file.name}-${index}`}
+                  className="flex items-center gap-3 p-2"
+                >
+                  {getStatusIcon(item.status)}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">
+                      {item.file.name}
+                    </p>
+                    {item.result?.status === "failed" ? (
+                      <p className="text-xs text-red-600">
+                        {item.result.message}
+                      </p>
+                    ) : (
+                      item.result && (
+                        <p className="text-xs text-gray-500 truncate">
+                          {item.result.leads
+                            .map(
+                              (lead) =>
+                                [lead.name, lead.company]
+                                  .filter(Boolean)
+                                  .join(", ") || "Unnamed lead",
+                            )
+                            .join("; ")}
+                        </p>
+                      )
+                    )}
+                  </div>
+                  <Badge
+                    variant="secondary"
+                    className={`text-xs ${STATUS_BADGES[item.status]}`}
+                  >
+                    {item.status}
+                  </Badge>
+                  {item.status === "failed" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => processFiles([index])}
+                      disabled={running}
+                    >
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {!running && finished.length === items.length && (
+              <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-gray-50 border rounded-lg">
+                <p className="text-sm">
+                  Batch finished: <strong>{summary.created}</strong> created,{" "}
+                  <strong>{summary.duplicates}</strong> already processed,{" "}
+                  <strong>{summary.failed}</strong> failed.
+                </p>
+                <div className="flex gap-2">
+                  {failedIndices.length > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => processFiles(failedIndices)}
+                    >
+                      <RotateCcw />
+                      Retry Failed
+                    </Button>
+                  )}
+                  {batchId && summary.created > 0 && (
+                    <Button size="sm" asChild>
+                      <Link href={`/leads?batch=${batchId}`}>
+                        View Leads
+                        <ArrowRight />
+                      </Link>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  assessCapture,
+  CAPTURE_HINTS,
+  cardFrameRegion,
+  toGrayscale,
+  type CaptureQuality,
+} from "@/lib/capture";
+import { CAPTURE_CONFIG } from "@/lib/upload-limits";
+
+import { Camera, CheckCircle, AlertTriangle, X } from "lucide-react";
+
+interface CameraCaptureProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+}
+
+// How often the live frame is checked, in milliseconds
+const CHECK_INTERVAL_MS = 400;
+
+export function CameraCapture({ onCapture, onClose }: CameraCaptureProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [frame, setFrame] = useState<{ width: number; height: number } | null>(
+    null,
+  );
+  const [quality, setQuality] = useState<CaptureQuality | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  // Back camera at the highest resolution it offers, stopped when closed
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let stopped = false;
+
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setCameraError(
+        "Camera access is not available in this browser (it requires HTTPS).",
+      );
+      return;
+    }
+
+    navigator.mediaDevices
+      .getUserMedia({
+        video: {
+          facingMode: { ideal: "environment" },
+          width: { ideal: 1920 },
+          height: { ideal: 1080 },
+        },
+        audio: false,
+      })
+      .then((media) => {
+        if (stopped) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = media;
+        video.onloadedmetadata = () => {
+          setFrame({ width: video.videoWidth, height: video.videoHeight });
+          video.play().catch(console.error);
+        };
+      })
+      .catch((err) => {
+        console.error("Camera access failed:", err);
+        setCameraError(
+          err instanceof DOMException && err.name === "NotAllowedError"
+            ? "Camera access was denied. Allow it in the browser settings to take photos."
+            : "No camera could be opened on this device.",
+        );
+      });
+
+    return () => {
+      stopped = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  // Checks the card frame of the live picture until it is shot
+  useEffect(() => {
+    if (!frame) return;
+    const region = cardFrameRegion(frame.width, frame.height);
+    const canvas = document.createElement("canvas");
+    canvas.width = CAPTURE_CONFIG.ANALYSIS_WIDTH;
+    canvas.height = Math.round(
+      CAPTURE_CONFIG.ANALYSIS_WIDTH / CAPTURE_CONFIG.CARD_ASPECT_RATIO,
+    );
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+
+    const interval = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || !context || video.readyState < 2) return;
+      context.drawImage(
+        video,
+        region.left,
+        region.top,
+        region.width,
+        region.height,
+        0,
+        0,
+        canvas.width,
+        canvas.height,
+      );
+      const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+      setQuality(
+        assessCapture(frame, {
+          gray: toGrayscale(pixels.data),
+          width: pixels.width,
+          height: pixels.height,
+        }),
+      );
+    }, CHECK_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [frame]);
+
+  // The whole frame is sent; server-side preprocessing crops it to the card
+  const shoot = () => {
+    const video = videoRef.current;
+    if (!video || !frame) return;
+    const canvas = document.createElement("canvas");
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    canvas.getContext("2d")?.drawImage(video, 0, 0);
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) return;
+        onCapture(
+          new File([blob], `card-${Date.now()}.jpg`, { type: "image/jpeg" }),
+        );
+      },
+      "image/jpeg",
+      0.92,
+    );
+  };
+
+  const ready = !!quality && quality.issues.length === 0;
+  const region = frame && cardFrameRegion(frame.width, frame.height);
+
+  return (
+    <div className="space-y-3">
+      <div className="relative overflow-hidden rounded-lg bg-black">
+        <video ref={videoRef} playsInline muted className="w-full h-auto" />
+        {frame && region && (
+          <div
+            className={`absolute rounded-xl border-4 transition-colors shadow-[0_0_0_9999px_rgba(0,0,0,0.45)] ${ready ? "border-green-400" : "border-amber-400"}`}
+            style={{
+              left: `${(region.left / frame.width) * 100}%`,
+              top: `${(region.top / frame.height) * 100}%`,
+              width: `${(region.width / frame.width) * 100}%`,
+              height: `${(region.height / frame.height) * 100}%`,
+            }}
+          />
+        )}
+        {!frame && !cameraError && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-white">
+            Starting camera...
+          </p>
+        )}
+      </div>
+
+      {cameraError ? (
+        <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+          <p className="text-xs text-amber-700">{cameraError}</p>
+        </div>
+      ) : (
+        <div className="min-h-5 text-xs">
+          {ready ? (
+            <p className="flex items-center gap-1 text-green-700">
+              <CheckCircle className="w-3 h-3" />
+              Card in focus, ready to shoot
+            </p>
+          ) : (
+            quality?.issues.map((issue) => (
+              <p key={issue} className="text-amber-700">
+                {CAPTURE_HINTS[issue]}
+              </p>
+            )) || <p className="text-gray-500">Fit the card into the frame</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={shoot} disabled={!ready} className="flex-1">
+          <Camera />
+          Take Photo
+        </Button>
+        <Button variant="outline" onClick={onClose}>
+          <X />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
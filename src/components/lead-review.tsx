@@ -0,0 +1,381 @@
+"use client";
+
+import React, { useState } from "react";
+
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+
+import { AlertTriangle, Check, X } from "lucide-react";
+
+interface BoundingBox {
+  vertices: { x: number; y: number }[];
+}
+
+interface LeadPhone {
+  type: string;
+  e164: string;
+  display: string;
+  extension?: string;
+  primary: boolean;
+}
+
+interface SocialProfile {
+  network: string;
+  handle: string;
+  url: string;
+}
+
+interface ExtractionWarning {
+  code: string;
+  field?: string;
+  message: string;
+  value?: string;
+}
+
+interface FieldProvenance {
+  confidence: number;
+  rule: string;
+  span: { text: string; start: number; end: number };
+  original?: string;
+}
+
+export interface LeadDraft {
+  draft: { id: string; expires_at: string };
+  data: Record<string, string | undefined> & {
+    phones?: LeadPhone[];
+    social_profiles?: SocialProfile[];
+  };
+  fields: Record<string, FieldProvenance>;
+  sourceRegions: Record<string, BoundingBox[]>;
+  backSourceRegions?: Record<string, BoundingBox[]>;
+  lowConfidenceFields: string[];
+  warnings: ExtractionWarning[];
+  rawText: string;
+  backRawText?: string;
+  /** Preprocessed images the source regions refer to, as data URLs */
+  images?: { front: string; back?: string };
+  /** Applied preprocessing stages per side, for debugging */
+  preprocessing?: Record<string, { steps: string[]; originalPath?: string }>;
+}
+
+interface LeadReviewProps {
+  draft: LeadDraft;
+  imageUrl: string;
+  backImageUrl?: string | null;
+  submitting: boolean;
+  onConfirm: (values: Record<string, string>) => void;
+  onDiscard: () => void;
+}
+
+const REVIEW_FIELDS = [
+  { key: "name", label: "Name" },
+  { key: "job_title", label: "Title" },
+  { key: "company", label: "Company" },
+  { key: "name_native", label: "Name (native script)" },
+  { key: "job_title_native", label: "Title (native script)" },
+  { key: "company_native", label: "Company (native script)" },
+  { key: "email", label: "Email" },
+  { key: "phone", label: "Phone" },
+  { key: "website", label: "Website" },
+  { key: "address_street", label: "Street" },
+  { key: "address_city", label: "City" },
+  { key: "address_region", label: "State / Region" },
+  { key: "address_postal_code", label: "Postal Code" },
+  { key: "address_country", label: "Country" },
+];
+
+/**
+ * Review-and-correct form for a scanned card draft.
+ *
+ * Shows the uploaded image (and the back side of two-sided cards) with the OCR source
+ * region of every field highlighted next to an editable form. Low-confidence fields
+ * are flagged so reviewers can focus on them; nothing is persisted until the
+ * reviewer confirms.
+ */
+export function LeadReview({
+  draft,
+  imageUrl,
+  backImageUrl,
+  submitting,
+  onConfirm,
+  onDiscard,
+}: LeadReviewProps) {
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      REVIEW_FIELDS.map(({ key }) => [
+        key,
+        // Phone numbers are stored as E.164 but easier to check in display format
+        (key === "phone" && draft.data.phone_display) ||
+          (draft.data[key] as string | undefined) ||
+          "",
+      ]),
+    ),
+  );
+  const [activeField, setActiveField] = useState<string | null>(null);
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Review Extracted Data</span>
+          <Badge variant="secondary">Draft</Badge>
+        </CardTitle>
+        <CardDescription>
+          Check the highlighted fields and correct anything the OCR got wrong.
+          Nothing is saved or synced to the CRM until you confirm. This draft
+          expires {new Date(draft.draft.expires_at).toLocaleString()}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-6 md:grid-cols-2">
+          {/* Card images with source regions */}
+          <div className="space-y-3 self-start">
+            <SourceImage
+              src={imageUrl}
+              alt="Uploaded business card"
+              regions={draft.sourceRegions}
+              lowConfidenceFields={draft.lowConfidenceFields}
+              activeField={activeField}
+            />
+            {backImageUrl && (
+              <SourceImage
+                src={backImageUrl}
+                alt="Back of the business card"
+                regions={draft.backSourceRegions || {}}
+                lowConfidenceFields={draft.lowConfidenceFields}
+                activeField={activeField}
+              />
+            )}
+          </div>
+
+          {/* Editable fields */}
+          <form
+            className="space-y-3"
+            onSubmit={(event) => {
+              event.preventDefault();
+              onConfirm(values);
+            }}
+          >
+            {REVIEW_FIELDS.map(({ key, label }) => {
+              const provenance = draft.fields[key];
+              const warnings = (draft.warnings || []).filter(
+                (warning) => warning.field === key,
+              );
+              const isLow =
+                draft.lowConfidenceFields.includes(key) || warnings.length > 0;
+              return (
+                <div key={key} className="space-y-1">
+                  <label
+                    htmlFor={`review-${key}`}
+                    className="flex items-center justify-between text-sm font-medium"
+                  >
+                    <span className="flex items-center gap-1">
+                      {label}
+                      {isLow && (
+                        <AlertTriangle className="w-3 h-3 text-amber-600" />
+                      )}
+                    </span>
+                    {provenance && (
+                      <span
+                        className={`text-xs ${isLow ? "text-amber-700" : "text-gray-500"}`}
+                        title={provenance.rule}
+                      >
+                        {Math.round(provenance.confidence * 100)}% confidence
+                      </span>
+                    )}
+                  </label>
+                  <Input
+                    id={`review-${key}`}
+                    value={values[key]}
+                    placeholder="Not found"
+                    dir="auto"
+                    disabled={submitting}
+                    className={
+                      isLow ? "border-amber-400 bg-amber-50" : undefined
+                    }
+                    onFocus={() => setActiveField(key)}
+                    onBlur={() => setActiveField(null)}
+                    onChange={(event) =>
+                      setValues((prev) => ({
+                        ...prev,
+                        [key]: event.target.value,
+                      }))
+                    }
+                  />
+                  {key === "phone" &&
+                    (draft.data.phones || [])
+                      .filter((phone) => !phone.primary)
+                      .map((phone) => (
+                        <p key={phone.e164} className="text-xs text-gray-500">
+                          <span className="capitalize">{phone.type}</span>:{" "}
+                          {phone.display}
+                          {phone.extension && ` ext. ${phone.extension}`}
+                        </p>
+                      ))}
+                  {provenance?.original && (
+                    <p className="text-xs text-gray-500">
+                      OCR read &quot;{provenance.original}&quot;
+                    </p>
+                  )}
+                  {warnings.map((warning) => (
+                    <p key={warning.code} className="text-xs text-amber-700">
+                      {warning.message}
+                    </p>
+                  ))}
+                </div>
+              );
+            })}
+
+            {!!draft.data.social_profiles?.length && (
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Social Profiles</p>
+                {draft.data.social_profiles.map((profile) => (
+                  <p
+                    key={`${profile.network}-${profile.handle}`}
+                    className="text-xs text-gray-500"
+                  >
+                    <span className="capitalize">{profile.network}</span>:{" "}
+                    <a
+                      href={profile.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 hover:underline"
+                    >
+                      {profile.handle}
+                    </a>
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <Button type="submit" className="flex-1" disabled={submitting}>
+                <Check />
+                {submitting ? "Saving..." : "Confirm & Save Lead"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onDiscard}
+                disabled={submitting}
+              >
+                <X />
+                Discard
+              </Button>
+            </div>
+          </form>
+        </div>
+
+        <details className="mt-4 text-sm">
+          <summary className="cursor-pointer text-gray-600">
+            Raw OCR text
+          </summary>
+          <pre className="mt-2 p-3 bg-gray-50 rounded-lg whitespace-pre-wrap text-xs">
+            {draft.rawText}
+          </pre>
+          {draft.backRawText !== undefined && (
+            <pre className="mt-2 p-3 bg-gray-50 rounded-lg whitespace-pre-wrap text-xs">
+              {draft.backRawText || "(no text on the back side)"}
+            </pre>
+          )}
+        </details>
+
+        {draft.preprocessing && (
+          <details className="mt-2 text-sm">
+            <summary className="cursor-pointer text-gray-600">
+              Image preprocessing
+            </summary>
+            <ul className="mt-2 space-y-1 text-xs text-gray-600">
+              {Object.entries(draft.preprocessing).map(([side, result]) => (
+                <li key={side}>
+                  <strong className="capitalize">{side}:</strong>{" "}
+                  {result.steps.join(", ") || "unchanged"}
+                  {result.originalPath && ` (original: ${result.originalPath})`}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * A card image with the source regions of the extracted fields highlighted.
+ */
+function SourceImage({
+  src,
+  alt,
+  regions,
+  lowConfidenceFields,
+  activeField,
+}: {
+  src: string;
+  alt: string;
+  regions: Record<string, BoundingBox[]>;
+  lowConfidenceFields: string[];
+  activeField: string | null;
+}) {
+  const [imageSize, setImageSize] = useState<{
+    width: number;
+    height: number;
+  } | null>(null);
+
+  const toRect = (box: BoundingBox) => {
+    if (!imageSize || box.vertices.length === 0) return null;
+    const xs = box.vertices.map((vertex) => vertex.x);
+    const ys = box.vertices.map((vertex) => vertex.y);
+    const left = Math.min(...xs);
+    const top = Math.min(...ys);
+    return {
+      left: `${(left / imageSize.width) * 100}%`,
+      top: `${(top / imageSize.height) * 100}%`,
+      width: `${((Math.max(...xs) - left) / imageSize.width) * 100}%`,
+      height: `${((Math.max(...ys) - top) / imageSize.height) * 100}%`,
+    };
+  };
+
+  return (
+    <div className="relative rounded-lg overflow-hidden border">
+      {/* eslint-disable-next-line @next/next/no-img-element -- local object URL */}
+      <img
+        src={src}
+        alt={alt}
+        className="w-full h-auto block"
+        onLoad={(event) =>
+          setImageSize({
+            width: event.currentTarget.naturalWidth,
+            height: event.currentTarget.naturalHeight,
+          })
+        }
+      />
+      {REVIEW_FIELDS.flatMap(({ key }) =>
+        (regions[key] || []).map((box, index) => {
+          const rect = toRect(box);
+          if (!rect) return null;
+          const isActive = activeField === key;
+          const isLow = lowConfidenceFields.includes(key);
+          return (
+            <div
+              key={`${key}-${index}`}
+              style={rect}
+              className={`absolute pointer-events-none rounded-sm border-2 transition-opacity ${
+                isLow
+                  ? "border-amber-500 bg-amber-300/20"
+                  : "border-blue-500 bg-blue-300/20"
+              } ${activeField && !isActive ? "opacity-20" : "opacity-100"}`}
+            />
+          );
+        }),
+      )}
+    </div>
+  );
+}
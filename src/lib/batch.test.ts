@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  firstOccurrences,
+  mapConcurrent,
+  summarizeBatch,
+  toBatchFileResult,
+  toRepeatResult,
+  type BatchFileResult,
+} from "@/lib/batch";
+
+describe("toBatchFileResult", () => {
+  it("classifies stored, already processed and failed files", () => {
+    expect(
+      toBatchFileResult("front.jpg", 200, {
+        success: true,
+        lead: {
+          id: "1",
+          name: "Jane Doe",
+          company: "Acme",
+          email: "j@acme.com",
+        },
+      }),
+    ).toEqual({
+      file: "front.jpg",
+      status: "created",
+      leads: [{ id: "1", name: "Jane Doe", company: "Acme" }],
+    });
+
+    expect(
+      toBatchFileResult("cards.pdf", 200, {
+        success: true,
+        duplicate: true,
+        leads: [{ lead: { id: "1" } }, { lead: { id: "2" } }],
+      }),
+    ).toMatchObject({
+      status: "duplicate",
+      leads: [{ id: "1" }, { id: "2" }],
+    });
+
+    expect(
+      toBatchFileResult("blurry.jpg", 400, {
+        success: false,
+        code: "resolution_too_low",
+        message: "Image resolution too low",
+      }),
+    ).toEqual({
+      file: "blurry.jpg",
+      status: "failed",
+      leads: [],
+      code: "resolution_too_low",
+      message: "Image resolution too low",
+    });
+  });
+});
+
+describe("toRepeatResult", () => {
+  it("reports repeated files of a batch as duplicates of the first", () => {
+    const leads = [{ id: "1", name: "Jane Doe" }];
+    expect(firstOccurrences(["a1", "b2", "a1", null, null])).toEqual([
+      0, 1, 0, 3, 4,
+    ]);
+
+    expect(
+      toRepeatResult("copy.jpg", {
+        file: "card.jpg",
+        status: "created",
+        leads,
+      }),
+    ).toEqual({
+      file: "copy.jpg",
+      status: "duplicate",
+      leads,
+      message: "Same file as card.jpg",
+    });
+    expect(
+      toRepeatResult("copy.jpg", {
+        file: "card.jpg",
+        status: "failed",
+        leads: [],
+        message: "No text detected in image",
+      }),
+    ).toMatchObject({ file: "copy.jpg", status: "failed" });
+  });
+});
+
+describe("summarizeBatch", () => {
+  it("counts the files per outcome", () => {
+    const results = (
+      ["created", "created", "duplicate", "failed"] as const
+    ).map(
+      (status): BatchFileResult => ({ file: "card.jpg", status, leads: [] }),
+    );
+
+    expect(summarizeBatch(results)).toEqual({
+      total: 4,
+      created: 2,
+      duplicates: 1,
+      failed: 1,
+    });
+  });
+});
+
+describe("mapConcurrent", () => {
+  it("keeps the order of the items with bounded concurrency", async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await mapConcurrent(
+      [30, 10, 20, 0, 5],
+      2,
+      async (delay) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        running--;
+        return delay * 2;
+      },
+    );
+
+    expect(results).toEqual([60, 20, 40, 0, 10]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("handles empty input", async () => {
+    expect(await mapConcurrent([], 3, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Batch Uploads
+ *
+ * Outcome of the files of a batch upload (`POST /api/process-card/batch`), shared by
+ * the route and the upload page's per-file status list, and the bounded-concurrency
+ * runner the route processes the files with.
+ *
+ * Identical files of one batch are processed once: running them concurrently would
+ * let every copy pass the pipeline's duplicate check. The later copies are reported
+ * as duplicates of the first (see `toRepeatResult`).
+ *
+ * Every file of a batch ends up as one of:
+ * - `created`   → processed, its leads were stored
+ * - `duplicate` → already processed earlier, its existing leads are returned
+ * - `failed`    → rejected or failed in the pipeline, with the error `code`/`message`
+ *
+ * @module batch
+ * @author Ahmed Kamal
+ */
+
+export type BatchFileStatus = "created" | "duplicate" | "failed";
+
+/**
+ * A lead of a batch file, as listed in the batch response.
+ */
+export type BatchLead = {
+  id: string;
+  name?: string;
+  company?: string;
+};
+
+/**
+ * Outcome of one file of a batch.
+ */
+export type BatchFileResult = {
+  /** File name as uploaded */
+  file: string;
+  status: BatchFileStatus;
+  /** Leads stored for the file (several for multi-page PDFs), or its existing leads */
+  leads: BatchLead[];
+  /** Error code of a failed file (see the process-card route) */
+  code?: string;
+  message?: string;
+};
+
+/**
+ * Fields of a pipeline response body (see `POST /api/process-card`) a batch reads.
+ */
+type PipelineBody = {
+  success?: boolean;
+  duplicate?: boolean;
+  code?: string;
+  error?: string;
+  message?: string;
+  /** Lead of a single card */
+  lead?: BatchLead;
+  /** Leads of a multi-card image or PDF */
+  leads?: { lead: BatchLead }[];
+};
+
+/**
+ * Number of files of a batch per outcome.
+ */
+export type BatchSummary = {
+  total: number;
+  created: number;
+  duplicates: number;
+  failed: number;
+};
+
+/**
+ * Classifies the response of the card pipeline for one file of a batch.
+ *
+ * @param file - File name as uploaded
+ * @param status - HTTP status of the pipeline response
+ * @param body - Pipeline response body (see `POST /api/process-card`)
+ * @returns The file's outcome
+ *
+ * @example
+ * toBatchFileResult("card.jpg", 400, { success: false, message: "No text detected in image" });
+ * // { file: "card.jpg", status: "failed", leads: [], message: "No text detected in image" }
+ */
+export function toBatchFileResult(
+  file: string,
+  status: number,
+  body: unknown,
+): BatchFileResult {
+  const data: PipelineBody =
+    typeof body === "object" && body !== null ? body : {};
+
+  if (status >= 400 || !data.success) {
+    return {
+      file,
+      status: "failed",
+      leads: [],
+      ...(data.code && { code: data.code }),
+      message: data.error || data.message || `Failed with status ${status}`,
+    };
+  }
+
+  const leads = (
+    data.leads
+      ? data.leads.map((card) => card.lead)
+      : data.lead
+        ? [data.lead]
+        : []
+  ).map(({ id, name, company }) => ({ id, name, company }));
+
+  return { file, status: data.duplicate ? "duplicate" : "created", leads };
+}
+
+/**
+ * Outcome of a file that repeats an earlier file of the same batch: a duplicate of
+ * its leads, or the same failure.
+ *
+ * @param file - File name of the repeat, as uploaded
+ * @param original - Outcome of the first file with the same content
+ * @returns The repeat's outcome
+ */
+export function toRepeatResult(
+  file: string,
+  original: BatchFileResult,
+): BatchFileResult {
+  if (original.status === "failed") return { ...original, file };
+  return {
+    file,
+    status: "duplicate",
+    leads: original.leads,
+    message: `Same file as ${original.file}`,
+  };
+}
+
+/**
+ * Finds repeated items by key, e.g. identical files by content hash.
+ *
+ * @param keys - Key of every item; items without a key (null) never repeat
+ * @returns For every item, the index of the first item with its key (its own index
+ *   for first occurrences)
+ *
+ * @example
+ * firstOccurrences(["a", "b", "a", null]); // [0, 1, 0, 3]
+ */
+export function firstOccurrences(keys: (string | null)[]): number[] {
+  return keys.map((key, index) => (key === null ? index : keys.indexOf(key)));
+}
+
+/**
+ * Counts the files of a batch per outcome.
+ *
+ * @example
+ * summarizeBatch(results); // { total: 12, created: 9, duplicates: 2, failed: 1 }
+ */
+export function summarizeBatch(results: BatchFileResult[]): BatchSummary {
+  const count = (status: BatchFileStatus) =>
+    results.filter((result) => result.status === status).length;
+  return {
+    total: results.length,
+    created: count("created"),
+    duplicates: count("duplicate"),
+    failed: count("failed"),
+  };
+}
+
+/**
+ * Maps items through an async function with at most `limit` calls running at once.
+ * Results keep the order of the items; the first rejection rejects the whole map.
+ *
+ * @param items - Items to map
+ * @param limit - Maximum number of concurrent calls (at least 1)
+ * @param fn - Async mapping function
+ * @returns The mapped items, in order
+ *
+ * @example
+ * const results = await mapConcurrent(files, 3, (file) => processCard(file));
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  // Every worker takes the next unclaimed item until none are left
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker),
+  );
+  return results;
+}
@@ -0,0 +1,62 @@
+/**
+ * Benchmark Corpus Loader
+ *
+ * A corpus is a directory of labeled business cards. Every card is identified by its
+ * base name and consists of:
+ *
+ * - `<name>.json` - the expected `LeadData` (required, the label)
+ * - `<name>.txt`  - the raw OCR transcript of the card, and/or
+ * - `<name>.jpg|.jpeg|.png|.webp` - the card image, used when OCR is enabled
+ *
+ * @module benchmark/corpus
+ * @author Ahmed Kamal
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { LeadData } from "@/models/lead";
+
+export type CorpusEntry = {
+  name: string;
+  expected: LeadData;
+  transcriptPath?: string;
+  imagePath?: string;
+};
+
+const IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp"];
+
+/**
+ * Loads all labeled cards from a corpus directory.
+ *
+ * @param dir - Corpus directory
+ * @returns Entries sorted by name; cards without a label are skipped
+ * @throws {Error} When the directory does not exist
+ */
+export function loadCorpus(dir: string): CorpusEntry[] {
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Corpus directory not found: ${dir}`);
+  }
+
+  const files = fs.readdirSync(dir);
+
+  return files
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => {
+      const name = path.basename(file, ".json");
+      const transcript = `${name}.txt`;
+      const image = files.find((candidate) =>
+        IMAGE_EXTENSIONS.some((ext) => candidate === `${name}${ext}`),
+      );
+
+      return {
+        name,
+        expected: JSON.parse(fs.readFileSync(path.join(dir, file), "utf8")),
+        transcriptPath: files.includes(transcript)
+          ? path.join(dir, transcript)
+          : undefined,
+        imagePath: image ? path.join(dir, image) : undefined,
+      };
+    })
+    .filter((entry) => entry.transcriptPath || entry.imagePath);
+}
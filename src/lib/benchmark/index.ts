@@ -0,0 +1,101 @@
+/**
+ * Extraction Accuracy Benchmark
+ *
+ * Runs the normalization pipeline over a labeled card corpus and scores the output,
+ * so heuristic changes can be gated on numbers. The CLI lives in `scripts/benchmark.ts`
+ * (`pnpm benchmark`).
+ *
+ * @module benchmark
+ * @author Ahmed Kamal
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import { recognizeImage } from "@/lib/image";
+import { cleanAndNormalizeData } from "@/lib/normalization";
+import type { OcrProvider, TextSegment } from "@/lib/ocr";
+import { loadCorpus } from "@/lib/benchmark/corpus";
+import {
+  scoreOutcomes,
+  type BenchmarkReport,
+  type CardOutcome,
+} from "@/lib/benchmark/metrics";
+
+export { loadCorpus, type CorpusEntry } from "@/lib/benchmark/corpus";
+export {
+  diffReports,
+  scoreOutcomes,
+  type BenchmarkDiff,
+  type BenchmarkField,
+  type BenchmarkReport,
+  type CardOutcome,
+  type FieldMetrics,
+  type FieldMismatch,
+  type MetricDelta,
+} from "@/lib/benchmark/metrics";
+
+/**
+ * Runs the benchmark over a corpus directory.
+ *
+ * Without an OCR provider, cards are scored from their transcripts only. With a provider,
+ * cards that have an image are preprocessed and OCR'd first (end-to-end accuracy, see
+ * `recognizeImage`) and cards with only a transcript fall back to it.
+ *
+ * @param corpusDir - Directory of labeled cards (see `loadCorpus`)
+ * @param ocr - Optional OCR provider to run card images through
+ * @returns Benchmark report
+ *
+ * @example
+ * const report = await runBenchmark("src/lib/normalization/__fixtures__/cards");
+ * console.log(`Exact match rate: ${report.exactMatchRate}`);
+ */
+export async function runBenchmark(
+  corpusDir: string,
+  ocr?: OcrProvider,
+): Promise<BenchmarkReport> {
+  const outcomes: CardOutcome[] = [];
+
+  for (const entry of loadCorpus(corpusDir)) {
+    try {
+      let text: string;
+      let segments: TextSegment[] = [];
+      let confidence = 1;
+
+      if (ocr && entry.imagePath) {
+        const extension = path.extname(entry.imagePath).slice(1).toLowerCase();
+        // Same preprocessing and rotation handling as the upload pipeline
+        const { ocrResult: result } = await recognizeImage(
+          {
+            buffer: fs.readFileSync(entry.imagePath),
+            contentType: `image/${extension === "jpg" ? "jpeg" : extension}`,
+          },
+          ocr,
+        );
+        text = result.fullText;
+        segments = result.textSegments;
+        confidence = result.confidence;
+      } else if (entry.transcriptPath) {
+        text = fs.readFileSync(entry.transcriptPath, "utf8");
+      } else {
+        // Image-only card and OCR disabled: nothing to score
+        continue;
+      }
+
+      const { data } = await cleanAndNormalizeData(text, segments, confidence);
+      outcomes.push({
+        name: entry.name,
+        expected: entry.expected,
+        actual: data,
+      });
+    } catch (error) {
+      outcomes.push({
+        name: entry.name,
+        expected: entry.expected,
+        actual: {},
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return scoreOutcomes(outcomes, { corpus: corpusDir, ocrProvider: ocr?.name });
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { diffReports, scoreOutcomes } from "@/lib/benchmark";
+
+const meta = { corpus: "test" };
+
+describe("scoreOutcomes", () => {
+  it("counts wrong values against both precision and recall", () => {
+    const report = scoreOutcomes(
+      [
+        {
+          name: "a",
+          expected: { name: "Jane Doe", phone: "+1-555-123-4567" },
+          actual: { name: "Jane Doe", phone: "+1-555-123-0000" },
+        },
+        {
+          name: "b",
+          expected: { name: "John Smith" },
+          actual: { name: "John  Smith", company: "Acme" },
+        },
+      ],
+      meta,
+    );
+
+    expect(report.fields.name).toMatchObject({ precision: 1, recall: 1 });
+    expect(report.fields.phone).toMatchObject({
+      truePositives: 0,
+      falsePositives: 1,
+      falseNegatives: 1,
+    });
+    expect(report.fields.company).toMatchObject({ precision: 0, recall: 1 });
+    expect(report.exactMatchRate).toBe(0);
+    expect(report.mismatches.map((m) => `${m.card}.${m.field}`)).toEqual([
+      "a.phone",
+      "b.company",
+    ]);
+  });
+
+  it("scores name parts and list entries one by one", () => {
+    const office = {
+      type: "office" as const,
+      e164: "+13125550100",
+      display: "+1 312-555-0100",
+      primary: true,
+    };
+    const mobile = { ...office, type: "mobile" as const, primary: false };
+    const report = scoreOutcomes(
+      [
+        {
+          name: "a",
+          expected: {
+            name_first: "Jane",
+            name_last: "Doe",
+            phones: [office, { ...mobile, e164: "+13125550199" }],
+            social_profiles: [
+              {
+                network: "linkedin",
+                handle: "jane-doe",
+                url: "https://www.linkedin.com/in/jane-doe",
+              },
+            ],
+          },
+          actual: {
+            name_first: "Jane",
+            name_last: "Do",
+            phones: [office, mobile],
+          },
+        },
+      ],
+      meta,
+    );
+
+    expect(report.fields.name_first).toMatchObject({ precision: 1, recall: 1 });
+    expect(report.fields.name_last).toMatchObject({ precision: 0, recall: 0 });
+    expect(report.fields.phones).toMatchObject({
+      truePositives: 1,
+      falsePositives: 1,
+      falseNegatives: 1,
+    });
+    expect(report.fields.social_profiles).toMatchObject({
+      precision: 1,
+      recall: 0,
+    });
+    expect(report.mismatches.map((m) => `${m.field}: ${m.actual}`)).toEqual([
+      "name_last: Do",
+      "phones: office +13125550100, mobile +13125550100",
+      "social_profiles: undefined",
+    ]);
+  });
+
+  it("never counts errored cards as exact matches", () => {
+    const report = scoreOutcomes(
+      [{ name: "a", expected: {}, actual: {}, error: "OCR failed" }],
+      meta,
+    );
+
+    expect(report.exactMatches).toBe(0);
+    expect(report.errors).toEqual([{ card: "a", error: "OCR failed" }]);
+  });
+});
+
+describe("diffReports", () => {
+  it("reports regressions and cards that changed status", () => {
+    const previous = scoreOutcomes(
+      [
+        {
+          name: "a",
+          expected: { name: "Jane Doe" },
+          actual: { name: "Jane Doe" },
+        },
+        { name: "b", expected: { email: "b@x.io" }, actual: {} },
+      ],
+      meta,
+    );
+    const current = scoreOutcomes(
+      [
+        { name: "a", expected: { name: "Jane Doe" }, actual: {} },
+        {
+          name: "b",
+          expected: { email: "b@x.io" },
+          actual: { email: "b@x.io" },
+        },
+      ],
+      meta,
+    );
+
+    const diff = diffReports(previous, current);
+
+    expect(diff.regressions.map((entry) => entry.metric)).toEqual([
+      "name.recall",
+    ]);
+    expect(diff.newlyFailing).toEqual(["a"]);
+    expect(diff.newlyPassing).toEqual(["b"]);
+  });
+});
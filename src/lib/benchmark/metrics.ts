@@ -0,0 +1,288 @@
+/**
+ * Extraction Accuracy Metrics
+ *
+ * Scores normalization output against labeled cards and compares runs.
+ *
+ * Per-field counting (values compared after whitespace normalization):
+ * - true positive:  extracted and equal to the label
+ * - false positive: extracted but the label is absent or different
+ * - false negative: labeled but not extracted or extracted wrongly
+ *
+ * A wrong value therefore counts against both precision and recall, which is what
+ * we want: storing a fax number as the phone is worse than storing nothing.
+ *
+ * Besides the editable `LEAD_FIELDS`, the name parts and the `phones` and
+ * `social_profiles` lists are scored. List entries are counted one by one (a phone
+ * by type, number and extension, a profile by network and handle), so one missed
+ * number out of three costs a third of the recall, not the whole field.
+ *
+ * @module benchmark/metrics
+ * @author Ahmed Kamal
+ */
+
+import { LEAD_FIELDS, type LeadData, type LeadField } from "@/models/lead";
+
+/**
+ * A scored field: a single-valued lead field or one of the structured lists.
+ */
+export type BenchmarkField = LeadField | "phones" | "social_profiles";
+
+type ListField = Extract<BenchmarkField, "phones" | "social_profiles">;
+
+// Report order: the editable fields, the name parts, then the lists
+const BENCHMARK_FIELDS: BenchmarkField[] = [
+  ...LEAD_FIELDS,
+  "name_prefix",
+  "name_first",
+  "name_middle",
+  "name_last",
+  "name_suffix",
+  "phones",
+  "social_profiles",
+];
+
+export type CardOutcome = {
+  name: string;
+  expected: LeadData;
+  actual: LeadData;
+  error?: string;
+};
+
+export type FieldMetrics = {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+};
+
+export type FieldMismatch = {
+  card: string;
+  field: BenchmarkField;
+  expected?: string;
+  actual?: string;
+};
+
+export type BenchmarkReport = {
+  generatedAt: string;
+  corpus: string;
+  ocrProvider?: string;
+  cards: number;
+  exactMatches: number;
+  exactMatchRate: number;
+  fields: Record<BenchmarkField, FieldMetrics>;
+  mismatches: FieldMismatch[];
+  errors: { card: string; error: string }[];
+};
+
+export type MetricDelta = {
+  metric: string;
+  previous: number;
+  current: number;
+  delta: number;
+};
+
+export type BenchmarkDiff = {
+  deltas: MetricDelta[];
+  regressions: MetricDelta[];
+  newlyFailing: string[];
+  newlyPassing: string[];
+};
+
+/**
+ * Scores a set of card outcomes.
+ *
+ * @param outcomes - Expected vs. actual lead data per card
+ * @param meta - Corpus path and optional OCR provider, recorded in the report
+ * @returns Aggregated benchmark report
+ */
+export function scoreOutcomes(
+  outcomes: CardOutcome[],
+  meta: { corpus: string; ocrProvider?: string },
+): BenchmarkReport {
+  const counts = Object.fromEntries(
+    BENCHMARK_FIELDS.map((field) => [field, { tp: 0, fp: 0, fn: 0 }]),
+  ) as Record<BenchmarkField, { tp: number; fp: number; fn: number }>;
+  const mismatches: FieldMismatch[] = [];
+  let exactMatches = 0;
+
+  for (const outcome of outcomes) {
+    let exact = !outcome.error;
+
+    for (const field of BENCHMARK_FIELDS) {
+      const expected = fieldValues(outcome.expected, field);
+      const actual = fieldValues(outcome.actual, field);
+
+      // Every value matches at most one value on the other side
+      const unmatched = [...actual];
+      let matched = 0;
+      for (const value of expected) {
+        const index = unmatched.indexOf(value);
+        if (index === -1) continue;
+        unmatched.splice(index, 1);
+        matched++;
+      }
+
+      counts[field].tp += matched;
+      counts[field].fp += unmatched.length;
+      counts[field].fn += expected.length - matched;
+      if (unmatched.length === 0 && matched === expected.length) continue;
+
+      exact = false;
+      mismatches.push({
+        card: outcome.name,
+        field,
+        expected: describeField(outcome.expected, field),
+        actual: describeField(outcome.actual, field),
+      });
+    }
+
+    if (exact) exactMatches++;
+  }
+
+  const fields = Object.fromEntries(
+    BENCHMARK_FIELDS.map((field) => {
+      const { tp, fp, fn } = counts[field];
+      return [
+        field,
+        {
+          truePositives: tp,
+          falsePositives: fp,
+          falseNegatives: fn,
+          precision: ratio(tp, tp + fp),
+          recall: ratio(tp, tp + fn),
+        },
+      ];
+    }),
+  ) as Record<BenchmarkField, FieldMetrics>;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    corpus: meta.corpus,
+    ocrProvider: meta.ocrProvider,
+    cards: outcomes.length,
+    exactMatches,
+    exactMatchRate: ratio(exactMatches, outcomes.length),
+    fields,
+    mismatches,
+    errors: outcomes
+      .filter((outcome) => outcome.error)
+      .map((outcome) => ({ card: outcome.name, error: outcome.error! })),
+  };
+}
+
+/**
+ * Compares a run against a previous one.
+ *
+ * A regression is any metric that dropped by more than `tolerance`.
+ * Cards are compared by name, so renamed fixtures show up as new.
+ *
+ * @param previous - Report of the baseline run
+ * @param current - Report of the current run
+ * @param tolerance - Allowed drop before a delta counts as regression
+ * @returns Metric deltas, regressions and cards that changed status
+ */
+export function diffReports(
+  previous: BenchmarkReport,
+  current: BenchmarkReport,
+  tolerance = 0,
+): BenchmarkDiff {
+  const metrics: Array<[string, number | undefined, number]> = [
+    ["exactMatchRate", previous.exactMatchRate, current.exactMatchRate],
+    ...BENCHMARK_FIELDS.flatMap(
+      (field): Array<[string, number | undefined, number]> => [
+        [
+          `${field}.precision`,
+          previous.fields[field]?.precision,
+          current.fields[field].precision,
+        ],
+        [
+          `${field}.recall`,
+          previous.fields[field]?.recall,
+          current.fields[field].recall,
+        ],
+      ],
+    ),
+  ];
+
+  const deltas = metrics
+    .filter(
+      (entry): entry is [string, number, number] => entry[1] !== undefined,
+    )
+    .map(([metric, before, after]) => ({
+      metric,
+      previous: before,
+      current: after,
+      delta: after - before,
+    }));
+
+  const failingCards = (report: BenchmarkReport) =>
+    new Set([
+      ...report.mismatches.map((mismatch) => mismatch.card),
+      ...report.errors.map((error) => error.card),
+    ]);
+  const previousFailing = failingCards(previous);
+  const currentFailing = failingCards(current);
+
+  return {
+    deltas,
+    regressions: deltas.filter((entry) => entry.delta < -tolerance),
+    newlyFailing: [...currentFailing].filter(
+      (card) => !previousFailing.has(card),
+    ),
+    newlyPassing: [...previousFailing].filter(
+      (card) => !currentFailing.has(card),
+    ),
+  };
+}
+
+/**
+ * Compared values of a field: none or one for single-valued fields, one per entry
+ * for lists.
+ */
+function fieldValues(data: LeadData, field: BenchmarkField): string[] {
+  if (field === "phones" || field === "social_profiles") {
+    return describeList(data, field);
+  }
+  const value = normalizeValue(data[field]);
+  return value ? [value] : [];
+}
+
+/**
+ * A field as shown in mismatches; lists are joined into one string.
+ */
+function describeField(
+  data: LeadData,
+  field: BenchmarkField,
+): string | undefined {
+  if (field === "phones" || field === "social_profiles") {
+    return data[field]?.length
+      ? describeList(data, field).join(", ")
+      : undefined;
+  }
+  return data[field];
+}
+
+// Compared form of the list entries: a phone by type, number and extension, a
+// profile by network and handle
+function describeList(data: LeadData, field: ListField): string[] {
+  const entries =
+    field === "phones"
+      ? (data.phones || []).map(
+          (phone) =>
+            `${phone.type} ${phone.e164}${phone.extension ? ` x${phone.extension}` : ""}`,
+        )
+      : (data.social_profiles || []).map(
+          (profile) => `${profile.network} ${profile.handle}`,
+        );
+  return entries.map((entry) => normalizeValue(entry));
+}
+
+function normalizeValue(value?: string): string {
+  return (value || "").trim().replace(/\s+/g, " ");
+}
+
+function ratio(numerator: number, denominator: number): number {
+  // A field that is never labeled nor extracted is trivially perfect
+  return denominator === 0 ? 1 : numerator / denominator;
+}
@@ -0,0 +1,198 @@
+import { createHmac } from "node:crypto";
+import { lookup } from "node:dns/promises";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { deliverCallback, parseCallbackUrl } from "@/lib/callbacks";
+
+vi.mock("node:dns/promises", () => ({ lookup: vi.fn() }));
+
+const CALLBACK_URL = "https://crm.example.com/hooks/cards";
+
+// Addresses the mocked DNS resolves every host name to
+function resolveTo(...addresses: string[]) {
+  vi.mocked(lookup).mockResolvedValue(
+    addresses.map((address) => ({
+      address,
+      family: address.includes(":") ? 6 : 4,
+    })) as never,
+  );
+}
+
+// Local receiver answering with the given statuses; errors drop the connection
+let server: Server;
+let received: { headers: IncomingHttpHeaders; body: string }[];
+let answers: (number | Error)[];
+let callbackUrl: string;
+
+beforeEach(async () => {
+  received = [];
+  answers = [];
+  server = createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received.push({ headers: request.headers, body });
+      const answer = answers.shift() ?? 200;
+      if (answer instanceof Error) request.socket.destroy();
+      else response.writeHead(answer).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  callbackUrl = `http://crm.example.com:${port}/hooks/cards`;
+
+  // The receiver runs on loopback, which only development mode may call
+  vi.stubEnv("NODE_ENV", "development");
+  resolveTo("127.0.0.1");
+});
+
+afterEach(async () => {
+  vi.unstubAllEnvs();
+  vi.mocked(lookup).mockReset();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("parseCallbackUrl", () => {
+  beforeEach(() => {
+    vi.stubEnv("NODE_ENV", "production");
+  });
+
+  it("accepts absolute http(s) URLs only", () => {
+    expect(parseCallbackUrl(CALLBACK_URL)).toBe(CALLBACK_URL);
+    expect(parseCallbackUrl("http://203.0.113.7/done")).toBe(
+      "http://203.0.113.7/done",
+    );
+    expect(parseCallbackUrl("file:///etc/passwd")).toBeNull();
+    expect(parseCallbackUrl("/relative")).toBeNull();
+  });
+
+  it("rejects loopback, private, link-local, multicast, reserved and metadata hosts", () => {
+    for (const url of [
+      "http://localhost:4000/done",
+      "http://api.localhost./done",
+      "http://127.0.0.1/done",
+      "http://2130706433/done",
+      "http://10.1.2.3/done",
+      "http://172.20.0.5/done",
+      "http://192.168.1.10/done",
+      "http://169.254.169.254/latest/meta-data",
+      "http://metadata.google.internal/computeMetadata/v1",
+      "http://[::1]/done",
+      "http://[::ffff:127.0.0.1]/done",
+      "http://[fd00::1]/done",
+      "http://[fe80::1]/done",
+      "http://[::ffff:8.8.8.8]/done",
+      "http://198.18.0.1/done",
+      "http://224.0.0.1/done",
+      "http://240.0.0.1/done",
+    ]) {
+      expect(parseCallbackUrl(url), url).toBeNull();
+    }
+  });
+
+  it("allows internal hosts in development for local receivers", () => {
+    vi.stubEnv("NODE_ENV", "development");
+    expect(parseCallbackUrl("http://localhost:4000/done")).toBe(
+      "http://localhost:4000/done",
+    );
+  });
+
+  it("accepts only the configured hosts when an allowlist is set", () => {
+    vi.stubEnv(
+      "CALLBACK_ALLOWED_HOSTS",
+      "crm.example.com, *.hooks.example.org",
+    );
+    expect(parseCallbackUrl(CALLBACK_URL)).toBe(CALLBACK_URL);
+    expect(parseCallbackUrl("https://eu.hooks.example.org/cards")).toBe(
+      "https://eu.hooks.example.org/cards",
+    );
+    expect(parseCallbackUrl("https://other.example.com/cards")).toBeNull();
+    expect(parseCallbackUrl("https://evilhooks.example.org/cards")).toBeNull();
+  });
+});
+
+describe("deliverCallback", () => {
+  it("posts the payload as signed JSON", async () => {
+    vi.stubEnv("CALLBACK_SIGNING_SECRET", "s3cret");
+    answers = [204];
+
+    const delivery = await deliverCallback(callbackUrl, {
+      event: "job.completed",
+    });
+
+    expect(delivery).toEqual({ delivered: true, attempts: 1, status: 204 });
+    const body = '{"event":"job.completed"}';
+    expect(received).toHaveLength(1);
+    expect(received[0].body).toBe(body);
+    expect(received[0].headers["content-type"]).toBe("application/json");
+    expect(received[0].headers["x-fileadx-signature"]).toBe(
+      `sha256=${createHmac("sha256", "s3cret").update(body).digest("hex")}`,
+    );
+  });
+
+  it("connects to the resolved address under the callback's host name", async () => {
+    await deliverCallback(callbackUrl, {});
+
+    expect(lookup).toHaveBeenCalledWith("crm.example.com", { all: true });
+    expect(received[0].headers.host).toBe(new URL(callbackUrl).host);
+  });
+
+  it("rejects hosts resolving to an internal address without retrying", async () => {
+    vi.stubEnv("NODE_ENV", "production");
+    resolveTo("93.184.216.34", "10.0.0.5");
+
+    const delivery = await deliverCallback(
+      "https://127.0.0.1.nip.io/hooks",
+      {},
+      { retryDelayMs: 0 },
+    );
+
+    expect(delivery).toEqual({
+      delivered: false,
+      attempts: 1,
+      error:
+        "Callback host 127.0.0.1.nip.io resolves to internal address 10.0.0.5",
+    });
+  });
+
+  it("doesn't follow redirects", async () => {
+    answers = [302];
+
+    expect(await deliverCallback(callbackUrl, {})).toMatchObject({
+      delivered: false,
+      attempts: 1,
+      status: 302,
+    });
+  });
+
+  it("retries network errors and server errors", async () => {
+    answers = [new Error("ECONNRESET"), 503, 200];
+
+    const delivery = await deliverCallback(
+      callbackUrl,
+      {},
+      { retryDelayMs: 0 },
+    );
+
+    expect(delivery).toMatchObject({ delivered: true, attempts: 3 });
+    expect(received).toHaveLength(3);
+  });
+
+  it("gives up on client errors and after the last attempt", async () => {
+    answers = [404];
+    expect(await deliverCallback(callbackUrl, {}, { retryDelayMs: 0 })).toEqual(
+      {
+        delivered: false,
+        attempts: 1,
+        status: 404,
+        error: "Callback answered with status 404",
+      },
+    );
+
+    answers = [500, 500];
+    expect(
+      await deliverCallback(callbackUrl, {}, { attempts: 2, retryDelayMs: 0 }),
+    ).toMatchObject({ delivered: false, attempts: 2, status: 500 });
+  });
+});
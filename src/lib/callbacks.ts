@@ -0,0 +1,264 @@
+/**
+ * Webhook Callbacks
+ *
+ * Delivery of results to client-supplied callback URLs (e.g. finished processing
+ * jobs). Deliveries are JSON POSTs, retried on network errors, 429 and 5xx answers.
+ *
+ * When `CALLBACK_SIGNING_SECRET` is set every delivery is signed, so receivers can
+ * check it came from us:
+ *
+ *   X-Fileadx-Signature: sha256=<hex HMAC-SHA256 of the raw body>
+ *
+ * Callback URLs come from any uploader, so they must not reach internal services:
+ * loopback, private, link-local, multicast, reserved and cloud metadata hosts are
+ * rejected (allowed in development, for local receivers), and redirects are not
+ * followed. With `CALLBACK_ALLOWED_HOSTS` set, only the listed hosts are accepted.
+ * At delivery the host is resolved again and, outside development, rejected when
+ * any of its addresses is internal (allowlisted hosts included); the request then
+ * connects to the checked address, so the name can't be re-pointed in between.
+ *
+ * @module callbacks
+ * @author Ahmed Kamal
+ */
+
+import { createHmac } from "node:crypto";
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { request as httpRequest, type OutgoingHttpHeaders } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+// Per-attempt timeout for callback requests
+const CALLBACK_TIMEOUT_MS = 10_000;
+
+// Internal names; IP literals are checked against PRIVATE_RANGES
+const PRIVATE_HOSTNAMES = /(^|\.)localhost$|^metadata\.google\.internal$/;
+
+// Loopback, private, carrier-grade NAT, link-local (incl. 169.254.169.254 cloud
+// metadata), benchmarking, multicast and reserved ranges
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+// IPv4-mapped IPv6 addresses; kept apart from PRIVATE_RANGES, where the rule would
+// match every IPv4 address
+const MAPPED_IPV4 = new BlockList();
+MAPPED_IPV4.addSubnet("::ffff:0:0", 96, "ipv6");
+
+/**
+ * Outcome of a callback delivery.
+ */
+export type CallbackDelivery = {
+  delivered: boolean;
+  attempts: number;
+  /** HTTP status of the last attempt, when the receiver answered */
+  status?: number;
+  /** Why the last attempt failed */
+  error?: string;
+};
+
+/**
+ * Validates a client-supplied callback URL.
+ *
+ * @param value - Callback URL as sent by the client
+ * @returns The normalized URL, or null unless it is an absolute http(s) URL of an
+ *   allowed host (see the module docs)
+ *
+ * @example
+ * parseCallbackUrl("https://crm.example.com/hooks/cards"); // "https://crm.example.com/hooks/cards"
+ * parseCallbackUrl("http://169.254.169.254/latest/meta-data"); // null
+ * parseCallbackUrl("file:///etc/passwd"); // null
+ */
+export function parseCallbackUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+  return isAllowedHost(url.hostname) ? url.toString() : null;
+}
+
+/**
+ * Checks a callback host against `CALLBACK_ALLOWED_HOSTS` (comma-separated host
+ * names, `*.example.com` for subdomains) or, without it, against internal hosts.
+ */
+function isAllowedHost(hostname: string): boolean {
+  // IPv6 literals keep their brackets; "localhost." resolves like "localhost"
+  const host = hostname.replace(/^\[|\]$/g, "").replace(/\.$/, "");
+
+  const allowed = (process.env.CALLBACK_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+  if (allowed.length > 0) {
+    return allowed.some((entry) =>
+      entry.startsWith("*.") ? host.endsWith(entry.slice(1)) : host === entry,
+    );
+  }
+
+  if (process.env.NODE_ENV === "development") return true;
+
+  if (isIP(host) === 0) return !PRIVATE_HOSTNAMES.test(host);
+  return !isInternalAddress(host);
+}
+
+/**
+ * Whether an IP address lies in one of the internal ranges.
+ */
+function isInternalAddress(address: string): boolean {
+  if (isIP(address) === 4) return PRIVATE_RANGES.check(address, "ipv4");
+  return (
+    MAPPED_IPV4.check(address, "ipv6") || PRIVATE_RANGES.check(address, "ipv6")
+  );
+}
+
+/**
+ * Resolves a callback host to the addresses to connect to.
+ *
+ * @returns The addresses, or an error message when any of them is internal (only
+ *   checked outside development, like the URL itself)
+ */
+async function resolveCallbackHost(
+  hostname: string,
+): Promise<LookupAddress[] | string> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = await lookup(host, { all: true });
+  if (process.env.NODE_ENV === "development") return addresses;
+
+  const internal = addresses.find(({ address }) => isInternalAddress(address));
+  return internal
+    ? `Callback host ${host} resolves to internal address ${internal.address}`
+    : addresses;
+}
+
+/**
+ * Posts a body to a URL, connecting to the given addresses instead of resolving the
+ * host again; the Host header and TLS server name stay the URL's host.
+ *
+ * @returns The HTTP status of the answer
+ */
+function post(
+  url: URL,
+  headers: OutgoingHttpHeaders,
+  body: string,
+  addresses: LookupAddress[],
+): Promise<number> {
+  const pinned: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  };
+  const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const request = send(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: pinned,
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode || 0);
+      },
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Posts a JSON payload to a callback URL, retrying failed attempts with
+ * exponential backoff. Redirects are not followed, and hosts resolving to an
+ * internal address are not retried.
+ *
+ * @param url - Callback URL (see `parseCallbackUrl`)
+ * @param payload - JSON body
+ * @param options - Number of attempts (default 3) and delay before the first retry
+ *   (default 1000ms, doubled for every further retry)
+ * @returns The delivery outcome; never throws
+ *
+ * @example
+ * const delivery = await deliverCallback(job.callback_url, { event: "job.completed", job });
+ * if (!delivery.delivered) console.warn(delivery.error);
+ */
+export async function deliverCallback(
+  url: string,
+  payload: unknown,
+  { attempts = 3, retryDelayMs = 1000 } = {},
+): Promise<CallbackDelivery> {
+  const body = JSON.stringify(payload);
+  const target = new URL(url);
+  const headers: OutgoingHttpHeaders = {
+    "Content-Type": "application/json",
+  };
+  const secret = process.env.CALLBACK_SIGNING_SECRET;
+  if (secret) {
+    headers["X-Fileadx-Signature"] =
+      `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+  }
+
+  let delivery: CallbackDelivery = { delivered: false, attempts: 0 };
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    if (attempt > 1) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, retryDelayMs * 2 ** (attempt - 2)),
+      );
+    }
+
+    try {
+      // Resolved again on every attempt; the request connects to exactly these
+      const addresses = await resolveCallbackHost(target.hostname);
+      if (typeof addresses === "string") {
+        return { delivered: false, attempts: attempt, error: addresses };
+      }
+
+      // Redirects (3xx) are answered as failures: they could point an allowed
+      // host at an internal one
+      const status = await post(target, headers, body, addresses);
+      if (status >= 200 && status < 300) {
+        return { delivered: true, attempts: attempt, status };
+      }
+
+      delivery = {
+        delivered: false,
+        attempts: attempt,
+        status,
+        error: `Callback answered with status ${status}`,
+      };
+      // Client errors won't go away on retry
+      if (status < 500 && status !== 429) break;
+    } catch (error) {
+      delivery = {
+        delivered: false,
+        attempts: attempt,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  return delivery;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  assessCapture,
+  cardFrameRegion,
+  measureGlare,
+  measureSharpness,
+  toGrayscale,
+} from "@/lib/capture";
+
+const WIDTH = 64;
+const HEIGHT = 40;
+
+// Grayscale test frame with the given value per pixel
+function frame(value: (x: number, y: number) => number) {
+  const gray = new Uint8ClampedArray(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) gray[y * WIDTH + x] = value(x, y);
+  }
+  return { gray, width: WIDTH, height: HEIGHT };
+}
+
+// Dark "text" strokes on a light card
+const text = frame((x, y) => (x % 6 < 2 && y % 8 < 5 ? 30 : 220));
+// The same card without any edges, as a heavily blurred photo
+const flat = frame(() => 180);
+
+const FULL_HD = { width: 1920, height: 1080 };
+
+describe("capture checks", () => {
+  it("fits the card frame into landscape and portrait frames", () => {
+    expect(cardFrameRegion(1920, 1080)).toEqual({
+      left: 158,
+      top: 54,
+      width: 1604,
+      height: 972,
+    });
+    expect(cardFrameRegion(720, 1280)).toEqual({
+      left: 54,
+      top: 455,
+      width: 612,
+      height: 371,
+    });
+  });
+
+  it("converts RGBA pixels to luma", () => {
+    expect(
+      Array.from(
+        toGrayscale(
+          new Uint8ClampedArray([255, 255, 255, 255, 255, 0, 0, 255]),
+        ),
+      ),
+    ).toEqual([255, 76]);
+  });
+
+  it("measures sharp edges and blown-out pixels", () => {
+    expect(measureSharpness(text.gray, WIDTH, HEIGHT)).toBeGreaterThan(1000);
+    expect(measureSharpness(flat.gray, WIDTH, HEIGHT)).toBe(0);
+    expect(measureGlare(frame((x) => (x < 16 ? 255 : 200)).gray)).toBe(0.25);
+  });
+
+  it("accepts sharp frames at the upload resolution", () => {
+    expect(assessCapture(FULL_HD, text).issues).toEqual([]);
+    // Portrait phone cameras meet the minimum in the other orientation
+    expect(assessCapture({ width: 720, height: 1280 }, text).issues).toEqual(
+      [],
+    );
+  });
+
+  it("reports low resolution, blur and glare", () => {
+    expect(assessCapture({ width: 640, height: 480 }, text).issues).toEqual([
+      "resolution",
+    ]);
+    expect(assessCapture(FULL_HD, flat).issues).toEqual(["blur"]);
+    expect(
+      assessCapture(
+        FULL_HD,
+        frame((x, y) => (x > 40 ? 255 : x % 6 < 2 && y % 8 < 5 ? 30 : 220)),
+      ).issues,
+    ).toEqual(["glare"]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Camera Capture Checks
+ *
+ * On-device quality checks of live camera frames, run by the upload page's camera
+ * mode before a card is shot, so reps retake bad photos on the spot instead of
+ * after an OCR round trip:
+ *
+ * - **Resolution**: the frame must meet `IMAGE_CONFIG.MIN_WIDTH`×`MIN_HEIGHT` in either
+ *   orientation, like the upload form and the server (see `resolutionError`)
+ * - **Blur**: variance of the Laplacian over the card frame, a standard focus measure
+ *   (sharp edges of printed text give a high variance)
+ * - **Glare**: share of blown-out pixels in the card frame, e.g. from a flash or
+ *   a lamp reflected on glossy card stock
+ *
+ * Frames are measured on a grayscale copy of the card frame scaled to
+ * `CAPTURE_CONFIG.ANALYSIS_WIDTH`, so the thresholds don't depend on the camera.
+ *
+ * @module capture
+ * @author Ahmed Kamal
+ */
+
+import {
+  CAPTURE_CONFIG,
+  IMAGE_CONFIG,
+  resolutionError,
+} from "@/lib/upload-limits";
+
+// Pixels at least this bright (0-255) count as glare
+const GLARE_LEVEL = 250;
+
+export type CaptureIssue = "resolution" | "blur" | "glare";
+
+/**
+ * Measured quality of a camera frame.
+ */
+export type CaptureQuality = {
+  /** Variance of the Laplacian of the card frame */
+  sharpness: number;
+  /** Share of blown-out pixels in the card frame (0-1) */
+  glare: number;
+  /** Failed checks; the frame can be shot when empty */
+  issues: CaptureIssue[];
+};
+
+/**
+ * Guidance shown for each failed check.
+ */
+export const CAPTURE_HINTS: Record<CaptureIssue, string> = {
+  resolution: `Camera resolution too low (minimum ${IMAGE_CONFIG.MIN_WIDTH}×${IMAGE_CONFIG.MIN_HEIGHT}px)`,
+  blur: "Hold steady and let the camera focus",
+  glare: "Tilt the card or move away from the light to avoid glare",
+};
+
+/**
+ * Region of a frame inside the card overlay: centered, `CAPTURE_CONFIG.CARD_ASPECT_RATIO`,
+ * 85% of the frame width (less when the frame is too flat for it).
+ *
+ * @param width - Frame width
+ * @param height - Frame height
+ * @returns The region in frame pixels
+ *
+ * @example
+ * cardFrameRegion(1920, 1080); // { left: 158, top: 54, width: 1604, height: 972 }
+ */
+export function cardFrameRegion(width: number, height: number) {
+  let regionWidth = width * 0.85;
+  let regionHeight = regionWidth / CAPTURE_CONFIG.CARD_ASPECT_RATIO;
+  if (regionHeight > height * 0.9) {
+    regionHeight = height * 0.9;
+    regionWidth = regionHeight * CAPTURE_CONFIG.CARD_ASPECT_RATIO;
+  }
+  return {
+    left: Math.round((width - regionWidth) / 2),
+    top: Math.round((height - regionHeight) / 2),
+    width: Math.round(regionWidth),
+    height: Math.round(regionHeight),
+  };
+}
+
+/**
+ * Converts RGBA pixels (as read from a canvas) to grayscale luma.
+ */
+export function toGrayscale(rgba: Uint8ClampedArray): Uint8ClampedArray {
+  const gray = new Uint8ClampedArray(rgba.length / 4);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] =
+      0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return gray;
+}
+
+/**
+ * Variance of the 4-neighbour Laplacian of a grayscale image; low values mean blur.
+ */
+export function measureSharpness(
+  gray: Uint8ClampedArray,
+  width: number,
+  height: number,
+): number {
+  let sum = 0;
+  let sumOfSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian =
+        gray[i - width] +
+        gray[i + width] +
+        gray[i - 1] +
+        gray[i + 1] -
+        4 * gray[i];
+      sum += laplacian;
+      sumOfSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumOfSquares / count - mean * mean;
+}
+
+/**
+ * Share of blown-out pixels of a grayscale image (0-1).
+ */
+export function measureGlare(gray: Uint8ClampedArray): number {
+  if (gray.length === 0) return 0;
+  let blown = 0;
+  for (const value of gray) {
+    if (value >= GLARE_LEVEL) blown++;
+  }
+  return blown / gray.length;
+}
+
+/**
+ * Checks a camera frame before it is shot.
+ *
+ * @param frame - Full frame size, as captured
+ * @param card - Grayscale card frame region, scaled to `CAPTURE_CONFIG.ANALYSIS_WIDTH`
+ * @returns Measurements and failed checks
+ *
+ * @example
+ * const quality = assessCapture(
+ *   { width: video.videoWidth, height: video.videoHeight },
+ *   { gray: toGrayscale(pixels.data), width: pixels.width, height: pixels.height },
+ * );
+ * if (quality.issues.length === 0) shoot();
+ */
+export function assessCapture(
+  frame: { width: number; height: number },
+  card: { gray: Uint8ClampedArray; width: number; height: number },
+): CaptureQuality {
+  const sharpness = measureSharpness(card.gray, card.width, card.height);
+  const glare = measureGlare(card.gray);
+
+  const issues: CaptureIssue[] = [];
+  if (resolutionError(frame.width, frame.height)) {
+    issues.push("resolution");
+  }
+  if (sharpness < CAPTURE_CONFIG.MIN_SHARPNESS) issues.push("blur");
+  if (glare > CAPTURE_CONFIG.MAX_GLARE_RATIO) issues.push("glare");
+
+  return { sharpness, glare, issues };
+}
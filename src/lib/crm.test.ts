@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildCRMPayload, syncLeads, triggerCRMSync } from "@/lib/crm";
+import { createStageTracker } from "@/lib/progress";
+import type { LeadData } from "@/models/lead";
+
+const lead: LeadData = {
+  name: "Priya Raman",
+  phone: "+19175550123",
+  phones: [
+    {
+      type: "office",
+      e164: "+12127365000",
+      display: "+1 212 736 5000",
+      extension: "204",
+      primary: false,
+    },
+    {
+      type: "fax",
+      e164: "+12127365001",
+      display: "+1 212 736 5001",
+      primary: false,
+    },
+    {
+      type: "mobile",
+      e164: "+19175550123",
+      display: "+1 917 555 0123",
+      primary: true,
+    },
+  ],
+};
+
+describe("buildCRMPayload", () => {
+  it("maps phone types onto the provider's contact properties", () => {
+    expect(buildCRMPayload(lead, "hubspot")).toMatchObject({
+      phone: "+12127365000 ext. 204",
+      mobilephone: "+19175550123",
+      fax: "+12127365001",
+    });
+    expect(buildCRMPayload(lead, "salesforce")).toMatchObject({
+      Phone: "+12127365000 ext. 204",
+      MobilePhone: "+19175550123",
+      Fax: "+12127365001",
+    });
+  });
+
+  it("maps the name parts onto the provider's name properties", () => {
+    const doctor: LeadData = {
+      name: "Dr. Mary Ann van der Berg, PhD",
+      name_prefix: "Dr.",
+      name_first: "Mary",
+      name_middle: "Ann",
+      name_last: "van der Berg",
+      name_suffix: "PhD",
+    };
+
+    expect(buildCRMPayload(doctor, "salesforce")).toMatchObject({
+      Salutation: "Dr.",
+      FirstName: "Mary",
+      MiddleName: "Ann",
+      LastName: "van der Berg",
+      Suffix: "PhD",
+    });
+    expect(buildCRMPayload(doctor, "hubspot")).toEqual({
+      salutation: "Dr.",
+      firstname: "Mary",
+      lastname: "van der Berg",
+    });
+  });
+
+  it("parses the name of leads stored without name parts", () => {
+    expect(buildCRMPayload(lead, "dynamics")).toMatchObject({
+      firstname: "Priya",
+      lastname: "Raman",
+    });
+  });
+
+  it("maps the address onto the provider's mailing address fields", () => {
+    expect(
+      buildCRMPayload(
+        {
+          address_street: "1 Canada Square",
+          address_city: "London",
+          address_postal_code: "E14 5AB",
+          address_country: "GB",
+        },
+        "salesforce",
+      ),
+    ).toMatchObject({
+      MailingStreet: "1 Canada Square",
+      MailingCity: "London",
+      MailingPostalCode: "E14 5AB",
+      MailingCountry: "GB",
+    });
+  });
+
+  it("maps social profiles onto the provider's social properties", () => {
+    const social: LeadData = {
+      social_profiles: [
+        {
+          network: "linkedin",
+          handle: "jane-doe",
+          url: "https://www.linkedin.com/in/jane-doe",
+        },
+        { network: "x", handle: "@janedoe", url: "https://x.com/janedoe" },
+        {
+          network: "github",
+          handle: "janedoe",
+          url: "https://github.com/janedoe",
+        },
+      ],
+    };
+
+    expect(buildCRMPayload(social, "hubspot")).toEqual({
+      hs_linkedin_url: "https://www.linkedin.com/in/jane-doe",
+      twitterhandle: "@janedoe",
+    });
+    expect(buildCRMPayload(social, "salesforce")).toMatchObject({
+      LinkedIn__c: "https://www.linkedin.com/in/jane-doe",
+      Twitter__c: "@janedoe",
+    });
+  });
+
+  it("treats the phone of leads without a phone list as office number", () => {
+    expect(
+      buildCRMPayload({ phone: "+12127365000" }, "dynamics"),
+    ).toMatchObject({ telephone1: "+12127365000" });
+  });
+});
+
+describe("triggerCRMSync", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("reports the outcome of the sync endpoint", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(
+          Response.json({ success: true, message: "Lead synced to HubSpot" }),
+        )
+        .mockResolvedValueOnce(
+          Response.json({
+            success: false,
+            message: "Rate limited, retry scheduled",
+          }),
+        )
+        .mockRejectedValueOnce(new Error("fetch failed")),
+    );
+
+    expect(await triggerCRMSync("lead-1")).toEqual({
+      success: true,
+      message: "Lead synced to HubSpot",
+    });
+    expect(await triggerCRMSync("lead-1")).toEqual({
+      success: false,
+      message: "Rate limited, retry scheduled",
+    });
+    expect(await triggerCRMSync("lead-1")).toEqual({
+      success: false,
+      message: "fetch failed",
+    });
+  });
+});
+
+describe("syncLeads", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("reports failed syncs while stages are reported", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValueOnce(Response.json({ success: true }))
+        .mockResolvedValueOnce(
+          Response.json(
+            { success: false, message: "CRM sync failed" },
+            { status: 500 },
+          ),
+        ),
+    );
+    const onEvent = vi.fn();
+
+    await syncLeads(["lead-1", "lead-2"], createStageTracker(onEvent));
+
+    expect(onEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        stage: "crm_sync",
+        status: "failed",
+        message: "1 of 2 leads failed to sync: CRM sync failed",
+      }),
+    );
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * CRM Sync Trigger
+ *
+ * Shared entry point used by the processing pipeline to hand newly persisted
+ * leads over to the CRM integration endpoint, and the mapping of lead data onto
+ * CRM contact properties.
+ *
+ * @module crm
+ * @author Ahmed Kamal
+ */
+
+import { nameFields } from "@/lib/normalization";
+import type { StageTracker } from "@/lib/progress";
+import type {
+  LeadData,
+  LeadPhone,
+  PhoneType,
+  SocialNetwork,
+} from "@/models/lead";
+
+type NameField = keyof ReturnType<typeof nameFields>;
+
+// Contact properties each CRM uses for the parts of a person's name
+const CRM_NAME_PROPERTIES: Record<
+  string,
+  Partial<Record<NameField, string>>
+> = {
+  // HubSpot has no standard middle name or suffix property
+  hubspot: {
+    name_prefix: "salutation",
+    name_first: "firstname",
+    name_last: "lastname",
+  },
+  salesforce: {
+    name_prefix: "Salutation",
+    name_first: "FirstName",
+    name_middle: "MiddleName",
+    name_last: "LastName",
+    name_suffix: "Suffix",
+  },
+  dynamics: {
+    name_prefix: "salutation",
+    name_first: "firstname",
+    name_middle: "middlename",
+    name_last: "lastname",
+    name_suffix: "suffix",
+  },
+};
+
+// Contact properties each CRM uses for the different kinds of phone numbers
+const CRM_PHONE_PROPERTIES: Record<
+  string,
+  Record<Exclude<PhoneType, "other">, string>
+> = {
+  hubspot: { office: "phone", mobile: "mobilephone", fax: "fax" },
+  salesforce: { office: "Phone", mobile: "MobilePhone", fax: "Fax" },
+  dynamics: { office: "telephone1", mobile: "mobilephone", fax: "fax" },
+};
+
+// Contact properties each CRM uses for the structured postal address
+const CRM_ADDRESS_PROPERTIES: Record<
+  string,
+  Record<
+    | "address_street"
+    | "address_city"
+    | "address_region"
+    | "address_postal_code"
+    | "address_country",
+    string
+  >
+> = {
+  hubspot: {
+    address_street: "address",
+    address_city: "city",
+    address_region: "state",
+    address_postal_code: "zip",
+    address_country: "country",
+  },
+  salesforce: {
+    address_street: "MailingStreet",
+    address_city: "MailingCity",
+    address_region: "MailingState",
+    address_postal_code: "MailingPostalCode",
+    address_country: "MailingCountry",
+  },
+  dynamics: {
+    address_street: "address1_line1",
+    address_city: "address1_city",
+    address_region: "address1_stateorprovince",
+    address_postal_code: "address1_postalcode",
+    address_country: "address1_country",
+  },
+};
+
+// Contact properties each CRM uses for social profiles, and whether they hold the
+// profile URL or the handle; networks without a property are not synced
+const CRM_SOCIAL_PROPERTIES: Record<
+  string,
+  Partial<Record<SocialNetwork, { property: string; value: "url" | "handle" }>>
+> = {
+  hubspot: {
+    linkedin: { property: "hs_linkedin_url", value: "url" },
+    x: { property: "twitterhandle", value: "handle" },
+    whatsapp: { property: "hs_whatsapp_phone_number", value: "handle" },
+  },
+  // Salesforce and Dynamics have no standard social fields; custom fields are used
+  salesforce: {
+    linkedin: { property: "LinkedIn__c", value: "url" },
+    x: { property: "Twitter__c", value: "handle" },
+    whatsapp: { property: "WhatsApp__c", value: "handle" },
+    telegram: { property: "Telegram__c", value: "handle" },
+  },
+  dynamics: {
+    linkedin: { property: "new_linkedinurl", value: "url" },
+    x: { property: "new_twitterhandle", value: "handle" },
+    whatsapp: { property: "new_whatsappnumber", value: "handle" },
+    telegram: { property: "new_telegramhandle", value: "handle" },
+  },
+};
+
+/**
+ * Outcome of a CRM sync attempt.
+ */
+export type CRMSyncResult = {
+  success: boolean;
+  message: string;
+};
+
+/**
+ * Asynchronous CRM Integration Trigger
+ *
+ * Initiates CRM synchronization for newly processed leads. The pipeline either
+ * awaits the outcome (when the upload page follows progress) or uses a
+ * fire-and-forget pattern to avoid blocking the main response.
+ *
+ * Production Implementation Notes:
+ * - In production, this should use a proper message queue (Redis, AWS SQS)
+ * - Implement retry logic with exponential backoff
+ * - Add monitoring and alerting for sync failures
+ * - Consider batch processing for high-volume scenarios
+ *
+ * Current Implementation:
+ * - Makes HTTP call to internal CRM sync endpoint
+ * - Errors are logged and reported in the result but don't affect main pipeline
+ * - Suitable for demo and low-volume production use
+ *
+ * @param leadId - UUID of the lead to sync to CRM
+ * @returns The sync outcome; never throws
+ *
+ * @example
+ * // Usage in main pipeline:
+ * const { success, message } = await triggerCRMSync(lead.id);
+ */
+export async function triggerCRMSync(leadId: string): Promise<CRMSyncResult> {
+  try {
+    // In production, replace with actual CRM integration (Salesforce, HubSpot, etc.)
+    const response = await fetch(
+      `${process.env.NEXT_PUBLIC_APP_URL}/api/crm-sync`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ leadId }),
+      },
+    );
+
+    // Rate-limited syncs are answered with 200 and success: false
+    const body = await response.json().catch(() => null);
+    if (!response.ok || !body?.success) {
+      throw new Error(
+        body?.message || `CRM sync failed with status: ${response.status}`,
+      );
+    }
+
+    console.log(`CRM sync successful for lead ${leadId}`);
+    return { success: true, message: body.message || "Lead synced to CRM" };
+  } catch (error) {
+    console.error(`CRM sync failed for lead ${leadId}:`, error);
+    // In production: send to error monitoring service (Sentry, DataDog)
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : "CRM sync failed",
+    };
+  }
+}
+
+/**
+ * Runs the `crm_sync` stage for stored leads. While stages are reported the syncs
+ * are awaited and their outcome reported; otherwise they are triggered in the
+ * background, so (mock) CRM failures don't hold up the response.
+ *
+ * @param leadIds - UUIDs of the leads to sync
+ * @param progress - Stage tracker of the request
+ *
+ * @example
+ * await syncLeads([lead.id], progress);
+ */
+export async function syncLeads(
+  leadIds: string[],
+  progress: StageTracker,
+): Promise<void> {
+  progress.start("crm_sync");
+  console.log("Triggering CRM sync...");
+  if (!progress.reporting) {
+    for (const id of leadIds) void triggerCRMSync(id);
+    progress.complete("Triggered in background");
+    return;
+  }
+
+  const results = await Promise.all(leadIds.map(triggerCRMSync));
+  const failed = results.filter((result) => !result.success);
+  if (failed.length === 0) {
+    progress.complete(
+      results.length > 1
+        ? `${results.length} leads synced to CRM`
+        : results[0].message,
+    );
+  } else if (results.length === 1) {
+    progress.fail(failed[0].message);
+  } else {
+    progress.fail(
+      `${failed.length} of ${results.length} leads failed to sync: ${failed[0].message}`,
+    );
+  }
+}
+
+/**
+ * Builds the contact payload sent to a CRM for a lead.
+ *
+ * Name parts are mapped onto the provider's name properties; leads stored before
+ * name parts existed have them parsed from `name`. Phone numbers are mapped by type
+ * onto the provider's contact properties (e.g. HubSpot `phone`/`mobilephone`/`fax`).
+ * Untyped numbers fill the office slot when it is free, and leads stored before
+ * phone lists existed use `phone` as office.
+ * The structured address is mapped onto the provider's mailing address fields,
+ * and social profiles onto the provider's social properties (first profile per
+ * network).
+ *
+ * @param lead - Stored lead
+ * @param provider - CRM provider key ("hubspot", "salesforce", "dynamics")
+ * @returns Contact payload
+ *
+ * @example
+ * buildCRMPayload(lead, "salesforce");
+ * // { email: "...", FirstName: "Jane", ..., Phone: "+12127365000", MobilePhone: "+19175550123" }
+ */
+export function buildCRMPayload(
+  lead: LeadData,
+  provider: string,
+): Record<string, string | undefined> {
+  const payload: Record<string, string | undefined> = {
+    email: lead.email,
+    company: lead.company,
+    jobTitle: lead.job_title,
+    website: lead.website,
+  };
+
+  const nameProperties =
+    CRM_NAME_PROPERTIES[provider] || CRM_NAME_PROPERTIES.hubspot;
+  const nameParts =
+    lead.name_first || lead.name_last ? lead : nameFields(lead.name);
+  for (const [field, property] of Object.entries(nameProperties)) {
+    const value = nameParts[field as NameField];
+    if (value) payload[property] = value;
+  }
+
+  const properties =
+    CRM_PHONE_PROPERTIES[provider] || CRM_PHONE_PROPERTIES.hubspot;
+  const phones: LeadPhone[] =
+    lead.phones ||
+    (lead.phone
+      ? [
+          {
+            type: "office",
+            e164: lead.phone,
+            display: lead.phone_display || lead.phone,
+            extension: lead.phone_extension,
+            primary: true,
+          },
+        ]
+      : []);
+
+  // Primary number first so it wins its slot over other numbers of the same type
+  const ordered = [...phones].sort(
+    (a, b) => Number(b.primary) - Number(a.primary),
+  );
+  for (const type of ["mobile", "office", "fax"] as const) {
+    const phone = ordered.find((candidate) => candidate.type === type);
+    if (phone) payload[properties[type]] = formatCRMPhone(phone);
+  }
+
+  const untyped = ordered.find((candidate) => candidate.type === "other");
+  if (untyped && !payload[properties.office]) {
+    payload[properties.office] = formatCRMPhone(untyped);
+  }
+
+  const addressProperties =
+    CRM_ADDRESS_PROPERTIES[provider] || CRM_ADDRESS_PROPERTIES.hubspot;
+  for (const [field, property] of Object.entries(addressProperties)) {
+    const value = lead[field as keyof typeof addressProperties];
+    if (value) payload[property] = value;
+  }
+
+  const socialProperties =
+    CRM_SOCIAL_PROPERTIES[provider] || CRM_SOCIAL_PROPERTIES.hubspot;
+  for (const profile of lead.social_profiles || []) {
+    const mapping = socialProperties[profile.network];
+    if (mapping && !payload[mapping.property]) {
+      payload[mapping.property] = profile[mapping.value];
+    }
+  }
+
+  return payload;
+}
+
+function formatCRMPhone(phone: LeadPhone): string {
+  return phone.extension ? `${phone.e164} ext. ${phone.extension}` : phone.e164;
+}
@@ -0,0 +1,193 @@
+import sharp from "sharp";
+import { describe, expect, it, vi } from "vitest";
+import {
+  cropImage,
+  detectTextRotation,
+  preprocessImage,
+  recognizeImage,
+} from "@/lib/image";
+import type { OcrProvider, OcrResult, TextSegment } from "@/lib/ocr";
+
+// A white card with bars for text lines on a grey table, optionally tilted clockwise
+function cardPhoto(tilt = 0) {
+  const lines = [0, 1, 2, 3, 4]
+    .map(
+      (line) =>
+        `<rect x="220" y="${190 + line * 45}" width="${360 - line * 40}" height="18" fill="#111111"/>`,
+    )
+    .join("");
+  return sharp(
+    Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600">
+        <rect width="800" height="600" fill="#707070"/>
+        <g transform="rotate(${tilt} 400 300)">
+          <rect x="150" y="150" width="500" height="300" fill="#ffffff"/>
+          ${lines}
+        </g>
+      </svg>`,
+    ),
+  );
+}
+
+function word(text: string, vertices: [number, number][]): TextSegment {
+  return {
+    text,
+    confidence: 1,
+    boundingBox: { vertices: vertices.map(([x, y]) => ({ x, y })) },
+  };
+}
+
+describe("preprocessImage", () => {
+  it("crops the photo to the card", async () => {
+    const photo = await cardPhoto().png().toBuffer();
+
+    const result = await preprocessImage(photo);
+
+    expect(result.width).toBeCloseTo(500, -1);
+    expect(result.height).toBeCloseTo(300, -1);
+    expect(result.steps).toContain("cropped to card at 150,150 (500×300)");
+  });
+
+  it("applies the EXIF orientation", async () => {
+    const photo = await cardPhoto()
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+
+    const result = await preprocessImage(photo);
+
+    expect(result.steps[0]).toBe("EXIF orientation 6 applied");
+    expect(result.height).toBeGreaterThan(result.width);
+  });
+
+  it("straightens tilted text lines", async () => {
+    const photo = await cardPhoto(6).png().toBuffer();
+
+    const { steps } = await preprocessImage(photo);
+
+    const deskew = steps.find((step) => step.startsWith("deskewed"));
+    expect(parseFloat(deskew!.replace("deskewed ", ""))).toBeCloseTo(-6, 0);
+  });
+
+  it("leaves straight cards unrotated", async () => {
+    const { steps } = await preprocessImage(await cardPhoto().png().toBuffer());
+
+    expect(steps.some((step) => step.startsWith("deskewed"))).toBe(false);
+  });
+
+  it("downsizes oversized photos", async () => {
+    const photo = await cardPhoto().resize(4000).png().toBuffer();
+
+    const { steps } = await preprocessImage(photo);
+
+    expect(steps).toContain("downsized from 4000×3000");
+  });
+});
+
+describe("detectTextRotation", () => {
+  it("reads upright boxes as unrotated", () => {
+    expect(
+      detectTextRotation([
+        word("Jane", [
+          [10, 10],
+          [60, 10],
+          [60, 30],
+          [10, 30],
+        ]),
+      ]),
+    ).toBe(0);
+  });
+
+  it("detects upside-down and sideways text from the vertex order", () => {
+    expect(
+      detectTextRotation([
+        word("Jane", [
+          [60, 30],
+          [10, 30],
+          [10, 10],
+          [60, 10],
+        ]),
+      ]),
+    ).toBe(180);
+    expect(
+      detectTextRotation([
+        word("Jane", [
+          [30, 10],
+          [30, 60],
+          [10, 60],
+          [10, 10],
+        ]),
+      ]),
+    ).toBe(90);
+  });
+});
+
+describe("recognizeImage", () => {
+  function ocrResult(textSegments: TextSegment[]): OcrResult {
+    return {
+      fullText: "Jane",
+      confidence: 0.9,
+      textSegments,
+      wordCount: textSegments.length,
+    };
+  }
+
+  it("reads upside-down cards again after turning them upright", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    const upright = word("Jane", [
+      [10, 10],
+      [60, 10],
+      [60, 30],
+      [10, 30],
+    ]);
+    const extractText = vi
+      .fn()
+      .mockResolvedValueOnce(
+        ocrResult([
+          word("Jane", [
+            [60, 30],
+            [10, 30],
+            [10, 10],
+            [60, 10],
+          ]),
+        ]),
+      )
+      .mockResolvedValueOnce(ocrResult([upright]));
+    const ocr: OcrProvider = { name: "fake", extractText };
+    const photo = await cardPhoto().jpeg().toBuffer();
+
+    const {
+      ocrResult: result,
+      image,
+      preprocessing,
+    } = await recognizeImage(
+      { buffer: photo, contentType: "image/jpeg" },
+      ocr,
+      ["en"],
+    );
+
+    expect(extractText).toHaveBeenCalledTimes(2);
+    expect(extractText).toHaveBeenLastCalledWith(image.buffer, {
+      languageHints: ["en"],
+    });
+    expect(result.textSegments).toEqual([upright]);
+    expect(image.contentType).toBe("image/jpeg");
+    expect(preprocessing).toContain("rotated 180° to upright text");
+    log.mockRestore();
+  });
+});
+
+describe("cropImage", () => {
+  it("clamps the crop box to the image", async () => {
+    const photo = await cardPhoto().png().toBuffer();
+
+    const { box } = await cropImage(photo, {
+      left: -20,
+      top: 100,
+      right: 900,
+      bottom: 400,
+    });
+
+    expect(box).toEqual({ left: 0, top: 100, right: 800, bottom: 400 });
+  });
+});
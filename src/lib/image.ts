@@ -0,0 +1,373 @@
+/**
+ * Image Utilities
+ *
+ * Local image operations on uploaded card photos (sharp), applied before OCR.
+ *
+ * Preprocessing Stages:
+ * 1. **Orientation**: the EXIF orientation of phone photos is applied
+ * 2. **Downsizing**: photos larger than 2400px are scaled down (OCR gains nothing
+ *    from 12MP photos, uploads and memory do)
+ * 3. **Card crop**: a uniform background around the card (table, desk) is trimmed
+ * 4. **Deskew**: the tilt of the text lines is measured from a projection profile of
+ *    the dark pixels and straightened
+ * 5. **Contrast**: the luminance range is stretched for faint or underexposed photos
+ *
+ * Right-angle and upside-down photos are detected afterwards from the orientation of
+ * the OCR word boxes (see `detectTextRotation`), which is more reliable than any
+ * local image heuristic. `recognizeImage` runs both around OCR, for the upload
+ * pipeline and the benchmark alike.
+ *
+ * @module image
+ * @author Ahmed Kamal
+ */
+
+import sharp from "sharp";
+import type { OcrProvider, OcrResult, TextSegment } from "@/lib/ocr";
+import type { Rect } from "@/lib/normalization";
+
+/**
+ * Longest side of a preprocessed image; larger uploads are downsized to it.
+ */
+export const MAX_DIMENSION = 2400;
+
+// Background tolerance of the card crop, and the smallest share of the image the
+// card may cover (smaller crops trimmed into the card itself and are discarded)
+const CROP_THRESHOLD = 30;
+const MIN_CROP_AREA = 0.2;
+
+// Deskew search range and resolution in degrees, and the analysis image size
+const MAX_SKEW = 15;
+const SKEW_STEP = 0.5;
+const SKEW_ANALYSIS_SIZE = 600;
+
+/**
+ * An image prepared for OCR.
+ */
+export type PreprocessedImage = {
+  /** Preprocessed image, JPEG encoded; OCR coordinates refer to this image */
+  buffer: Buffer;
+  width: number;
+  height: number;
+  /** Applied stages for debugging, e.g. "deskewed -3.5°" */
+  steps: string[];
+};
+
+/**
+ * Encoded image with its MIME type, as uploaded or after preprocessing.
+ */
+export type CardImage = { buffer: Buffer; contentType: string };
+
+type RawImage = { data: Buffer; info: sharp.OutputInfo };
+
+/**
+ * A crop of a larger image.
+ */
+export type ImageCrop = {
+  /** Cropped image, JPEG encoded */
+  buffer: Buffer;
+  /** Crop box in pixel coordinates of the source image, clamped to its size */
+  box: Rect;
+};
+
+/**
+ * Crops a region out of an image.
+ *
+ * The box is in the coordinates OCR reported for the image (its stored pixel
+ * orientation), so the EXIF orientation is deliberately not applied.
+ *
+ * @param imageBuffer - Buffer containing the image data (JPEG, PNG, WebP, ...)
+ * @param rect - Region to crop; parts outside the image are cut off
+ * @returns The cropped image and its effective box
+ *
+ * @example
+ * const { buffer, box } = await cropImage(photo, { left: 40, top: 60, right: 640, bottom: 400 });
+ */
+export async function cropImage(
+  imageBuffer: Buffer,
+  rect: Rect,
+): Promise<ImageCrop> {
+  const { width = 0, height = 0 } = await sharp(imageBuffer).metadata();
+  const box = {
+    left: Math.max(0, Math.min(Math.round(rect.left), width - 1)),
+    top: Math.max(0, Math.min(Math.round(rect.top), height - 1)),
+    right: Math.max(1, Math.min(Math.round(rect.right), width)),
+    bottom: Math.max(1, Math.min(Math.round(rect.bottom), height)),
+  };
+
+  const buffer = await sharp(imageBuffer)
+    .extract({
+      left: box.left,
+      top: box.top,
+      width: Math.max(1, box.right - box.left),
+      height: Math.max(1, box.bottom - box.top),
+    })
+    .jpeg({ quality: 92 })
+    .toBuffer();
+
+  return { buffer, box };
+}
+
+/**
+ * Prepares an uploaded card photo for OCR: applies the EXIF orientation, downsizes,
+ * crops to the card, deskews and boosts contrast.
+ *
+ * @param imageBuffer - Buffer containing the image data (JPEG, PNG, WebP, ...)
+ * @returns The preprocessed image and the stages that changed it
+ *
+ * @example
+ * const { buffer, steps } = await preprocessImage(photo);
+ * // steps: ["EXIF orientation 6 applied", "downsized from 3024×4032", "deskewed 2.5°", ...]
+ */
+export async function preprocessImage(
+  imageBuffer: Buffer,
+): Promise<PreprocessedImage> {
+  const steps: string[] = [];
+  const { orientation = 1 } = await sharp(imageBuffer).metadata();
+
+  // Orientation and downsizing
+  const oriented = await sharp(imageBuffer).rotate().toBuffer({
+    resolveWithObject: true,
+  });
+  if (orientation > 1) steps.push(`EXIF orientation ${orientation} applied`);
+  let image = await toRaw(
+    sharp(oriented.data)
+      .flatten({ background: "#ffffff" })
+      .resize(MAX_DIMENSION, MAX_DIMENSION, {
+        fit: "inside",
+        withoutEnlargement: true,
+      }),
+  );
+  if (image.info.width < oriented.info.width) {
+    steps.push(`downsized from ${oriented.info.width}×${oriented.info.height}`);
+  }
+
+  // Card crop: trims the background colour of the top-left corner
+  try {
+    const trimmed = await toRaw(
+      fromRaw(image).trim({ threshold: CROP_THRESHOLD }),
+    );
+    const area = trimmed.info.width * trimmed.info.height;
+    if (
+      area < image.info.width * image.info.height &&
+      area >= MIN_CROP_AREA * image.info.width * image.info.height
+    ) {
+      steps.push(
+        `cropped to card at ${-(trimmed.info.trimOffsetLeft || 0)},${-(trimmed.info.trimOffsetTop || 0)} (${trimmed.info.width}×${trimmed.info.height})`,
+      );
+      image = trimmed;
+    }
+  } catch {
+    // Uniform images have nothing to trim
+  }
+
+  const skew = await estimateSkew(image);
+  if (skew !== 0) {
+    image = await toRaw(
+      fromRaw(image).rotate(-skew, { background: "#ffffff" }),
+    );
+    steps.push(`deskewed ${-skew}°`);
+  }
+
+  const { data: buffer, info } = await fromRaw(image)
+    .normalise()
+    .jpeg({ quality: 90 })
+    .toBuffer({ resolveWithObject: true });
+  steps.push("contrast normalized");
+
+  return { buffer, width: info.width, height: info.height, steps };
+}
+
+/**
+ * Rotates an image clockwise by a multiple of 90 degrees.
+ *
+ * @param imageBuffer - Buffer containing the image data
+ * @param angle - Clockwise rotation in degrees (90, 180 or 270)
+ * @returns The rotated image, JPEG encoded
+ */
+export async function rotateImage(
+  imageBuffer: Buffer,
+  angle: number,
+): Promise<Buffer> {
+  return sharp(imageBuffer).rotate(angle).jpeg({ quality: 90 }).toBuffer();
+}
+
+/**
+ * Detects sideways or upside-down text from the OCR word boxes.
+ *
+ * Providers that report rotated boxes (Google Vision) list the vertices starting at the
+ * top-left corner of the word as read, so the direction from the first to the second
+ * vertex is the reading direction. Axis-aligned boxes always read as upright.
+ *
+ * @param textSegments - Word-level OCR segments
+ * @returns Clockwise rotation of the text in degrees (0, 90, 180 or 270); rotate the
+ *   image by `(360 - rotation) % 360` to make it upright
+ *
+ * @example
+ * detectTextRotation(segmentsOfUpsideDownCard); // 180
+ */
+export function detectTextRotation(textSegments: TextSegment[]): number {
+  // Votes per quarter turn, weighted by word length
+  const votes = [0, 0, 0, 0];
+  for (const segment of textSegments) {
+    const [first, second] = segment.boundingBox?.vertices || [];
+    if (!first || !second) continue;
+    const dx = second.x - first.x;
+    const dy = second.y - first.y;
+    if (dx === 0 && dy === 0) continue;
+
+    const angle = (Math.atan2(dy, dx) * 180) / Math.PI;
+    votes[(Math.round(angle / 90) + 4) % 4] += segment.text.length;
+  }
+
+  const best = votes.indexOf(Math.max(...votes));
+  return votes[best] > 0 ? best * 90 : 0;
+}
+
+/**
+ * Preprocesses an image and runs OCR on it. Text the OCR reads sideways or upside
+ * down is turned upright and read again.
+ *
+ * Images the preprocessing cannot decode are passed to OCR unchanged; the OCR
+ * provider reports its own errors for them.
+ *
+ * @param image - Card image as uploaded
+ * @param ocr - OCR provider to read the image with
+ * @param languageHints - OCR language hints (see `resolveLanguageHints`)
+ * @returns The OCR result, the image it refers to and the applied preprocessing steps
+ *
+ * @example
+ * const { ocrResult, image } = await recognizeImage(upload, getOcrProvider(), ["en"]);
+ */
+export async function recognizeImage(
+  image: CardImage,
+  ocr: OcrProvider,
+  languageHints: string[] = [],
+): Promise<{
+  ocrResult: OcrResult;
+  image: CardImage;
+  preprocessing: string[];
+}> {
+  const preprocessing: string[] = [];
+  try {
+    const preprocessed = await preprocessImage(image.buffer);
+    image = { buffer: preprocessed.buffer, contentType: "image/jpeg" };
+    preprocessing.push(...preprocessed.steps);
+  } catch (error) {
+    console.warn("Image preprocessing failed, using the original:", error);
+  }
+
+  let ocrResult = await ocr.extractText(image.buffer, { languageHints });
+  const rotation = detectTextRotation(ocrResult.textSegments);
+  if (rotation !== 0) {
+    console.log(`Text reads rotated by ${rotation}°, turning upright...`);
+    image = {
+      buffer: await rotateImage(image.buffer, 360 - rotation),
+      contentType: "image/jpeg",
+    };
+    preprocessing.push(`rotated ${360 - rotation}° to upright text`);
+    ocrResult = await ocr.extractText(image.buffer, { languageHints });
+  }
+
+  return { ocrResult, image, preprocessing };
+}
+
+/**
+ * Estimates the clockwise tilt of the text lines: the dark pixels are projected onto
+ * the vertical axis at each candidate angle, and the angle whose profile has the
+ * sharpest peaks (text lines and the gaps between them) wins.
+ *
+ * @returns Tilt in degrees, 0 when the image is straight or the tilt is unclear
+ */
+async function estimateSkew(image: RawImage): Promise<number> {
+  const { data, info } = await toRaw(
+    fromRaw(image)
+      .grayscale()
+      .resize(SKEW_ANALYSIS_SIZE, SKEW_ANALYSIS_SIZE, { fit: "inside" }),
+  );
+  const { width, height } = info;
+
+  // Ink pixels: the darker side of the Otsu threshold (the lighter side on
+  // light-on-dark cards, where it is the minority)
+  const threshold = otsuThreshold(data);
+  let dark = 0;
+  for (const value of data) if (value < threshold) dark++;
+  const inkIsDark = dark <= data.length / 2;
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let index = 0; index < data.length; index++) {
+    if (data[index] < threshold === inkIsDark) {
+      xs.push(index % width);
+      ys.push(Math.floor(index / width));
+    }
+  }
+  if (xs.length === 0) return 0;
+
+  const offset = width + height;
+  const profileScore = (angle: number) => {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const bins = new Int32Array(2 * offset + 1);
+    for (let index = 0; index < xs.length; index++) {
+      bins[Math.round(ys[index] * cos - xs[index] * sin) + offset]++;
+    }
+    let score = 0;
+    for (const count of bins) score += count * count;
+    return score;
+  };
+
+  let best = 0;
+  let bestScore = profileScore(0);
+  const straightScore = bestScore;
+  for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle += SKEW_STEP) {
+    const score = profileScore(angle);
+    if (score > bestScore) {
+      best = angle;
+      bestScore = score;
+    }
+  }
+
+  // A marginal gain is noise (pictures, logos), not tilted text
+  return bestScore > straightScore * 1.05 ? best : 0;
+}
+
+// Otsu's threshold of an 8-bit grayscale image
+function otsuThreshold(data: Buffer): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (const value of data) histogram[value]++;
+
+  let sum = 0;
+  for (let value = 0; value < 256; value++) sum += value * histogram[value];
+
+  let background = 0;
+  let backgroundSum = 0;
+  let best = 0;
+  let bestVariance = 0;
+  for (let value = 0; value < 256; value++) {
+    background += histogram[value];
+    if (background === 0) continue;
+    const foreground = data.length - background;
+    if (foreground === 0) break;
+
+    backgroundSum += value * histogram[value];
+    const backgroundMean = backgroundSum / background;
+    const foregroundMean = (sum - backgroundSum) / foreground;
+    const variance =
+      background * foreground * (backgroundMean - foregroundMean) ** 2;
+    if (variance > bestVariance) {
+      best = value + 1;
+      bestVariance = variance;
+    }
+  }
+  return best;
+}
+
+function toRaw(image: sharp.Sharp): Promise<RawImage> {
+  return image.raw().toBuffer({ resolveWithObject: true });
+}
+
+function fromRaw({ data, info }: RawImage): sharp.Sharp {
+  return sharp(data, {
+    raw: { width: info.width, height: info.height, channels: info.channels },
+  });
+}
@@ -0,0 +1,32 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { LeadData } from "@/models/lead";
+
+export type CardFixture = {
+  name: string;
+  text: string;
+  expected: LeadData;
+};
+
+const CARDS_DIR = path.join(__dirname, "cards");
+
+/**
+ * Loads the labeled OCR transcript corpus: every `<name>.txt` holds the raw OCR text
+ * of a real-world card and `<name>.json` the `LeadData` it must normalize to.
+ */
+export function loadCardFixtures(): CardFixture[] {
+  return fs
+    .readdirSync(CARDS_DIR)
+    .filter((file) => file.endsWith(".txt"))
+    .sort()
+    .map((file) => {
+      const name = path.basename(file, ".txt");
+      return {
+        name,
+        text: fs.readFileSync(path.join(CARDS_DIR, file), "utf8"),
+        expected: JSON.parse(
+          fs.readFileSync(path.join(CARDS_DIR, `${name}.json`), "utf8"),
+        ),
+      };
+    });
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  countryCode,
+  findAddress,
+  isLikelyStreetLine,
+} from "@/lib/normalization";
+
+describe("findAddress", () => {
+  it("parses a single-line US address", () => {
+    expect(
+      findAddress(["Jane Doe", "123 Main St, Springfield, IL 62704-1234"]),
+    ).toEqual({
+      format: "us",
+      street: "123 Main St",
+      city: "Springfield",
+      region: "IL",
+      postalCode: "62704-1234",
+      country: "US",
+      lines: ["123 Main St, Springfield, IL 62704-1234"],
+    });
+  });
+
+  it("reads a UK post town printed above the postcode", () => {
+    expect(
+      findAddress(["221B Baker Street", "London", "NW16XE"]),
+    ).toMatchObject({
+      format: "uk",
+      street: "221B Baker Street",
+      city: "London",
+      postalCode: "NW1 6XE",
+      country: "GB",
+    });
+  });
+
+  it.each([
+    ["D-80331 München", "80331", "München", "DE"],
+    ["1012 AB Amsterdam", "1012 AB", "Amsterdam", undefined],
+  ])("parses EU locality %s", (locality, postalCode, city, country) => {
+    expect(findAddress(["Keizersgracht 62", locality])).toMatchObject({
+      format: "eu",
+      street: "Keizersgracht 62",
+      postalCode,
+      city,
+      country,
+    });
+  });
+
+  it("does not mistake a street with a four-digit house number for a locality", () => {
+    expect(findAddress(["1600 Amphitheatre Parkway"])).toBeUndefined();
+  });
+
+  it("parses GCC addresses without postal codes", () => {
+    expect(
+      findAddress(["P.O. Box 12345, Riyadh 11564, Saudi Arabia"]),
+    ).toMatchObject({
+      format: "gcc",
+      street: "P.O. Box 12345",
+      city: "Riyadh",
+      postalCode: "11564",
+      country: "SA",
+    });
+  });
+
+  it("returns undefined for cards without an address", () => {
+    expect(
+      findAddress(["John Smith", "Senior Software Engineer", "Acme Inc."]),
+    ).toBeUndefined();
+  });
+});
+
+describe("isLikelyStreetLine", () => {
+  it.each(["350 Fifth Avenue", "Friedrichstraße 123", "P.O. Box 4411"])(
+    "accepts %s",
+    (line) => {
+      expect(isLikelyStreetLine(line)).toBe(true);
+    },
+  );
+
+  it("rejects names", () => {
+    expect(isLikelyStreetLine("Jane Doe")).toBe(false);
+  });
+});
+
+describe("countryCode", () => {
+  it.each([
+    ["U.A.E.", "AE"],
+    ["United Kingdom", "GB"],
+    ["de", "DE"],
+    ["Atlantis", undefined],
+  ])("maps %s to %s", (name, code) => {
+    expect(countryCode(name)).toBe(code);
+  });
+});
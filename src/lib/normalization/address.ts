@@ -0,0 +1,324 @@
+/**
+ * Postal Address Extraction
+ *
+ * Detects the postal address printed on a card and splits it into street, city,
+ * region, postal code and country. An address is anchored on its locality line
+ * (the line carrying city and postal code), then extended upwards with street lines
+ * and downwards with a country line.
+ *
+ * Supported Formats:
+ * - **US**: "Springfield, IL 62704" (state code + ZIP / ZIP+4)
+ * - **UK**: "London EC1A 1BB" (postcode after the post town)
+ * - **EU**: "10117 Berlin", "D-80331 München", "1012 AB Amsterdam" (postal code before city)
+ * - **GCC**: "P.O. Box 12345, Dubai, UAE" (known city/country names, optional PO box)
+ *
+ * @module normalization/address
+ * @author Ahmed Kamal
+ */
+
+export type AddressFormat = "us" | "uk" | "eu" | "gcc";
+
+/**
+ * A postal address found in card text.
+ */
+export type ParsedAddress = {
+  format: AddressFormat;
+  street?: string;
+  city?: string;
+  /** State, province or emirate code/name, e.g. "IL" */
+  region?: string;
+  postalCode?: string;
+  /** ISO 3166-1 alpha-2 country code, e.g. "US" */
+  country?: string;
+  /** Card lines the address was read from, in order */
+  lines: string[];
+};
+
+type Locality = Omit<ParsedAddress, "lines" | "street"> & {
+  /** Street text printed on the locality line before the city, if any */
+  before?: string;
+};
+
+// Street/PO box indicators, including common EU street words
+export const STREET_KEYWORDS =
+  /\b(street|st|avenue|ave|road|rd|boulevard|blvd|drive|dr|lane|ln|suite|ste|floor|fl|building|bldg|tower|p\.?\s?o\.?\s?box|way|plaza|square|sq|office|unit|parkway|pkwy|highway|hwy|rue|via|calle|avenida|strasse|str|laan|weg|gracht|plein)\b\.?|stra(ss|ß)e\b/i;
+
+const US_STATES = new Set(
+  (
+    "AL AK AZ AR CA CO CT DE FL GA HI ID IL IN IA KS KY LA ME MD MA MI MN MS MO MT NE NV " +
+    "NH NJ NM NY NC ND OH OK OR PA RI SC SD TN TX UT VT VA WA WV WI WY DC PR"
+  ).split(" "),
+);
+
+// Country names as printed on cards, lowercase, to ISO 3166-1 alpha-2
+const COUNTRY_NAMES: Record<string, string> = {
+  usa: "US",
+  "u.s.a.": "US",
+  "united states": "US",
+  "united states of america": "US",
+  uk: "GB",
+  "u.k.": "GB",
+  "united kingdom": "GB",
+  "great britain": "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+  germany: "DE",
+  deutschland: "DE",
+  france: "FR",
+  spain: "ES",
+  españa: "ES",
+  italy: "IT",
+  italia: "IT",
+  netherlands: "NL",
+  "the netherlands": "NL",
+  nederland: "NL",
+  belgium: "BE",
+  austria: "AT",
+  österreich: "AT",
+  switzerland: "CH",
+  schweiz: "CH",
+  ireland: "IE",
+  portugal: "PT",
+  sweden: "SE",
+  denmark: "DK",
+  poland: "PL",
+  uae: "AE",
+  "u.a.e.": "AE",
+  "united arab emirates": "AE",
+  "saudi arabia": "SA",
+  "kingdom of saudi arabia": "SA",
+  ksa: "SA",
+  qatar: "QA",
+  "state of qatar": "QA",
+  kuwait: "KW",
+  bahrain: "BH",
+  "kingdom of bahrain": "BH",
+  oman: "OM",
+  "sultanate of oman": "OM",
+};
+
+// Major GCC cities, lowercase, to country
+const GCC_CITIES: Record<string, string> = {
+  dubai: "AE",
+  "abu dhabi": "AE",
+  sharjah: "AE",
+  ajman: "AE",
+  "ras al khaimah": "AE",
+  fujairah: "AE",
+  "al ain": "AE",
+  riyadh: "SA",
+  jeddah: "SA",
+  dammam: "SA",
+  khobar: "SA",
+  "al khobar": "SA",
+  mecca: "SA",
+  makkah: "SA",
+  medina: "SA",
+  doha: "QA",
+  "kuwait city": "KW",
+  manama: "BH",
+  muscat: "OM",
+};
+
+// Country letter prefixes used before EU postal codes ("D-80331")
+const EU_POSTAL_PREFIXES: Record<string, string> = {
+  D: "DE",
+  F: "FR",
+  A: "AT",
+  CH: "CH",
+  I: "IT",
+  E: "ES",
+  NL: "NL",
+  B: "BE",
+  L: "LU",
+};
+
+const US_LOCALITY =
+  /^(?:(.*?),\s*)?([A-Za-z][A-Za-z .'-]*?),?\s+([A-Z]{2})\.?\s+(\d{5}(?:-\d{4})?)$/;
+const UK_LOCALITY =
+  /^(?:(.*?),\s*)?(?:([A-Za-z][A-Za-z .'-]*?),?\s+)?([A-Z]{1,2}\d[A-Z\d]?\s?\d[A-Z]{2})$/;
+const EU_LOCALITY =
+  /^(?:(.*?),\s*)?(?:([A-Z]{1,2})-)?(\d{4,5}(?:\s?[A-Z]{2})?)\s+(\p{L}[\p{L} .'-]*)$/u;
+
+/**
+ * Street Line Detection
+ *
+ * @param line - Text line to evaluate
+ * @returns True if the line looks like a street, building or PO box line
+ */
+export function isLikelyStreetLine(line: string): boolean {
+  const text = line.trim();
+  return (
+    STREET_KEYWORDS.test(text) ||
+    /^\d{1,5}[a-z]?\s+\p{L}/u.test(text) || // "123 Main ..."
+    /^\p{L}[\p{L} .'-]+\s+\d{1,5}[a-z]?$/u.test(text) // "Friedrichstraße 123"
+  );
+}
+
+/**
+ * Resolves a printed country name to its ISO 3166-1 alpha-2 code.
+ *
+ * @param name - Country name or code as printed, e.g. "U.A.E." or "Germany"
+ * @returns Country code, or undefined when the name is unknown
+ */
+export function countryCode(name: string): string | undefined {
+  const key = name.trim().replace(/\s+/g, " ").toLowerCase();
+  if (COUNTRY_NAMES[key]) return COUNTRY_NAMES[key];
+  return /^[a-z]{2}$/.test(key) &&
+    Object.values(COUNTRY_NAMES).includes(key.toUpperCase())
+    ? key.toUpperCase()
+    : undefined;
+}
+
+/**
+ * Finds and parses the postal address in card text.
+ *
+ * @param lines - Card text lines in reading order (contact-detail lines are skipped)
+ * @returns The first address found, or undefined
+ *
+ * @example
+ * findAddress(["Jane Doe", "350 Fifth Avenue, Suite 4100", "New York, NY 10118"]);
+ * // { format: "us", street: "350 Fifth Avenue, Suite 4100", city: "New York",
+ * //   region: "NY", postalCode: "10118", country: "US", lines: [...] }
+ */
+export function findAddress(lines: string[]): ParsedAddress | undefined {
+  const trimmed = lines.map((line) => line.trim().replace(/\s+/g, " "));
+
+  for (let i = 0; i < trimmed.length; i++) {
+    const locality = parseLocality(trimmed[i], trimmed[i - 1]);
+    if (!locality) continue;
+
+    const { before, ...address } = locality;
+    let first = i;
+    let last = i;
+
+    // UK post town printed on its own line above the postcode
+    if (address.format === "uk" && !address.city && !before && i > 0) {
+      const town = trimmed[i - 1];
+      if (/^[A-Za-z][A-Za-z .'-]+$/.test(town) && !isLikelyStreetLine(town)) {
+        address.city = town;
+        first = i - 1;
+      }
+    }
+
+    // Street lines directly above the locality line (up to two)
+    const street: string[] = before ? [before] : [];
+    while (
+      first > 0 &&
+      i - first < 2 &&
+      isLikelyStreetLine(trimmed[first - 1])
+    ) {
+      street.unshift(trimmed[--first]);
+    }
+
+    // Country printed on the line below
+    const country = trimmed[i + 1] && countryCode(trimmed[i + 1]);
+    if (country) {
+      address.country = country;
+      last = i + 1;
+    }
+
+    // A bare postal code/city without a street line is too weak a signal
+    if (street.length === 0 && address.format === "eu" && !country) continue;
+
+    return {
+      ...address,
+      ...(street.length > 0 && { street: street.join(", ") }),
+      lines: trimmed.slice(first, last + 1),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses a locality line (city + postal code, or a GCC city/country line).
+ * The previous line lets a bare GCC country line follow a street line.
+ */
+function parseLocality(line: string, previous?: string): Locality | undefined {
+  const us = US_LOCALITY.exec(line);
+  if (us && US_STATES.has(us[3])) {
+    return {
+      format: "us",
+      before: us[1],
+      city: us[2].trim(),
+      region: us[3],
+      postalCode: us[4],
+      country: "US",
+    };
+  }
+
+  const uk = UK_LOCALITY.exec(line.replace(/,?\s*(UK|United Kingdom)$/i, ""));
+  if (uk && /\d[A-Z]{2}$/.test(uk[3])) {
+    return {
+      format: "uk",
+      before: uk[1],
+      city: uk[2]?.trim(),
+      postalCode: uk[3].includes(" ")
+        ? uk[3]
+        : `${uk[3].slice(0, -3)} ${uk[3].slice(-3)}`,
+      country: "GB",
+    };
+  }
+
+  const eu = EU_LOCALITY.exec(line);
+  // "1600 Amphitheatre Parkway" is a street line, not "<postal code> <city>"
+  if (eu && !STREET_KEYWORDS.test(eu[4])) {
+    return {
+      format: "eu",
+      before: eu[1],
+      city: eu[4].trim(),
+      postalCode: eu[3],
+      country: eu[2] ? EU_POSTAL_PREFIXES[eu[2]] : undefined,
+    };
+  }
+
+  return parseGccLocality(line, previous);
+}
+
+/**
+ * GCC addresses rarely use postal codes; they are recognized by a known city or
+ * country name in a comma-separated line, e.g. "Sheikh Zayed Road, Dubai, UAE".
+ */
+function parseGccLocality(
+  line: string,
+  previous?: string,
+): Locality | undefined {
+  const parts = line.split(",").map((part) => part.trim());
+  let city: string | undefined;
+  let country: string | undefined;
+  let postalCode: string | undefined;
+  let cityIndex = -1;
+
+  parts.forEach((part, index) => {
+    const code = countryCode(part);
+    if (code && ["AE", "SA", "QA", "KW", "BH", "OM"].includes(code)) {
+      country = code;
+      if (cityIndex === -1) cityIndex = index;
+      return;
+    }
+    // "Riyadh 12214" - city with a postal code
+    const match = /^(\p{L}[\p{L} ]*?)(?:\s+(\d{5}))?$/u.exec(part);
+    const key = match?.[1].toLowerCase();
+    if (key && GCC_CITIES[key]) {
+      city = match![1];
+      postalCode = match![2];
+      country = country || GCC_CITIES[key];
+      cityIndex = index;
+    }
+  });
+
+  if (!city && !(country && previous && isLikelyStreetLine(previous))) {
+    return undefined;
+  }
+
+  const before = parts.slice(0, cityIndex).join(", ");
+  return {
+    format: "gcc",
+    before: before || undefined,
+    city,
+    postalCode,
+    country,
+  };
+}
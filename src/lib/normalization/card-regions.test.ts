@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { detectCardRegions } from "@/lib/normalization";
+import type { TextSegment } from "@/lib/ocr";
+
+function word(text: string, x: number, y: number, height: number): TextSegment {
+  const width = text.length * height * 0.6;
+  return {
+    text,
+    confidence: 1,
+    boundingBox: {
+      vertices: [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ],
+    },
+  };
+}
+
+// A card laid out at (x, y): name, title, email and phone lines
+function card(name: string, email: string, x: number, y: number) {
+  const [first, last] = name.split(" ");
+  return [
+    word(first, x, y, 20),
+    word(last, x + 70, y, 20),
+    word("Sales", x, y + 30, 14),
+    word("Director", x + 50, y + 30, 14),
+    word(email, x, y + 60, 14),
+    word("+1", x, y + 85, 14),
+    word("212-736-5000", x + 25, y + 85, 14),
+  ];
+}
+
+describe("detectCardRegions", () => {
+  it("splits cards laid out in a grid, in reading order", () => {
+    const regions = detectCardRegions([
+      ...card("Carol King", "carol@initech.com", 100, 500),
+      ...card("Jane Doe", "jane@acme.com", 100, 100),
+      ...card("Dan Brown", "dan@hooli.com", 700, 500),
+      ...card("Bob Smith", "bob@globex.com", 700, 100),
+    ]);
+
+    expect(regions.map((region) => region.text.split("\n")[0])).toEqual([
+      "Jane Doe",
+      "Bob Smith",
+      "Carol King",
+      "Dan Brown",
+    ]);
+    expect(regions[0].text).toBe(
+      "Jane Doe\nSales Director\njane@acme.com\n+1 212-736-5000",
+    );
+    expect(regions[0].segments).toHaveLength(7);
+  });
+
+  it("pads the crop box around the card text", () => {
+    const [region] = detectCardRegions(
+      card("Jane Doe", "jane@acme.com", 100, 100),
+    );
+
+    expect(region.rect.left).toBeLessThan(100);
+    expect(region.rect.top).toBeLessThan(100);
+    expect(region.rect.bottom).toBeGreaterThan(199);
+  });
+
+  it("attaches stray words to the nearest card", () => {
+    const regions = detectCardRegions([
+      ...card("Jane Doe", "jane@acme.com", 100, 100),
+      ...card("Bob Smith", "bob@globex.com", 700, 100),
+      word("ACME", 100, 40, 14),
+    ]);
+
+    expect(regions).toHaveLength(2);
+    expect(regions[0].text.split("\n")[0]).toBe("ACME");
+  });
+
+  it("scores each card by the confidence of its own words", () => {
+    const blurry = card("Bob Smith", "bob@globex.com", 700, 100).map(
+      (segment) => ({ ...segment, confidence: 0.5 }),
+    );
+    const unscored = card("Carol King", "carol@initech.com", 100, 500).map(
+      (segment) => ({ ...segment, confidence: 0 }),
+    );
+
+    const regions = detectCardRegions([
+      ...card("Jane Doe", "jane@acme.com", 100, 100),
+      ...blurry,
+      ...unscored,
+    ]);
+
+    expect(regions.map((region) => region.confidence)).toEqual([1, 0.5, null]);
+  });
+
+  it("returns no cards without word geometry", () => {
+    expect(
+      detectCardRegions([
+        { text: "Jane Doe", confidence: 1, boundingBox: { vertices: [] } },
+      ]),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Multi-Card Detection
+ *
+ * Reps at trade shows lay several cards on a table and take one photo. The words of one
+ * card sit close together while neighbouring cards are separated by table space, so
+ * the cards are found by clustering the OCR word boxes by distance:
+ *
+ * 1. Words closer than a few word heights (horizontally) or line heights (vertically)
+ *    are linked; linked words form a cluster
+ * 2. Clusters whose bounding boxes overlap are merged (a card's columns, a logo)
+ * 3. Clusters of a word or two are attached to the nearest card (stray OCR noise)
+ *
+ * Each card's words are rebuilt into reading-order text for the regular extractor.
+ *
+ * @module normalization/card-regions
+ * @author Ahmed Kamal
+ */
+
+import type { TextSegment } from "@/lib/ocr";
+import { buildLines, segmentRect, type Rect } from "@/lib/normalization/layout";
+
+/**
+ * One card found in a photo.
+ */
+export type CardRegion = {
+  /** Crop box around the card's text, padded and in image pixel coordinates */
+  rect: Rect;
+  segments: TextSegment[];
+  /** Card text in reading order, one visual line per text line */
+  text: string;
+  /** Mean confidence of the card's words; null when the OCR provider reports none */
+  confidence: number | null;
+};
+
+// Link distances between words of the same card, in median word heights
+const MAX_WORD_GAP = 4;
+const MAX_LINE_GAP = 2.5;
+
+// Clusters with fewer words are attached to the nearest card
+const MIN_CARD_WORDS = 3;
+
+// Crop padding around a card's text, in median word heights
+const CROP_PADDING = 1.5;
+
+type Cluster = { words: { segment: TextSegment; rect: Rect }[]; rect: Rect };
+
+/**
+ * Finds the individual cards in a photo from the OCR word boxes.
+ *
+ * @param textSegments - Word-level OCR segments of the whole photo
+ * @returns Cards in reading order (rows top to bottom, left to right within a row)
+ *
+ * @example
+ * const cards = detectCardRegions(textSegments);
+ * for (const card of cards) {
+ *   const { data } = await cleanAndNormalizeData(card.text, card.segments);
+ * }
+ */
+export function detectCardRegions(textSegments: TextSegment[]): CardRegion[] {
+  const words = textSegments
+    .map((segment) => ({ segment, rect: segmentRect(segment) }))
+    .filter(
+      (word): word is { segment: TextSegment; rect: Rect } =>
+        word.rect !== null && word.segment.text.trim().length > 0,
+    );
+  if (words.length === 0) return [];
+
+  const wordHeight = median(
+    words.map(({ rect }) => rect.bottom - rect.top).filter((h) => h > 0),
+  );
+
+  // Union-find over words linked by distance
+  const parent = words.map((_, index) => index);
+  const find = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = find(parent[index]));
+  for (let a = 0; a < words.length; a++) {
+    for (let b = a + 1; b < words.length; b++) {
+      const [gapX, gapY] = gaps(words[a].rect, words[b].rect);
+      if (
+        gapX <= MAX_WORD_GAP * wordHeight &&
+        gapY <= MAX_LINE_GAP * wordHeight
+      ) {
+        parent[find(a)] = find(b);
+      }
+    }
+  }
+
+  const byRoot = new Map<number, Cluster>();
+  words.forEach((word, index) => {
+    const root = find(index);
+    const cluster = byRoot.get(root);
+    if (cluster) {
+      cluster.words.push(word);
+      cluster.rect = unionRect(cluster.rect, word.rect);
+    } else {
+      byRoot.set(root, { words: [word], rect: { ...word.rect } });
+    }
+  });
+
+  let clusters = mergeOverlapping([...byRoot.values()]);
+
+  // Stray words join the nearest card
+  const cards = clusters.filter((c) => c.words.length >= MIN_CARD_WORDS);
+  if (cards.length > 0) {
+    for (const stray of clusters.filter(
+      (c) => c.words.length < MIN_CARD_WORDS,
+    )) {
+      const nearest = cards.reduce((best, card) =>
+        distance(card.rect, stray.rect) < distance(best.rect, stray.rect)
+          ? card
+          : best,
+      );
+      nearest.words.push(...stray.words);
+      nearest.rect = unionRect(nearest.rect, stray.rect);
+    }
+    clusters = cards;
+  }
+
+  const padding = CROP_PADDING * wordHeight;
+  return sortReadingOrder(clusters).map((cluster) => {
+    const segments = cluster.words.map((word) => word.segment);
+    const scored = segments.filter((segment) => segment.confidence > 0);
+    return {
+      rect: {
+        left: Math.max(0, Math.floor(cluster.rect.left - padding)),
+        top: Math.max(0, Math.floor(cluster.rect.top - padding)),
+        right: Math.ceil(cluster.rect.right + padding),
+        bottom: Math.ceil(cluster.rect.bottom + padding),
+      },
+      segments,
+      text: buildLines(segments)
+        .map((line) => line.text)
+        .join("\n"),
+      confidence:
+        scored.length > 0
+          ? scored.reduce((sum, segment) => sum + segment.confidence, 0) /
+            scored.length
+          : null,
+    };
+  });
+}
+
+function mergeOverlapping(clusters: Cluster[]): Cluster[] {
+  const merged = [...clusters];
+  for (let a = 0; a < merged.length; a++) {
+    for (let b = a + 1; b < merged.length; b++) {
+      const [gapX, gapY] = gaps(merged[a].rect, merged[b].rect);
+      if (gapX > 0 || gapY > 0) continue;
+      merged[a] = {
+        words: [...merged[a].words, ...merged[b].words],
+        rect: unionRect(merged[a].rect, merged[b].rect),
+      };
+      merged.splice(b, 1);
+      // The grown box may now overlap clusters checked before
+      b = a;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Rows of cards top to bottom, left to right within a row; cards whose vertical
+ * centre lies within another card's height share its row.
+ */
+function sortReadingOrder(clusters: Cluster[]): Cluster[] {
+  const rows: Cluster[][] = [];
+  for (const cluster of [...clusters].sort((a, b) => a.rect.top - b.rect.top)) {
+    const center = (cluster.rect.top + cluster.rect.bottom) / 2;
+    const row = rows.find(
+      ([first]) => center >= first.rect.top && center <= first.rect.bottom,
+    );
+    if (row) {
+      row.push(cluster);
+    } else {
+      rows.push([cluster]);
+    }
+  }
+  return rows.flatMap((row) => row.sort((a, b) => a.rect.left - b.rect.left));
+}
+
+// Horizontal and vertical gap between two boxes (0 when they overlap on that axis)
+function gaps(a: Rect, b: Rect): [number, number] {
+  return [
+    Math.max(0, Math.max(a.left, b.left) - Math.min(a.right, b.right)),
+    Math.max(0, Math.max(a.top, b.top) - Math.min(a.bottom, b.bottom)),
+  ];
+}
+
+function distance(a: Rect, b: Rect): number {
+  const [gapX, gapY] = gaps(a, b);
+  return Math.hypot(gapX, gapY);
+}
+
+function unionRect(a: Rect, b: Rect): Rect {
+  return {
+    left: Math.min(a.left, b.left),
+    top: Math.min(a.top, b.top),
+    right: Math.max(a.right, b.right),
+    bottom: Math.max(a.bottom, b.bottom),
+  };
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
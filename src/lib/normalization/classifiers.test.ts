@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+  isContactLine,
+  isLikelyCompany,
+  isLikelyJobTitle,
+  isLikelyName,
+} from "@/lib/normalization";
+
+describe("isLikelyName", () => {
+  it.each([
+    "John Smith",
+    "Sarah Anne Johnson",
+    "Mary Ann Van Berg",
+    "Dr. Mary Ann van der Berg, PhD",
+  ])("accepts %s", (text) => expect(isLikelyName(text)).toBe(true));
+
+  it.each(["Smith", "john smith", "Head of Sales", "One Two Three Four Five"])(
+    "rejects %s",
+    (text) => expect(isLikelyName(text)).toBe(false),
+  );
+
+  it.each([
+    "José Müller",
+    "Seán O’Brien",
+    "محمد الأحمد",
+    "王小明",
+    "Иван Петров",
+  ])("accepts the non-English name %s", (text) =>
+    expect(isLikelyName(text)).toBe(true),
+  );
+
+  it.each(["مدير المبيعات", "شركة الخليج", "北京科技有限公司"])(
+    "rejects the non-Latin title or company %s",
+    (text) => expect(isLikelyName(text)).toBe(false),
+  );
+});
+
+describe("isLikelyCompany", () => {
+  it.each(["Acme Technologies Inc.", "Smith & Partners", "IBM", "Bright LLC"])(
+    "accepts %s",
+    (text) => expect(isLikelyCompany(text)).toBe(true),
+  );
+
+  it.each([
+    "Müller Bau GmbH",
+    "شركة الخليج",
+    "北京科技有限公司",
+    "ООО Ромашка",
+  ])("accepts the international company %s", (text) =>
+    expect(isLikelyCompany(text)).toBe(true),
+  );
+
+  it("rejects plain title-cased words", () => {
+    expect(isLikelyCompany("Jane Doe")).toBe(false);
+  });
+});
+
+describe("isLikelyJobTitle", () => {
+  it.each(["Chief Executive Officer", "Sales Manager", "VP / Head of Growth"])(
+    "accepts %s",
+    (text) => expect(isLikelyJobTitle(text)).toBe(true),
+  );
+
+  it.each([
+    "Directeur Général",
+    "مدير المبيعات",
+    "销售经理",
+    "Генеральный директор",
+  ])("accepts the non-English title %s", (text) =>
+    expect(isLikelyJobTitle(text)).toBe(true),
+  );
+
+  it("rejects names", () => {
+    expect(isLikelyJobTitle("John Smith")).toBe(false);
+  });
+});
+
+describe("isContactLine", () => {
+  it.each(["jane@acme.com", "(555) 123-4567", "www.acme.com"])(
+    "detects %s",
+    (text) => expect(isContactLine(text)).toBe(true),
+  );
+
+  it("ignores plain text", () => {
+    expect(isContactLine("Jane Doe")).toBe(false);
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Line Classification Heuristics
+ *
+ * Linguistic rules deciding whether a line of card text looks like a personal
+ * name, a company, a job title or contact details. Shared by the plain-text
+ * extractor and the layout analysis.
+ *
+ * The heuristics are Unicode-aware: accented Latin ("José Müller"), Cyrillic and
+ * Greek names are judged by letter case, while names in scripts without case
+ * (Arabic, Hebrew, Chinese, Korean, Japanese) are judged by length and by the
+ * absence of company/title keywords.
+ *
+ * @module normalization/classifiers
+ * @author Ahmed Kamal
+ */
+
+import {
+  emailRegex,
+  phoneRegex,
+  websiteRegex,
+} from "@/lib/normalization/patterns";
+import { NAME_PARTICLES, stripNameAffixes } from "@/lib/normalization/name";
+import { detectScript, isCasedScript } from "@/lib/normalization/script";
+import { isSocialLine } from "@/lib/normalization/social";
+
+// Substrings marking a company name, matched case-insensitively
+const COMPANY_KEYWORDS = [
+  "Inc",
+  "LLC",
+  "Corp",
+  "Company",
+  "Ltd",
+  "Group",
+  "Solutions",
+  "Services",
+  "Technologies",
+  "Holding",
+  "Trading",
+  // Arabic: company, establishment, group, LLC
+  "شركة",
+  "مؤسسة",
+  "مجموعة",
+  "ذ.م.م",
+  // Chinese/Japanese: company, group, limited, corporation
+  "公司",
+  "集团",
+  "有限",
+  "株式会社",
+  // Russian: LLC, JSC, company, group
+  "ООО",
+  "АО",
+  "компания",
+  "группа",
+];
+
+// Legal entity suffixes too short for substring matching ("AG" would match "manager")
+const COMPANY_SUFFIXES =
+  /(^|\s)(GmbH|AG|KG|S\.?A\.?|S\.?L\.?|SARL|S\.?p\.?A\.?|B\.?V\.?|N\.?V\.?|PLC|Pty|FZE|FZCO|FZ-LLC|W\.?L\.?L\.?)(\s|,|$)/;
+
+// Substrings marking a job title, matched case-insensitively
+const TITLE_KEYWORDS = [
+  "CEO",
+  "CTO",
+  "CFO",
+  "Manager",
+  "Director",
+  "President",
+  "Vice",
+  "Senior",
+  "Lead",
+  "Head",
+  "Chief",
+  "Officer",
+  "Agent",
+  "Directeur",
+  "Directrice",
+  "Gerente",
+  "Geschäftsführer",
+  "Leiter",
+  // Arabic: director/manager, president, officer, engineer
+  "مدير",
+  "مديرة",
+  "رئيس",
+  "مسؤول",
+  "مهندس",
+  // Chinese: manager, director, president, chairman, supervisor
+  "经理",
+  "总监",
+  "总裁",
+  "董事",
+  "主管",
+  // Russian: director, manager, head
+  "директор",
+  "менеджер",
+  "руководитель",
+  "начальник",
+];
+
+/**
+ * Contact Line Detection
+ *
+ * Lines carrying an email, phone number, website or social profile are contact
+ * details and must never be classified as a name, company or job title.
+ *
+ * @param line - Text line to evaluate
+ * @returns True if the line contains contact details
+ */
+export function isContactLine(line: string): boolean {
+  return (
+    !!line.match(emailRegex) ||
+    !!line.match(phoneRegex) ||
+    !!line.match(websiteRegex) ||
+    isSocialLine(line)
+  );
+}
+
+/**
+ * Personal Name Detection Heuristic
+ *
+ * Uses linguistic patterns to identify personal names among OCR text lines.
+ *
+ * Detection Criteria:
+ * - 2-4 words (handles first, middle, last name combinations), not counting
+ *   honorifics ("Dr."), post-nominals ("PhD") and particles ("van der")
+ * - Title case formatting (First Letter Capitalized), Unicode-aware, allowing
+ *   particles such as "van" or "bin" and middle initials
+ * - Scripts without letter case: 2-5 words (Arabic, Hebrew) or 2-6 characters
+ *   (Chinese, Korean, Japanese)
+ * - Excludes obvious company/title indicators and lines with digits
+ *
+ * @param text - Text line to evaluate
+ * @returns True if text appears to be a personal name
+ */
+export function isLikelyName(text: string): boolean {
+  const trimmed = stripNameAffixes(text);
+  if (
+    /\d/.test(trimmed) ||
+    isLikelyCompany(trimmed) ||
+    isLikelyJobTitle(trimmed)
+  ) {
+    return false;
+  }
+
+  const nameWords = trimmed.split(/\s+/);
+  const script = detectScript(trimmed);
+
+  // Letter case carries the signal: every word capitalized, except name particles
+  if (isCasedScript(script)) {
+    const count = nameWords.filter((word) => !NAME_PARTICLES.has(word)).length;
+    return (
+      count >= 2 &&
+      count <= 4 &&
+      nameWords.every(
+        (word, index) =>
+          /^\p{Lu}['’]?\p{L}*\p{Ll}/u.test(word) || // "José", "O'Brien", "Jean-Luc"
+          (index > 0 && /^\p{Lu}\.$/u.test(word)) || // middle initial "F."
+          (index > 0 &&
+            index < nameWords.length - 1 &&
+            NAME_PARTICLES.has(word.toLowerCase())),
+      )
+    );
+  }
+
+  // Uncased scripts: only letters of one script, within typical name lengths
+  if (!/^[\p{L}\p{M}\s.'’·・-]+$/u.test(trimmed)) return false;
+  switch (script) {
+    case "han":
+    case "hangul":
+    case "kana": {
+      // Chinese/Korean/Japanese names: 2-4 characters, usually without spaces
+      const letters = trimmed.replace(/[\s·・]/g, "").length;
+      return nameWords.length <= 2 && letters >= 2 && letters <= 6;
+    }
+    case "unknown":
+      return false;
+    default:
+      // Arabic, Hebrew, Devanagari, Thai: 2-5 words ("محمد بن راشد آل مكتوم" is 5)
+      return nameWords.length >= 2 && nameWords.length <= 5;
+  }
+}
+
+/**
+ * Company Name Detection Heuristic
+ *
+ * Identifies company names using business entity indicators and
+ * formatting patterns common in corporate naming.
+ *
+ * Detection Signals:
+ * - Business entity suffixes (Inc, LLC, Corp, GmbH, FZE, etc.) and their Arabic,
+ *   Chinese and Russian equivalents
+ * - Corporate conjunctions (&, and)
+ * - All-caps abbreviations
+ * - Industry keywords
+ *
+ * @param text - Text line to evaluate
+ * @returns True if text appears to be a company name
+ */
+export function isLikelyCompany(text: string): boolean {
+  return (
+    COMPANY_KEYWORDS.some((keyword) =>
+      text.toLowerCase().includes(keyword.toLowerCase()),
+    ) ||
+    COMPANY_SUFFIXES.test(text) ||
+    text.includes("&") ||
+    /[A-Z]{2,}/.test(text) // All-caps abbreviations
+  );
+}
+
+/**
+ * Job Title Detection Heuristic
+ *
+ * Identifies professional job titles using common corporate
+ * title keywords and hierarchical indicators.
+ *
+ * Detection Keywords:
+ * - Executive titles (CEO, CTO, CFO)
+ * - Management levels (Manager, Director, VP)
+ * - Seniority indicators (Senior, Lead, Head, Chief)
+ * - Professional roles (Agent, Officer)
+ * - Common French, Spanish, German, Arabic, Chinese and Russian titles
+ *
+ * @param text - Text line to evaluate
+ * @returns True if text appears to be a job title
+ */
+export function isLikelyJobTitle(text: string): boolean {
+  return TITLE_KEYWORDS.some((keyword) =>
+    text.toLowerCase().includes(keyword.toLowerCase()),
+  );
+}
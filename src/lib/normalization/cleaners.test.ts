@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import {
+  cleanCompany,
+  cleanEmail,
+  cleanJobTitle,
+  cleanName,
+  cleanPhoneNumber,
+  cleanWebsite,
+} from "@/lib/normalization";
+
+describe("cleanEmail", () => {
+  it("lowercases and trims", () => {
+    expect(cleanEmail(" Jane@Acme.COM ")).toBe("jane@acme.com");
+  });
+
+  it("keeps digits that are part of the address", () => {
+    expect(cleanEmail("john2021@acme.com")).toBe("john2021@acme.com");
+  });
+});
+
+describe("cleanPhoneNumber", () => {
+  it.each([
+    ["(312) 555-0123", "+13125550123"],
+    ["312.555.0123", "+13125550123"],
+    ["+1 312 555 0123", "+13125550123"],
+    ["13125550123", "+13125550123"],
+  ])("formats North American number %s as E.164", (input, expected) => {
+    expect(cleanPhoneNumber(input)).toBe(expected);
+  });
+
+  it("uses the default region for numbers without a country code", () => {
+    expect(cleanPhoneNumber("020 7946 0958", "GB")).toBe("+442079460958");
+  });
+
+  it("returns an empty string for invalid numbers", () => {
+    expect(cleanPhoneNumber("(555) 123-4567")).toBe("");
+  });
+});
+
+describe("cleanWebsite", () => {
+  it("strips the www prefix and lowercases", () => {
+    expect(cleanWebsite("WWW.Acme.com")).toBe("acme.com");
+  });
+});
+
+describe("cleanName", () => {
+  it("removes OCR artifacts and normalizes whitespace", () => {
+    expect(cleanName("  John   Smith* ")).toBe("John Smith");
+  });
+
+  it("keeps the comma before post-nominals", () => {
+    expect(cleanName("Mary van der Berg ,PhD,")).toBe("Mary van der Berg, PhD");
+  });
+
+  it.each([
+    "José Müller-Lüdenscheidt",
+    "Seán O’Brien",
+    "عبد الله الهاشمي",
+    "王小明",
+  ])("keeps the letters of %s", (text) => expect(cleanName(text)).toBe(text));
+});
+
+describe("cleanCompany", () => {
+  it("removes a trailing comma", () => {
+    expect(cleanCompany("Acme  Corp,")).toBe("Acme Corp");
+  });
+});
+
+describe("cleanJobTitle", () => {
+  it("normalizes whitespace", () => {
+    expect(cleanJobTitle(" Senior   Engineer ")).toBe("Senior Engineer");
+  });
+});
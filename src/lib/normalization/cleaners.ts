@@ -0,0 +1,116 @@
+/**
+ * Field Cleaners
+ *
+ * Normalize individual field values (emails, phones, websites, names, companies,
+ * job titles) into their canonical storage format.
+ *
+ * @module normalization/cleaners
+ * @author Ahmed Kamal
+ */
+
+import {
+  correctEmail,
+  type CorrectionContext,
+} from "@/lib/normalization/ocr-correction";
+import { parsePhone, type CountryCode } from "@/lib/normalization/phone";
+
+/**
+ * Email Address Cleaning and OCR Error Correction
+ *
+ * Fixes common OCR misreadings in email addresses while preserving
+ * valid email structure and format.
+ *
+ * Corrections are context-aware (see `correctEmail`): "0"/"1" are only read as
+ * letters when that matches the website domain, a known top-level domain or the
+ * person's name, so "john2021@acme.com" stays untouched.
+ *
+ * @param email - Raw email string from OCR
+ * @param context - Name and website detected on the same card
+ * @returns Cleaned and normalized email address
+ */
+export function cleanEmail(email: string, context?: CorrectionContext): string {
+  return correctEmail(email, context).value;
+}
+
+/**
+ * Phone Number Standardization and International Formatting
+ *
+ * Converts a phone number into E.164 using full international numbering
+ * metadata (see `parsePhone` for the display format and extension).
+ *
+ * Supported Input Formats:
+ * - (212) 736-5000
+ * - 212.736.5000
+ * - +1 212 736 5000
+ * - 020 7946 0958 (with default region "GB")
+ * - +44 (0)20 7946 0958
+ *
+ * Output Format: +12127365000
+ *
+ * @param phone - Raw phone number string from OCR
+ * @param defaultRegion - Region used for numbers without a country code (default: "US")
+ * @returns E.164 phone number, or an empty string when the number is invalid
+ */
+export function cleanPhoneNumber(
+  phone: string,
+  defaultRegion?: CountryCode,
+): string {
+  return parsePhone(phone, defaultRegion).e164 || "";
+}
+
+/**
+ * Website URL Cleaning and Normalization
+ *
+ * Standardizes website URLs by removing common prefixes and
+ * ensuring consistent formatting for storage and display.
+ *
+ * @param website - Raw website string from OCR
+ * @returns Cleaned website URL without www prefix
+ */
+export function cleanWebsite(website: string): string {
+  return website.toLowerCase().replace(/^www\./, "");
+}
+
+/**
+ * Personal Name Cleaning and Formatting
+ *
+ * Removes OCR artifacts and standardizes name formatting while
+ * preserving cultural naming conventions and punctuation. Letters of every
+ * script are kept ("José Müller", "محمد الأحمد", "王小明").
+ *
+ * @param name - Raw name string from OCR
+ * @returns Cleaned and properly formatted name
+ */
+export function cleanName(name: string): string {
+  return name
+    .replace(/[^\p{L}\p{M}\s.,'’·・-]/gu, "") // Keep letters of any script, combining marks, spaces, dots, commas, apostrophes, hyphens
+    .replace(/^[\s,]+|[\s,]+$/g, "") // Commas only separate post-nominals ("Jane Doe, PhD")
+    .replace(/\s*,\s*/g, ", ")
+    .replace(/\s+/g, " "); // Normalize whitespace
+}
+
+/**
+ * Company Name Cleaning and Standardization
+ *
+ * Removes formatting artifacts while preserving proper business
+ * entity indicators and special characters.
+ *
+ * @param company - Raw company name from OCR
+ * @returns Cleaned company name
+ */
+export function cleanCompany(company: string): string {
+  return company.trim().replace(/\s+/g, " ").replace(/,$/, ""); // Remove trailing comma
+}
+
+/**
+ * Job Title Cleaning and Formatting
+ *
+ * Standardizes job title formatting and removes OCR artifacts
+ * while preserving professional title structure.
+ *
+ * @param title - Raw job title from OCR
+ * @returns Cleaned job title
+ */
+export function cleanJobTitle(title: string): string {
+  return title.trim().replace(/\s+/g, " ");
+}
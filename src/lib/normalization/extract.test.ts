@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { cleanAndNormalizeData } from "@/lib/normalization";
+import { loadCardFixtures } from "@/lib/normalization/__fixtures__";
+import type { TextSegment } from "@/lib/ocr";
+
+// Builds a word segment with a horizontal box whose height stands in for font size
+function word(text: string, x: number, y: number, height: number): TextSegment {
+  const width = text.length * height * 0.6;
+  return {
+    text,
+    confidence: 0.98,
+    boundingBox: {
+      vertices: [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ],
+    },
+  };
+}
+
+describe("cleanAndNormalizeData", () => {
+  describe("fixture corpus", () => {
+    it.each(loadCardFixtures().map((fixture) => [fixture.name, fixture]))(
+      "%s",
+      async (_, fixture) => {
+        const { data } = await cleanAndNormalizeData(fixture.text);
+        expect(data).toEqual(fixture.expected);
+      },
+    );
+  });
+
+  it("records provenance for every extracted field", async () => {
+    const text = "John Smith\nSenior Software Engineer\njohn.smith@acme.com\n";
+    const { data, fields } = await cleanAndNormalizeData(text, [], 0.9);
+
+    expect(Object.keys(fields).sort()).toEqual(Object.keys(data).sort());
+    expect(fields.email).toMatchObject({
+      rule: "regex:email",
+      span: { text: "john.smith@acme.com", start: 36, end: 55 },
+    });
+    expect(fields.name?.rule).toBe("heuristic:name");
+    for (const provenance of Object.values(fields)) {
+      expect(provenance.confidence).toBeGreaterThan(0);
+      expect(provenance.confidence).toBeLessThanOrEqual(0.9);
+    }
+  });
+
+  it("lowers confidence when OCR correction altered the email", async () => {
+    const { fields } = await cleanAndNormalizeData("j0hn@acme.com", [], 1);
+
+    expect(fields.email?.rule).toBe("regex:email+ocr-correction");
+    expect(fields.email?.confidence).toBeLessThan(0.9);
+  });
+
+  it("corrects the email against the name and website and keeps the OCR reading", async () => {
+    const text = "John Smith\nj0hn.sm1th@acme.c0m\nwww.acme.com\n";
+    const { data, fields } = await cleanAndNormalizeData(text, [], 1);
+
+    expect(data.email).toBe("john.smith@acme.com");
+    expect(fields.email).toMatchObject({
+      rule: "regex:email+ocr-correction",
+      original: "j0hn.sm1th@acme.c0m",
+    });
+    expect(fields.website?.original).toBeUndefined();
+  });
+
+  it("parses phone numbers in the requested default region", async () => {
+    const text = "Jane Doe\njane@acme.co.uk\nT: 020 7946 0958 ext. 12\n";
+    const { data, fields } = await cleanAndNormalizeData(text, [], 1, {
+      defaultRegion: "GB",
+    });
+
+    expect(data).toMatchObject({
+      phone: "+442079460958",
+      phone_display: "+44 20 7946 0958",
+      phone_extension: "12",
+    });
+    expect(fields.phone?.span.text).toBe("020 7946 0958 ext. 12");
+  });
+
+  it("keeps the fax number out of the primary phone", async () => {
+    const { data, fields } = await cleanAndNormalizeData(
+      "Jane Doe\nF: (212) 736-5001\nT: (212) 736-5000\n",
+    );
+
+    expect(data.phone).toBe("+12127365000");
+    expect(data.phones?.map(({ type, primary }) => [type, primary])).toEqual([
+      ["fax", false],
+      ["office", true],
+    ]);
+    expect(fields.phone?.span.text).toBe("(212) 736-5000");
+  });
+
+  it("flags invalid phone numbers instead of storing them", async () => {
+    const { data, warnings } = await cleanAndNormalizeData(
+      "Jane Doe\n(555) 123-4567\n",
+    );
+
+    expect(data.phone).toBeUndefined();
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        code: "invalid_phone",
+        field: "phone",
+        value: "(555) 123-4567",
+      }),
+    ]);
+  });
+
+  it("keeps social profile links out of the website and phone numbers", async () => {
+    const { data, warnings } = await cleanAndNormalizeData(
+      "Jane Doe\nhttps://www.linkedin.com/in/jane-doe\nwa.me/447911123456\n",
+    );
+
+    expect(data.website).toBeUndefined();
+    expect(data.phones).toBeUndefined();
+    expect(data.social_profiles?.map(({ network }) => network)).toEqual([
+      "linkedin",
+      "whatsapp",
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("uses the card layout when word boxes are available", async () => {
+    // Reading order puts the title first, but the geometry shows the large name above it
+    const text = "Head of Sales\nNORTHWIND TRADERS\nJane Doe\n";
+    const segments = [
+      word("NORTHWIND", 100, 50, 60),
+      word("TRADERS", 500, 50, 60),
+      word("Jane", 100, 300, 36),
+      word("Doe", 220, 300, 36),
+      word("Head", 100, 350, 20),
+      word("of", 160, 350, 20),
+      word("Sales", 200, 350, 20),
+    ];
+
+    const { data, fields } = await cleanAndNormalizeData(text, segments, 0.98);
+
+    expect(data).toEqual({
+      name: "Jane Doe",
+      name_first: "Jane",
+      name_last: "Doe",
+      company: "NORTHWIND TRADERS",
+      job_title: "Head of Sales",
+    });
+    expect(fields.name?.rule).toBe("layout:name");
+    expect(fields.company?.span.text).toBe("NORTHWIND TRADERS");
+  });
+});
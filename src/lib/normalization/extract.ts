@@ -0,0 +1,493 @@
+/**
+ * Lead Extraction Engine
+ *
+ * Turns raw OCR output into structured, cleaned lead data with per-field provenance.
+ *
+ * @module normalization/extract
+ * @author Ahmed Kamal
+ */
+
+import type { TextSegment } from "@/lib/ocr";
+import { classifyLayout } from "@/lib/normalization/layout";
+import { findAddress } from "@/lib/normalization/address";
+import { isNativeScript } from "@/lib/normalization/script";
+import {
+  emailRegex,
+  phoneRegex,
+  websiteRegex,
+} from "@/lib/normalization/patterns";
+import {
+  isContactLine,
+  isLikelyCompany,
+  isLikelyJobTitle,
+  isLikelyName,
+} from "@/lib/normalization/classifiers";
+import {
+  cleanCompany,
+  cleanJobTitle,
+  cleanName,
+} from "@/lib/normalization/cleaners";
+import {
+  correctEmail,
+  correctWebsite,
+} from "@/lib/normalization/ocr-correction";
+import { reconcileFields } from "@/lib/normalization/reconcile";
+import { findSocialProfiles } from "@/lib/normalization/social";
+import { nameFields } from "@/lib/normalization/name";
+import {
+  classifyPhone,
+  parsePhone,
+  phoneTypeFromLabel,
+  resolveDefaultRegion,
+  selectPrimaryPhone,
+  type CountryCode,
+} from "@/lib/normalization/phone";
+import type {
+  ExtractionResult,
+  ExtractionWarning,
+  LeadData,
+  LeadField,
+  LeadFieldProvenance,
+  LeadPhone,
+  SourceSpan,
+} from "@/models/lead";
+
+// Fields scoring below this confidence are flagged for human review
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+/**
+ * Per-upload normalization settings.
+ */
+export type NormalizationOptions = {
+  /** Region for phone numbers written without a country code (default: see `resolveDefaultRegion`) */
+  defaultRegion?: CountryCode;
+};
+
+/**
+ * Demo Business Card Data Normalization Engine
+ *
+ * Transforms raw OCR text into structured lead data using sophisticated
+ * pattern matching, heuristic classification, and OCR error correction.
+ *
+ * Algorithm Overview:
+ * 1. **Multi-Pattern Field Extraction**: Uses specialized regex patterns for
+ *    emails, phones, and websites with OCR error tolerance
+ * 2. **Contextual Field Classification**: Employs heuristics to distinguish
+ *    names, companies, and job titles based on position, format, and keywords.
+ *    When word bounding boxes are available, the card layout is reconstructed
+ *    (see `classifyLayout`) so font size and grouping drive the decision
+ *    Postal addresses (US, UK, EU and GCC formats) are split into structured
+ *    parts (see `findAddress`) and excluded from the other classifications.
+ *    The name is split into prefix, first, middle, last and suffix (see `parseName`)
+ * 3. **OCR Error Correction**: Fixes common OCR misreadings (0/O, 1/l) in emails
+ *    and websites only where the name, website/email domain or public suffix list
+ *    confirms the correction (see `correctEmail`); the OCR reading is kept as `original`
+ * 4. **Cross-Field Reconciliation**: Missing company/website are inferred from a
+ *    company email domain and domain conflicts are flagged (see `reconcileFields`)
+ * 5. **Smart Field Prioritization**: Handles cases where multiple candidates
+ *    exist for the same field type
+ * 6. **Provenance Tracking**: Every field carries a confidence score (OCR word
+ *    confidence weighted by rule reliability), the rule that produced it and
+ *    the source text span, so reviewers can focus on low-confidence fields
+ *
+ * Design Philosophy:
+ * - **Graceful Degradation**: Returns partial data rather than failing completely
+ * - **Business Card Agnostic**: Works with various layouts (horizontal, vertical, creative)
+ * - **Cultural Awareness**: Handles international phone/name formats
+ * - **Production Robustness**: Extensive input sanitization and validation
+ *
+ * @param text - Raw text extracted from business card via OCR
+ * @param textSegments - Optional word-level OCR segments with bounding boxes
+ * @param ocrConfidence - Overall OCR confidence (0..1), used to weight field scores
+ * @param options - Per-upload settings such as the default phone region
+ * @returns Promise<ExtractionResult> - Cleaned lead data plus per-field confidence,
+ *   producing rule and source text span, and warnings (e.g. invalid phone numbers)
+ *
+ * @example
+ * const rawText = `
+ *   John Smith
+ *   Senior Software Engineer
+ *   Acme Technologies Inc.
+ *   john.smith@acme.com
+ *   (312) 555-0123
+ *   www.acme.com
+ * `;
+ *
+ * const { data, fields } = await cleanAndNormalizeData(rawText);
+ * // data:   { name: "John Smith", email: "john.smith@acme.com", ... }
+ * // fields: { email: { confidence: 0.95, rule: "regex:email", span: {...} }, ... }
+ */
+export async function cleanAndNormalizeData(
+  text: string,
+  textSegments: TextSegment[] = [],
+  ocrConfidence = 1,
+  options: NormalizationOptions = {},
+): Promise<ExtractionResult> {
+  const lines = text.split("\n").filter((line) => line.trim().length > 0);
+  const result: LeadData = {};
+  const fields: LeadFieldProvenance = {};
+  const warnings: ExtractionWarning[] = [];
+  const defaultRegion = options.defaultRegion || resolveDefaultRegion();
+
+  // Records a field value together with the rule and source text that produced it
+  const setField = (
+    field: LeadField,
+    value: string,
+    rule: string,
+    source: string,
+    confidence: number,
+    original?: string,
+  ) => {
+    if (!value) return;
+    result[field] = value;
+    fields[field] = {
+      confidence: roundConfidence(confidence),
+      rule,
+      span: locateSpan(text, source),
+      ...(original && { original }),
+    };
+  };
+
+  // Social Profiles and Messaging Handles
+  // Profile links are neither the company website nor phone numbers, so they are
+  // blanked out (offsets preserved) before website and phone detection
+  const socialProfiles = findSocialProfiles(text, defaultRegion);
+  if (socialProfiles.length > 0) {
+    result.social_profiles = socialProfiles.map((match) => match.profile);
+  }
+  let contactText = text;
+  for (const { start, end, link } of socialProfiles) {
+    if (!link) continue;
+    contactText =
+      contactText.slice(0, start) +
+      " ".repeat(end - start) +
+      contactText.slice(end);
+  }
+
+  // Email Extraction with OCR Error Tolerance
+  // Corrected at the end, once the name and website it is cross-checked against are known
+  const emailSource = text.match(emailRegex)?.[0];
+
+  // Phone Number Extraction, Labeling and International Formatting
+  // Every valid number is kept with its type ("T:", "M:", "F:" labels); invalid ones are flagged
+  const phones: LeadPhone[] = [];
+  const phoneSources = new Map<string, string>();
+  let previousEnd = 0;
+  // Arabic-Indic digits (common on Arabic cards) map 1:1 to ASCII, keeping offsets intact
+  const phoneText = contactText
+    .replace(/[٠-٩]/g, (digit) => String(digit.charCodeAt(0) - 0x660))
+    .replace(/[۰-۹]/g, (digit) => String(digit.charCodeAt(0) - 0x6f0));
+  for (const match of phoneText.matchAll(phoneRegex)) {
+    const start = match.index!;
+    const lineStart = phoneText.lastIndexOf("\n", start - 1) + 1;
+    const label =
+      phoneTypeFromLabel(
+        phoneText.slice(Math.max(lineStart, previousEnd), start),
+      ) ||
+      phoneTypeFromLabel(
+        /^\s*\(([a-z]+)\)/i.exec(
+          phoneText.slice(start + match[0].length),
+        )?.[1] || "",
+      );
+    previousEnd = start + match[0].length;
+
+    const phone = parsePhone(match[0], defaultRegion);
+    if (!phone.valid) {
+      warnings.push({
+        code: "invalid_phone",
+        field: "phone",
+        message: `"${phone.raw}" is not a valid phone number for region ${defaultRegion}`,
+        value: phone.raw,
+      });
+      continue;
+    }
+    // Cards sometimes repeat a number (e.g. front and back); keep the first occurrence
+    if (phones.some((existing) => existing.e164 === phone.e164)) continue;
+
+    phones.push({
+      type: classifyPhone(phone, label),
+      e164: phone.e164!,
+      display: phone.display!,
+      ...(phone.extension && { extension: phone.extension }),
+      primary: false,
+    });
+    phoneSources.set(
+      phone.e164!,
+      text.slice(start, start + match[0].length).trim(),
+    );
+  }
+
+  if (phones.length > 0) {
+    result.phones = selectPrimaryPhone(phones);
+    const primary = result.phones.find((phone) => phone.primary);
+    if (primary) {
+      const source = phoneSources.get(primary.e164)!;
+      // Numbers written with an explicit country code don't depend on the region guess
+      const explicitCountry = source.startsWith("+");
+      setField(
+        "phone",
+        primary.e164,
+        "regex:phone",
+        source,
+        ocrConfidence * (explicitCountry ? 0.95 : 0.85),
+      );
+      result.phone_display = primary.display;
+      if (primary.extension) result.phone_extension = primary.extension;
+    }
+  }
+
+  // Website/Domain Extraction with Protocol Handling
+  // OCR misreadings are corrected when the email domain or the public suffix list confirms them
+  const websiteMatches = contactText.match(websiteRegex);
+  if (websiteMatches) {
+    const website = correctWebsite(websiteMatches[0], {
+      emailDomain: emailSource?.split("@")[1].toLowerCase(),
+    });
+    setField(
+      "website",
+      website.value,
+      website.corrected ? "regex:website+ocr-correction" : "regex:website",
+      websiteMatches[0],
+      ocrConfidence *
+        (website.corrected
+          ? 0.7
+          : websiteMatches[0].startsWith("www.")
+            ? 0.9
+            : 0.75),
+      website.corrected ? website.original : undefined,
+    );
+  }
+
+  // Postal Address Extraction
+  // Anchored on the city/postal code line, extended with street and country lines
+  const address = findAddress(lines.filter((line) => !isContactLine(line)));
+  if (address) {
+    const sourceLine = (value: string) =>
+      address.lines.find((line) => line.includes(value)) || value;
+    const addressConfidence =
+      ocrConfidence *
+      (address.format === "us" || address.format === "uk" ? 0.85 : 0.75);
+    const addressFields = [
+      ["address_street", address.street],
+      ["address_city", address.city],
+      ["address_region", address.region],
+      ["address_postal_code", address.postalCode],
+    ] as const;
+
+    for (const [field, value] of addressFields) {
+      if (!value) continue;
+      setField(
+        field,
+        value,
+        `address:${address.format}`,
+        // Multi-line streets are joined with ", " and span several lines
+        field === "address_street" ? value.split(", ")[0] : sourceLine(value),
+        addressConfidence,
+      );
+    }
+    if (address.country) {
+      // Country is often implied by the format (e.g. a US ZIP code), not printed
+      setField(
+        "address_country",
+        address.country,
+        `address:${address.format}`,
+        address.lines[address.lines.length - 1],
+        addressConfidence,
+      );
+    }
+  }
+
+  // Layout-Aware Field Classification
+  // Uses word geometry (font size, position, grouping) to pick name, company and title
+  if (textSegments.length > 0) {
+    const layout = classifyLayout(textSegments, {
+      isLikelyName,
+      isLikelyCompany,
+      isLikelyJobTitle,
+      isContactLine,
+    });
+
+    const layoutFields = [
+      ["name", layout.name, cleanName],
+      ["company", layout.company, cleanCompany],
+      ["job_title", layout.jobTitle, cleanJobTitle],
+    ] as const;
+
+    for (const [field, match, clean] of layoutFields) {
+      if (!match) continue;
+      // On bilingual cards the native-script line is kept apart from the Latin one
+      const target = isNativeScript(match.line.text)
+        ? (`${field}_native` as const)
+        : field;
+      setField(
+        target,
+        clean(match.line.text),
+        `layout:${field}`,
+        match.line.text,
+        segmentConfidence(match.line.segments, ocrConfidence) *
+          layoutScoreConfidence(match.score),
+      );
+    }
+  }
+
+  // Heuristic-Based Field Classification
+  // Process remaining text lines to fill fields the layout analysis could not resolve
+  const usedLines = new Set(
+    [
+      result.name,
+      result.company,
+      result.job_title,
+      result.name_native,
+      result.company_native,
+      result.job_title_native,
+      ...(address?.lines || []),
+    ].filter(Boolean),
+  );
+  for (const line of lines) {
+    if (
+      !isContactLine(line) &&
+      !usedLines.has(line.trim().replace(/\s+/g, " ")) &&
+      line.length > 2 &&
+      line.length < 50
+    ) {
+      // Bilingual cards: native-script lines fill the `*_native` fields
+      const native = isNativeScript(line);
+      const name = native ? "name_native" : "name";
+      const company = native ? "company_native" : "company";
+      const jobTitle = native ? "job_title_native" : "job_title";
+
+      if (!result[name] && isLikelyName(line)) {
+        setField(
+          name,
+          cleanName(line),
+          "heuristic:name",
+          line,
+          ocrConfidence * 0.7,
+        );
+      } else if (!result[company] && isLikelyCompany(line)) {
+        setField(
+          company,
+          cleanCompany(line),
+          "heuristic:company",
+          line,
+          ocrConfidence * 0.6,
+        );
+      } else if (!result[jobTitle] && isLikelyJobTitle(line)) {
+        setField(
+          jobTitle,
+          cleanJobTitle(line),
+          "heuristic:job_title",
+          line,
+          ocrConfidence * 0.75,
+        );
+      }
+    }
+  }
+
+  // Cards printed only in a native script still need the main fields filled
+  for (const field of ["name", "company", "job_title"] as const) {
+    const native = `${field}_native` as const;
+    if (!result[field] && result[native]) {
+      result[field] = result[native];
+      fields[field] = fields[native];
+    }
+  }
+
+  if (emailSource) {
+    const email = correctEmail(emailSource, {
+      name: result.name,
+      website: result.website,
+    });
+    // Values altered by OCR correction are less certain than verbatim matches
+    setField(
+      "email",
+      email.value,
+      email.corrected ? "regex:email+ocr-correction" : "regex:email",
+      emailSource,
+      ocrConfidence * (email.corrected ? 0.8 : 0.95),
+      email.corrected ? email.original : undefined,
+    );
+  }
+
+  // Cross-field reconciliation: fill company/website from the email domain, flag conflicts
+  const reconciliation = reconcileFields(result, lines);
+  for (const [field, inferred] of Object.entries(reconciliation.inferred)) {
+    setField(
+      field as LeadField,
+      inferred.value,
+      inferred.rule,
+      inferred.source,
+      ocrConfidence * inferred.confidence,
+    );
+  }
+  warnings.push(...reconciliation.warnings);
+
+  // Structured name parts for CRMs, traced back to the full name
+  for (const [field, value] of Object.entries(nameFields(result.name))) {
+    if (!value) continue;
+    result[field as LeadField] = value;
+    fields[field as LeadField] = fields.name;
+  }
+
+  return { data: result, fields, warnings };
+}
+
+/**
+ * Source Span Location
+ *
+ * Finds where an extracted fragment occurs in the raw OCR text. Layout-based
+ * values are rebuilt from word boxes and may differ in whitespace from the
+ * raw text, so the lookup tolerates any whitespace between words.
+ *
+ * @param text - Raw OCR text
+ * @param fragment - Source fragment a field was extracted from
+ * @returns Span with character offsets, or -1 offsets when not found
+ */
+function locateSpan(text: string, fragment: string): SourceSpan {
+  const trimmed = fragment.trim();
+  const start = text.indexOf(trimmed);
+
+  if (start === -1) {
+    const pattern = trimmed
+      .split(/\s+/)
+      .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join("\\s+");
+    const match = new RegExp(pattern).exec(text);
+    if (match) {
+      return {
+        text: match[0],
+        start: match.index,
+        end: match.index + match[0].length,
+      };
+    }
+    return { text: trimmed, start: -1, end: -1 };
+  }
+
+  return { text: trimmed, start, end: start + trimmed.length };
+}
+
+/**
+ * Mean OCR confidence of the words a value was built from, falling back to
+ * the overall OCR confidence when the provider reports none.
+ */
+function segmentConfidence(segments: TextSegment[], fallback: number): number {
+  const scores = segments
+    .map((segment) => segment.confidence)
+    .filter((confidence) => confidence > 0);
+  if (scores.length === 0) return fallback;
+  return (
+    scores.reduce((sum, confidence) => sum + confidence, 0) / scores.length
+  );
+}
+
+/**
+ * Maps a layout candidate score (acceptance threshold 1.5, strong matches 4+)
+ * onto a 0.55..0.95 rule confidence.
+ */
+function layoutScoreConfidence(score: number): number {
+  return Math.min(0.95, 0.55 + (score - 1.5) * 0.12);
+}
+
+function roundConfidence(confidence: number): number {
+  return Math.round(Math.max(0, Math.min(1, confidence)) * 100) / 100;
+}
@@ -0,0 +1,108 @@
+/**
+ * Free-Mail Providers
+ *
+ * Email domains of public mailbox providers. An address on one of these domains
+ * says nothing about the person's employer, so it must not be used to infer the
+ * company or website of a lead.
+ *
+ * @module normalization/free-mail
+ * @author Ahmed Kamal
+ */
+
+import { getDomain } from "tldts";
+
+// Registrable domains of public mailbox providers, lowercase
+export const FREE_MAIL_DOMAINS = new Set([
+  // Global
+  "gmail.com",
+  "googlemail.com",
+  "outlook.com",
+  "hotmail.com",
+  "live.com",
+  "msn.com",
+  "yahoo.com",
+  "ymail.com",
+  "rocketmail.com",
+  "aol.com",
+  "icloud.com",
+  "me.com",
+  "mac.com",
+  "proton.me",
+  "protonmail.com",
+  "pm.me",
+  "tutanota.com",
+  "tuta.io",
+  "zoho.com",
+  "zohomail.com",
+  "gmx.com",
+  "gmx.net",
+  "mail.com",
+  "yandex.com",
+  "fastmail.com",
+  "hey.com",
+  "hushmail.com",
+  // Regional
+  "hotmail.co.uk",
+  "yahoo.co.uk",
+  "btinternet.com",
+  "sky.com",
+  "virginmedia.com",
+  "gmx.de",
+  "web.de",
+  "t-online.de",
+  "freenet.de",
+  "orange.fr",
+  "wanadoo.fr",
+  "free.fr",
+  "laposte.net",
+  "sfr.fr",
+  "libero.it",
+  "virgilio.it",
+  "hotmail.fr",
+  "hotmail.it",
+  "hotmail.es",
+  "yahoo.fr",
+  "yahoo.de",
+  "yahoo.es",
+  "yahoo.it",
+  "yahoo.co.in",
+  "rediffmail.com",
+  "yandex.ru",
+  "mail.ru",
+  "inbox.ru",
+  "bk.ru",
+  "list.ru",
+  "rambler.ru",
+  "qq.com",
+  "163.com",
+  "126.com",
+  "sina.com",
+  "sohu.com",
+  "naver.com",
+  "daum.net",
+  "hanmail.net",
+  "yahoo.co.jp",
+  "comcast.net",
+  "verizon.net",
+  "att.net",
+  "sbcglobal.net",
+  "cox.net",
+  "bigpond.com",
+  "shaw.ca",
+  "rogers.com",
+  "sympatico.ca",
+  "uol.com.br",
+  "bol.com.br",
+  "terra.com.br",
+]);
+
+/**
+ * @param domain - Email or website domain, e.g. "gmail.com" or "mail.yahoo.co.uk"
+ * @returns True if the domain belongs to a public mailbox provider
+ */
+export function isFreeMailDomain(domain: string): boolean {
+  const host = domain.trim().toLowerCase();
+  return (
+    FREE_MAIL_DOMAINS.has(host) || FREE_MAIL_DOMAINS.has(getDomain(host) || "")
+  );
+}
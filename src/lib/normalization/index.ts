@@ -0,0 +1,112 @@
+/**
+ * Business Card Normalization Engine
+ *
+ * Public API for turning raw OCR output (or manually entered data) into clean,
+ * structured lead data. Everything outside this package should import from
+ * `@/lib/normalization` rather than from individual modules.
+ *
+ * - `cleanAndNormalizeData`: full extraction pipeline with per-field provenance
+ * - `normalizeLeadInput`: canonical formatting for manual entry and imports
+ * - `parsePhone`: international phone parsing to E.164 with a default region
+ * - `correctEmail`/`correctWebsite`: OCR correction cross-checked against the card
+ * - `reconcileFields`: company/website inference from the email domain, conflict checks
+ * - `findSocialProfiles`: social profile links and messaging handles (LinkedIn, X, WhatsApp, ...)
+ * - `parseContactPayload`/`mergeDecodedContact`: vCard/MECARD QR payloads merged over OCR
+ * - `mergeCardSides`: front and back of a two-sided card merged with conflict rules
+ * - `parseName`: personal name split into prefix, first, middle, last and suffix
+ * - `detectScript`: writing-script detection for non-Latin and bilingual cards
+ * - Field cleaners and line classifiers for reuse in custom pipelines
+ *
+ * @module normalization
+ * @author Ahmed Kamal
+ */
+
+export {
+  cleanAndNormalizeData,
+  LOW_CONFIDENCE_THRESHOLD,
+  type NormalizationOptions,
+} from "@/lib/normalization/extract";
+export { normalizeLeadInput } from "@/lib/normalization/manual";
+export {
+  classifyPhone,
+  parsePhone,
+  phoneTypeFromLabel,
+  resolveDefaultRegion,
+  selectPrimaryPhone,
+  type CountryCode,
+  type ParsedPhone,
+} from "@/lib/normalization/phone";
+export {
+  countryCode,
+  findAddress,
+  isLikelyStreetLine,
+  type AddressFormat,
+  type ParsedAddress,
+} from "@/lib/normalization/address";
+export {
+  correctEmail,
+  correctWebsite,
+  hasKnownSuffix,
+  type Correction,
+  type CorrectionContext,
+} from "@/lib/normalization/ocr-correction";
+export {
+  reconcileFields,
+  type InferredField,
+  type Reconciliation,
+} from "@/lib/normalization/reconcile";
+export {
+  FREE_MAIL_DOMAINS,
+  isFreeMailDomain,
+} from "@/lib/normalization/free-mail";
+export {
+  findSocialProfiles,
+  isSocialLine,
+  type SocialMatch,
+} from "@/lib/normalization/social";
+export {
+  mergeDecodedContact,
+  parseContactPayload,
+  type DecodedContact,
+} from "@/lib/normalization/vcard";
+export { mergeCardSides, sideFields } from "@/lib/normalization/sides";
+export {
+  nameFields,
+  parseName,
+  type ParsedName,
+} from "@/lib/normalization/name";
+export {
+  detectScript,
+  isCasedScript,
+  isNativeScript,
+  isRtlScript,
+  type Script,
+} from "@/lib/normalization/script";
+export { locateSourceRegions } from "@/lib/normalization/source-regions";
+export {
+  cleanCompany,
+  cleanEmail,
+  cleanJobTitle,
+  cleanName,
+  cleanPhoneNumber,
+  cleanWebsite,
+} from "@/lib/normalization/cleaners";
+export {
+  isContactLine,
+  isLikelyCompany,
+  isLikelyJobTitle,
+  isLikelyName,
+} from "@/lib/normalization/classifiers";
+export {
+  buildBlocks,
+  buildLines,
+  classifyLayout,
+  type LayoutBlock,
+  type LayoutClassification,
+  type LayoutLine,
+  type Rect,
+} from "@/lib/normalization/layout";
+export {
+  detectCardRegions,
+  type CardRegion,
+} from "@/lib/normalization/card-regions";
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { buildBlocks, buildLines } from "@/lib/normalization";
+import type { TextSegment } from "@/lib/ocr";
+
+function word(text: string, x: number, y: number, height: number): TextSegment {
+  const width = text.length * height * 0.6;
+  return {
+    text,
+    confidence: 1,
+    boundingBox: {
+      vertices: [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ],
+    },
+  };
+}
+
+describe("buildLines", () => {
+  it("joins words on the same baseline in reading order", () => {
+    const lines = buildLines([
+      word("Doe", 220, 302, 36),
+      word("Jane", 100, 300, 36),
+    ]);
+
+    expect(lines.map((line) => line.text)).toEqual(["Jane Doe"]);
+    expect(lines[0].height).toBe(36);
+  });
+
+  it("keeps side-by-side columns as separate lines", () => {
+    const lines = buildLines([
+      word("Jane", 100, 300, 20),
+      word("Doe", 170, 300, 20),
+      word("jane@acme.com", 900, 300, 20),
+    ]);
+
+    expect(lines.map((line) => line.text)).toEqual([
+      "Jane Doe",
+      "jane@acme.com",
+    ]);
+  });
+});
+
+describe("buildBlocks", () => {
+  it("groups a name with the title set directly below it", () => {
+    const lines = buildLines([
+      word("Jane", 100, 300, 36),
+      word("Doe", 220, 300, 36),
+      word("CEO", 100, 345, 20),
+      word("Acme", 100, 600, 20),
+    ]);
+
+    const blocks = buildBlocks(lines);
+
+    expect(blocks.map((block) => block.lines.map((line) => line.text))).toEqual(
+      [["Jane Doe", "CEO"], ["Acme"]],
+    );
+  });
+});
@@ -0,0 +1,374 @@
+/**
+ * Layout Analysis for Business Cards
+ *
+ * Reconstructs the visual structure of a card from word-level OCR bounding boxes and uses
+ * it to classify the free-text fields (name, company, job title, address).
+ *
+ * Plain-text heuristics only see lines in reading order, so they break on cards where the
+ * name sits below the company logo or where contact details live in a side column. The
+ * geometry carries the signals a human reader uses instead:
+ *
+ * - **Font size**: box height - names and logo text are typeset larger than contact details
+ * - **Position**: vertical/horizontal placement on the card
+ * - **Grouping**: a title is almost always set directly under the name it belongs to,
+ *   addresses form their own block of consecutive lines
+ *
+ * Pipeline:
+ * 1. `buildLines`  - words → visual lines (same baseline, no large horizontal gap)
+ * 2. `buildBlocks` - lines → blocks (vertically adjacent, aligned, similar font size)
+ * 3. `classifyLayout` - scores every line as name/company/title candidate and assigns
+ *    the best non-conflicting candidates
+ *
+ * @module normalization/layout
+ * @author Ahmed Kamal
+ */
+
+import type { TextSegment } from "@/lib/ocr";
+import { STREET_KEYWORDS } from "@/lib/normalization/address";
+
+/**
+ * Axis-aligned bounding rectangle in image pixel coordinates.
+ */
+export type Rect = {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+};
+
+/**
+ * A visual line of text reconstructed from word segments.
+ */
+export type LayoutLine = {
+  text: string;
+  rect: Rect;
+  /** Median word height, used as a proxy for font size */
+  height: number;
+  segments: TextSegment[];
+};
+
+/**
+ * A group of visually related lines (e.g. name + title, or a multi-line address).
+ */
+export type LayoutBlock = {
+  lines: LayoutLine[];
+  rect: Rect;
+};
+
+/**
+ * Line-level classification heuristics, injected so the layout analysis reuses the same
+ * linguistic rules as the plain-text extractor.
+ */
+export type LineClassifiers = {
+  isLikelyName: (text: string) => boolean;
+  isLikelyCompany: (text: string) => boolean;
+  isLikelyJobTitle: (text: string) => boolean;
+  /** Lines that carry contact details (email, phone, website) and must be skipped */
+  isContactLine: (text: string) => boolean;
+};
+
+/**
+ * A line selected for a field, with the heuristic score that won it.
+ */
+export type LayoutMatch = {
+  line: LayoutLine;
+  score: number;
+};
+
+/**
+ * Result of the layout classification. Each field references the winning line.
+ */
+export type LayoutClassification = {
+  name?: LayoutMatch;
+  company?: LayoutMatch;
+  jobTitle?: LayoutMatch;
+  address?: LayoutBlock;
+  blocks: LayoutBlock[];
+};
+
+type FieldKind = "name" | "company" | "jobTitle";
+
+type Candidate = {
+  line: LayoutLine;
+  field: FieldKind;
+  score: number;
+};
+
+// Minimum score for a line to be accepted as a field value
+const MIN_CANDIDATE_SCORE = 1.5;
+
+/**
+ * Computes the axis-aligned rectangle enclosing a segment's bounding polygon.
+ *
+ * Using min/max over all vertices keeps the rectangle valid for rotated text.
+ */
+export function segmentRect(segment: TextSegment): Rect | null {
+  const vertices = segment.boundingBox?.vertices || [];
+  if (vertices.length === 0) return null;
+
+  const xs = vertices.map((vertex) => vertex.x);
+  const ys = vertices.map((vertex) => vertex.y);
+  return {
+    left: Math.min(...xs),
+    top: Math.min(...ys),
+    right: Math.max(...xs),
+    bottom: Math.max(...ys),
+  };
+}
+
+/**
+ * Groups word segments into visual lines.
+ *
+ * Two words belong to the same line when their vertical centers are within half a word
+ * height of each other and the horizontal gap between them is not larger than a few
+ * character widths - the latter keeps side-by-side columns as separate lines.
+ *
+ * @param segments - Word-level OCR segments
+ * @returns Lines sorted top-to-bottom, then left-to-right
+ */
+export function buildLines(segments: TextSegment[]): LayoutLine[] {
+  const words = segments
+    .map((segment) => ({ segment, rect: segmentRect(segment) }))
+    .filter(
+      (word): word is { segment: TextSegment; rect: Rect } =>
+        word.rect !== null &&
+        word.segment.text.trim().length > 0 &&
+        word.rect.bottom > word.rect.top,
+    )
+    .sort((a, b) => a.rect.left - b.rect.left);
+
+  const lines: Array<{ words: typeof words; rect: Rect }> = [];
+
+  for (const word of words) {
+    const wordHeight = word.rect.bottom - word.rect.top;
+    const wordCenter = (word.rect.top + word.rect.bottom) / 2;
+
+    const line = lines.find((candidate) => {
+      const lineHeight = candidate.rect.bottom - candidate.rect.top;
+      const lineCenter = (candidate.rect.top + candidate.rect.bottom) / 2;
+      const gap = word.rect.left - candidate.rect.right;
+      return (
+        Math.abs(wordCenter - lineCenter) <
+          Math.min(wordHeight, lineHeight) / 2 &&
+        gap < Math.max(wordHeight, lineHeight) * 2.5
+      );
+    });
+
+    if (line) {
+      line.words.push(word);
+      line.rect = unionRect(line.rect, word.rect);
+    } else {
+      lines.push({ words: [word], rect: { ...word.rect } });
+    }
+  }
+
+  return lines
+    .map((line) => ({
+      text: line.words.map((word) => word.segment.text).join(" "),
+      rect: line.rect,
+      height: median(
+        line.words.map((word) => word.rect.bottom - word.rect.top),
+      ),
+      segments: line.words.map((word) => word.segment),
+    }))
+    .sort((a, b) => a.rect.top - b.rect.top || a.rect.left - b.rect.left);
+}
+
+/**
+ * Groups lines into blocks of visually related text.
+ *
+ * A line joins a block when it starts just below the block's last line (gap smaller than
+ * one line height), overlaps it horizontally, and has a comparable font size - a large
+ * name followed by a small title still groups, but only up to a 2.2x size ratio.
+ *
+ * @param lines - Lines produced by `buildLines`
+ * @returns Blocks sorted top-to-bottom
+ */
+export function buildBlocks(lines: LayoutLine[]): LayoutBlock[] {
+  const blocks: LayoutBlock[] = [];
+
+  for (const line of lines) {
+    const block = blocks.find((candidate) => {
+      const last = candidate.lines[candidate.lines.length - 1];
+      const verticalGap = line.rect.top - last.rect.bottom;
+      const sizeRatio =
+        Math.max(line.height, last.height) / Math.min(line.height, last.height);
+      return (
+        verticalGap >= -line.height / 2 &&
+        verticalGap < Math.max(line.height, last.height) * 1.2 &&
+        horizontalOverlap(line.rect, candidate.rect) > 0 &&
+        sizeRatio < 2.2
+      );
+    });
+
+    if (block) {
+      block.lines.push(line);
+      block.rect = unionRect(block.rect, line.rect);
+    } else {
+      blocks.push({ lines: [line], rect: { ...line.rect } });
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Classifies name, company, job title and address from the card geometry.
+ *
+ * Every eligible line is scored for each field using linguistic rules plus layout
+ * signals (relative font size, block membership, position). Candidates are then
+ * assigned greedily by score so one line can never fill two fields.
+ *
+ * @param segments - Word-level OCR segments with bounding boxes
+ * @param classifiers - Text heuristics shared with the plain-text extractor
+ * @returns Winning lines per field plus the reconstructed blocks
+ *
+ * @example
+ * const layout = classifyLayout(textSegments, classifiers);
+ * if (layout.name) console.log("Name:", layout.name.line.text);
+ */
+export function classifyLayout(
+  segments: TextSegment[],
+  classifiers: LineClassifiers,
+): LayoutClassification {
+  const lines = buildLines(segments);
+  const blocks = buildBlocks(lines);
+
+  if (lines.length === 0) {
+    return { blocks };
+  }
+
+  const medianHeight = median(lines.map((line) => line.height));
+  const maxHeight = Math.max(...lines.map((line) => line.height));
+  const cardTop = Math.min(...lines.map((line) => line.rect.top));
+  const cardBottom = Math.max(...lines.map((line) => line.rect.bottom));
+
+  const address = findAddressBlock(blocks, classifiers);
+  const addressLines = new Set(address?.lines || []);
+
+  const candidates: Candidate[] = [];
+
+  for (const block of blocks) {
+    block.lines.forEach((line, index) => {
+      const text = line.text.trim();
+      if (
+        addressLines.has(line) ||
+        classifiers.isContactLine(text) ||
+        text.length <= 2 ||
+        text.length >= 50
+      ) {
+        return;
+      }
+
+      const relativeSize = line.height / medianHeight;
+      const isLargest = line.height >= maxHeight * 0.9;
+      const hasDigits = /\d/.test(text);
+      const next = block.lines[index + 1];
+      const previous = block.lines[index - 1];
+      const verticalPosition =
+        (line.rect.top - cardTop) / Math.max(cardBottom - cardTop, 1);
+
+      const looksLikeName = classifiers.isLikelyName(text);
+      const looksLikeCompany = classifiers.isLikelyCompany(text);
+      const looksLikeTitle = classifiers.isLikelyJobTitle(text);
+
+      // Name: title-cased words, usually larger than body text, directly above the title
+      let nameScore = 0;
+      if (looksLikeName) nameScore += 2;
+      if (relativeSize > 1.15) nameScore += 1;
+      if (next && classifiers.isLikelyJobTitle(next.text)) nameScore += 1.5;
+      if (looksLikeTitle) nameScore -= 2;
+      if (looksLikeCompany) nameScore -= 1;
+      if (hasDigits) nameScore -= 3;
+
+      // Company: entity keywords/caps, or the logo - the largest text on the card
+      let companyScore = 0;
+      if (looksLikeCompany) companyScore += 2;
+      if (isLargest && !looksLikeName) companyScore += 1.5;
+      if (block.lines.length === 1 && relativeSize > 1.15) companyScore += 0.5;
+      if (verticalPosition < 0.25 || verticalPosition > 0.8)
+        companyScore += 0.25;
+      if (looksLikeTitle) companyScore -= 2;
+      if (hasDigits) companyScore -= 1;
+
+      // Job title: title keywords, set right below the name in the same block
+      let titleScore = 0;
+      if (looksLikeTitle) titleScore += 3;
+      if (previous && classifiers.isLikelyName(previous.text)) titleScore += 1;
+      if (relativeSize < 1) titleScore += 0.25;
+      if (hasDigits) titleScore -= 2;
+
+      candidates.push(
+        { line, field: "name", score: nameScore },
+        { line, field: "company", score: companyScore },
+        { line, field: "jobTitle", score: titleScore },
+      );
+    });
+  }
+
+  // Greedy assignment: highest scoring candidates claim their field and line first
+  const result: LayoutClassification = { blocks, address };
+  const usedLines = new Set<LayoutLine>();
+
+  for (const candidate of candidates.sort((a, b) => b.score - a.score)) {
+    if (candidate.score < MIN_CANDIDATE_SCORE) break;
+    if (result[candidate.field] || usedLines.has(candidate.line)) continue;
+
+    result[candidate.field] = {
+      line: candidate.line,
+      score: candidate.score,
+    };
+    usedLines.add(candidate.line);
+  }
+
+  return result;
+}
+
+/**
+ * Finds the block most likely to hold a postal address: it contains street/PO box
+ * keywords or house numbers mixed with words, and is not a contact-details line.
+ */
+function findAddressBlock(
+  blocks: LayoutBlock[],
+  classifiers: LineClassifiers,
+): LayoutBlock | undefined {
+  let best: { block: LayoutBlock; score: number } | undefined;
+
+  for (const block of blocks) {
+    let score = 0;
+    for (const line of block.lines) {
+      const text = line.text.trim();
+      if (classifiers.isContactLine(text)) continue;
+      if (STREET_KEYWORDS.test(text)) score += 2;
+      if (/^\d{1,5}\s+\p{L}/u.test(text)) score += 1; // "123 Main ..."
+      if (/\b\d{4,6}\b/.test(text) && /[a-z]{3,}/i.test(text)) score += 0.5; // postal codes
+    }
+    if (score >= 2 && (!best || score > best.score)) {
+      best = { block, score };
+    }
+  }
+
+  return best?.block;
+}
+
+function unionRect(a: Rect, b: Rect): Rect {
+  return {
+    left: Math.min(a.left, b.left),
+    top: Math.min(a.top, b.top),
+    right: Math.max(a.right, b.right),
+    bottom: Math.max(a.bottom, b.bottom),
+  };
+}
+
+function horizontalOverlap(a: Rect, b: Rect): number {
+  return Math.min(a.right, b.right) - Math.max(a.left, b.left);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { normalizeLeadInput } from "@/lib/normalization";
+
+describe("normalizeLeadInput", () => {
+  it("applies canonical formats without OCR correction", () => {
+    const { data, warnings } = normalizeLeadInput({
+      name: "  Jane   Doe ",
+      email: " Jane2021@Acme.COM ",
+      phone: "(312) 555-0123 ext. 7",
+      website: "www.acme.com",
+      company: "Acme Corp,",
+    });
+
+    expect(data).toEqual({
+      name: "Jane Doe",
+      name_first: "Jane",
+      name_last: "Doe",
+      email: "jane2021@acme.com",
+      phone: "+13125550123",
+      phone_display: "+1 312 555 0123",
+      phone_extension: "7",
+      phones: [
+        {
+          type: "other",
+          e164: "+13125550123",
+          display: "+1 312 555 0123",
+          extension: "7",
+          primary: true,
+        },
+      ],
+      website: "acme.com",
+      company: "Acme Corp",
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it("parses phone numbers in the default region", () => {
+    const { data } = normalizeLeadInput(
+      { phone: "020 7946 0958" },
+      { defaultRegion: "GB" },
+    );
+
+    expect(data).toMatchObject({
+      phone: "+442079460958",
+      phone_display: "+44 20 7946 0958",
+      phones: [expect.objectContaining({ type: "office", primary: true })],
+    });
+  });
+
+  it("stores known country names as ISO codes", () => {
+    const { data } = normalizeLeadInput({
+      address_city: " Abu   Dhabi ",
+      address_country: "U.A.E.",
+    });
+
+    expect(data).toEqual({ address_city: "Abu Dhabi", address_country: "AE" });
+  });
+
+  it("keeps native-script fields next to the Latin ones", () => {
+    const { data } = normalizeLeadInput({
+      name: "Omar Al Hashimi",
+      name_native: "  عمر   الهاشمي ",
+      company_native: "شركة صقر الصحراء,",
+    });
+
+    expect(data).toEqual({
+      name: "Omar Al Hashimi",
+      name_first: "Omar",
+      name_last: "Al Hashimi",
+      name_native: "عمر الهاشمي",
+      company_native: "شركة صقر الصحراء",
+    });
+  });
+
+  it("flags invalid phone numbers instead of storing them", () => {
+    const { data, warnings } = normalizeLeadInput({
+      name: "Jane Doe",
+      phone: "(555) 123-4567",
+    });
+
+    expect(data).toEqual({
+      name: "Jane Doe",
+      name_first: "Jane",
+      name_last: "Doe",
+    });
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        code: "invalid_phone",
+        field: "phone",
+        value: "(555) 123-4567",
+      }),
+    ]);
+  });
+
+  it("derives the name parts from the full name", () => {
+    const { data } = normalizeLeadInput({
+      name: "Prof. Jane Q. Public, MD",
+      name_first: "Stale",
+      name_middle: "Value",
+    });
+
+    expect(data).toEqual({
+      name: "Prof. Jane Q. Public, MD",
+      name_prefix: "Prof.",
+      name_first: "Jane",
+      name_middle: "Q.",
+      name_last: "Public",
+      name_suffix: "MD",
+    });
+  });
+
+  it("drops empty values and passes unknown properties through", () => {
+    expect(
+      normalizeLeadInput({ name: "  ", source: "Import" } as never).data,
+    ).toEqual({ source: "Import" });
+  });
+});
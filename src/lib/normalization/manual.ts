@@ -0,0 +1,135 @@
+/**
+ * Manual Entry Normalization
+ *
+ * Applies the canonical field formats to lead data typed in by a person or imported
+ * from another system. Unlike the OCR pipeline, no OCR error correction is applied -
+ * a "0" typed into an email address is meant to be a zero.
+ *
+ * @module normalization/manual
+ * @author Ahmed Kamal
+ */
+
+import { countryCode } from "@/lib/normalization/address";
+import {
+  cleanCompany,
+  cleanJobTitle,
+  cleanWebsite,
+} from "@/lib/normalization/cleaners";
+import type { NormalizationOptions } from "@/lib/normalization/extract";
+import { nameFields } from "@/lib/normalization/name";
+import {
+  classifyPhone,
+  parsePhone,
+  resolveDefaultRegion,
+} from "@/lib/normalization/phone";
+import type { ExtractionWarning, LeadData, LeadField } from "@/models/lead";
+
+/**
+ * Normalizes manually entered lead fields.
+ *
+ * Only string fields that are present are touched; empty values are dropped and
+ * unknown properties are passed through unchanged. Phone numbers are stored as
+ * E.164 with `phone_display`/`phone_extension` and as the primary entry of `phones`;
+ * a phone number that is not valid for its region is dropped and reported as a
+ * warning instead of being stored. The name is split into `name_prefix`,
+ * `name_first`, `name_middle`, `name_last` and `name_suffix`.
+ *
+ * @param input - Lead data as entered
+ * @param options - Normalization settings such as the default phone region
+ * @returns Lead data in canonical storage format and any warnings
+ *
+ * @example
+ * normalizeLeadInput({ email: " Jane@Acme.COM ", phone: "020 7946 0958" }, {
+ *   defaultRegion: "GB",
+ * });
+ * // Returns: {
+ * //   data: { email: "jane@acme.com", phone: "+442079460958",
+ * //           phone_display: "+44 20 7946 0958" },
+ * //   warnings: [],
+ * // }
+ */
+export function normalizeLeadInput<T extends LeadData>(
+  input: T,
+  options: NormalizationOptions = {},
+): { data: T; warnings: ExtractionWarning[] } {
+  const result: T = { ...input };
+  const warnings: ExtractionWarning[] = [];
+  const defaultRegion = options.defaultRegion || resolveDefaultRegion();
+
+  const collapseWhitespace = (value: string) =>
+    value.trim().replace(/\s+/g, " ");
+  const normalizers: Partial<Record<LeadField, (value: string) => string>> = {
+    name: collapseWhitespace,
+    email: (value) => value.trim().toLowerCase(),
+    company: cleanCompany,
+    job_title: cleanJobTitle,
+    name_native: collapseWhitespace,
+    company_native: cleanCompany,
+    job_title_native: cleanJobTitle,
+    website: cleanWebsite,
+    address_street: collapseWhitespace,
+    address_city: collapseWhitespace,
+    address_region: collapseWhitespace,
+    address_postal_code: (value) => collapseWhitespace(value).toUpperCase(),
+    // Country names ("Germany", "U.A.E.") are stored as ISO codes when known
+    address_country: (value) => countryCode(value) || collapseWhitespace(value),
+  };
+
+  for (const [field, normalize] of Object.entries(normalizers)) {
+    const key = field as LeadField;
+    const value = result[key];
+    if (typeof value !== "string") continue;
+
+    const normalized = value.trim() ? normalize(value.trim()) : "";
+    if (normalized) {
+      result[key] = normalized;
+    } else {
+      delete result[key];
+    }
+  }
+
+  // Display format, extension and the phone list are always derived from the phone number
+  delete result.phone_display;
+  delete result.phone_extension;
+  delete result.phones;
+
+  if (typeof result.phone === "string" && result.phone.trim()) {
+    const phone = parsePhone(result.phone, defaultRegion);
+    if (phone.valid) {
+      result.phone = phone.e164;
+      result.phone_display = phone.display;
+      if (phone.extension) result.phone_extension = phone.extension;
+      result.phones = [
+        {
+          type: classifyPhone(phone),
+          e164: phone.e164!,
+          display: phone.display!,
+          ...(phone.extension && { extension: phone.extension }),
+          primary: true,
+        },
+      ];
+    } else {
+      warnings.push({
+        code: "invalid_phone",
+        field: "phone",
+        message: `"${phone.raw}" is not a valid phone number for region ${defaultRegion}`,
+        value: phone.raw,
+      });
+      delete result.phone;
+    }
+  } else {
+    delete result.phone;
+  }
+
+  // Name parts are always derived from the full name
+  for (const [field, value] of Object.entries(nameFields(result.name))) {
+    const key = field as keyof ReturnType<typeof nameFields>;
+    if (value) {
+      result[key] = value;
+    } else {
+      delete result[key];
+    }
+  }
+
+  return { data: result, warnings };
+}
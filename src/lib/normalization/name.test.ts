@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { nameFields, parseName } from "@/lib/normalization";
+
+describe("parseName", () => {
+  it.each([
+    [
+      "Dr. Mary Ann van der Berg, PhD",
+      {
+        prefix: "Dr.",
+        first: "Mary",
+        middle: "Ann",
+        last: "van der Berg",
+        suffix: "PhD",
+      },
+    ],
+    ["John Smith", { first: "John", last: "Smith" }],
+    [
+      "Martin Luther King Jr.",
+      { first: "Martin", middle: "Luther", last: "King", suffix: "Jr." },
+    ],
+    [
+      "Prof. Jane Q. Public, MD, MBA",
+      {
+        prefix: "Prof.",
+        first: "Jane",
+        middle: "Q.",
+        last: "Public",
+        suffix: "MD, MBA",
+      },
+    ],
+    ["Ahmed Al Mansouri", { first: "Ahmed", last: "Al Mansouri" }],
+    [
+      "Eng. Mohammed bin Rashid",
+      { prefix: "Eng.", first: "Mohammed", last: "bin Rashid" },
+    ],
+    ["Smith, John Paul", { first: "John", middle: "Paul", last: "Smith" }],
+    ["Cher", { first: "Cher" }],
+  ])("parses %s", (name, expected) => {
+    expect(parseName(name)).toEqual(expected);
+  });
+
+  it("reads the family name first in Chinese names", () => {
+    expect(parseName("王小明")).toEqual({ first: "小明", last: "王" });
+  });
+
+  it("does not mistake a surname for a suffix", () => {
+    expect(parseName("Jack Ma")).toEqual({ first: "Jack", last: "Ma" });
+  });
+});
+
+describe("nameFields", () => {
+  it("returns every column so stale parts are cleared", () => {
+    expect(nameFields("Jane Doe")).toStrictEqual({
+      name_prefix: undefined,
+      name_first: "Jane",
+      name_middle: undefined,
+      name_last: "Doe",
+      name_suffix: undefined,
+    });
+    expect(Object.values(nameFields())).toEqual([
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    ]);
+  });
+});
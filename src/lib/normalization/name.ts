@@ -0,0 +1,177 @@
+/**
+ * Personal Name Parsing
+ *
+ * Splits a full name as printed on a card into honorific prefix, given name, middle
+ * names, family name and post-nominal suffix, so CRMs get proper first/last name
+ * fields instead of a naive split on the first space.
+ *
+ * Handled Forms:
+ * - Honorifics: "Dr. Mary Ann van der Berg, PhD" → prefix "Dr.", suffix "PhD"
+ * - Family name particles: "van der Berg", "Al Mansouri", "bin Laden" stay together
+ * - Inverted names: "Smith, John Paul"
+ * - Family-name-first scripts: "王小明" → last "王", first "小明"
+ *
+ * @module normalization/name
+ * @author Ahmed Kamal
+ */
+
+import { detectScript } from "@/lib/normalization/script";
+import type { LeadData } from "@/models/lead";
+
+/**
+ * A personal name split into its parts. Parts that are not present are omitted.
+ */
+export type ParsedName = {
+  prefix?: string; // honorific, e.g. "Dr.", "Prof.", "Eng."
+  first?: string;
+  middle?: string;
+  last?: string; // family name including particles, e.g. "van der Berg"
+  suffix?: string; // generational or post-nominal, e.g. "Jr.", "PhD, MBA"
+};
+
+// Lowercase name particles allowed inside names ("Ludwig van Beethoven", "Ahmed bin Rashid")
+export const NAME_PARTICLES = new Set(
+  "al bin bint ibn abu da de del della der di dos du el la le van von y".split(
+    " ",
+  ),
+);
+
+// Honorifics printed before a name, lowercase without dots
+const NAME_PREFIXES = new Set(
+  (
+    "mr mrs ms miss mx dr prof professor sir dame lord lady rev fr hon eng " +
+    "sheikh sheikha shaikh capt col gen herr frau mme mlle dott ing"
+  ).split(" "),
+);
+
+// Generational suffixes and post-nominal letters, lowercase without dots
+const NAME_SUFFIXES = new Set(
+  (
+    "jr sr ii iii iv phd md mba cpa esq dds dmd pe cfa pmp rn dvm jd llm msc bsc " +
+    "mph dphil pharmd frcs facs obe mbe cbe kbe qc kc"
+  ).split(" "),
+);
+
+// Scripts that write the family name first
+const FAMILY_FIRST_SCRIPTS = new Set(["han", "hangul", "kana"]);
+
+/**
+ * Parses a full name into prefix, first, middle, last and suffix.
+ *
+ * @param name - Full name, e.g. "Dr. Mary Ann van der Berg, PhD"
+ * @returns Name parts; a single word is returned as first name
+ *
+ * @example
+ * parseName("Dr. Mary Ann van der Berg, PhD");
+ * // { prefix: "Dr.", first: "Mary", middle: "Ann", last: "van der Berg", suffix: "PhD" }
+ */
+export function parseName(name: string): ParsedName {
+  const text = name.trim().replace(/\s+/g, " ");
+  if (!text) return {};
+
+  const suffixes: string[] = [];
+  const [first, ...rest] = text.split(",").map((part) => part.trim());
+  let head = first;
+  let inverted: string | undefined;
+
+  // Everything after a comma is either post-nominals or, for "Smith, John", the given names
+  const tail = rest.join(" ").split(/\s+/).filter(Boolean);
+  if (tail.length > 0) {
+    if (tail.every(isSuffix)) {
+      suffixes.push(...tail);
+    } else if (!head.includes(" ")) {
+      inverted = head;
+      head = rest.join(" ");
+    } else {
+      head = text.replace(/,/g, " ");
+    }
+  }
+
+  const tokens = head.split(/\s+/).filter(Boolean);
+  const prefixes: string[] = [];
+  while (tokens.length > 1 && isPrefix(tokens[0])) {
+    prefixes.push(tokens.shift()!);
+  }
+  while (tokens.length > 1 && isSuffix(tokens[tokens.length - 1])) {
+    suffixes.unshift(tokens.pop()!);
+  }
+
+  const parts: ParsedName = {
+    prefix: prefixes.join(" ") || undefined,
+    suffix: suffixes.join(", ") || undefined,
+  };
+
+  if (inverted) {
+    // "Smith, John Paul"
+    parts.last = inverted;
+    parts.first = tokens[0];
+    parts.middle = tokens.slice(1).join(" ") || undefined;
+  } else if (FAMILY_FIRST_SCRIPTS.has(detectScript(head))) {
+    // "王小明" (family name is the first character) or "王 小明"
+    const [family, ...given] =
+      tokens.length > 1 ? tokens : [tokens[0].slice(0, 1), tokens[0].slice(1)];
+    parts.last = family;
+    parts.first = given.join(" ") || undefined;
+  } else if (tokens.length === 1) {
+    parts.first = tokens[0];
+  } else {
+    // The family name starts at the last word, pulled back over any particles
+    let start = tokens.length - 1;
+    while (start > 1 && NAME_PARTICLES.has(tokens[start - 1].toLowerCase())) {
+      start--;
+    }
+    parts.first = tokens[0];
+    parts.middle = tokens.slice(1, start).join(" ") || undefined;
+    parts.last = tokens.slice(start).join(" ");
+  }
+
+  return Object.fromEntries(
+    Object.entries(parts).filter(([, value]) => value),
+  ) as ParsedName;
+}
+
+/**
+ * Removes honorifics and post-nominals from a name.
+ *
+ * @param name - Full name, e.g. "Dr. Mary Ann van der Berg, PhD"
+ * @returns The name without prefix and suffix, e.g. "Mary Ann van der Berg"
+ */
+export function stripNameAffixes(name: string): string {
+  const words = name.replace(/,/g, " ").split(/\s+/).filter(Boolean);
+  while (words.length > 1 && isPrefix(words[0])) words.shift();
+  while (words.length > 1 && isSuffix(words[words.length - 1])) words.pop();
+  return words.join(" ");
+}
+
+/**
+ * Derives the stored name columns of a lead from its full name.
+ *
+ * Every column is returned (undefined when absent) so spreading the result over a
+ * lead also clears parts left over from a previous name.
+ *
+ * @param name - Full name, if any
+ * @returns `name_prefix`, `name_first`, `name_middle`, `name_last` and `name_suffix`
+ */
+export function nameFields(
+  name?: string,
+): Pick<
+  LeadData,
+  "name_prefix" | "name_first" | "name_middle" | "name_last" | "name_suffix"
+> {
+  const parts = name ? parseName(name) : {};
+  return {
+    name_prefix: parts.prefix,
+    name_first: parts.first,
+    name_middle: parts.middle,
+    name_last: parts.last,
+    name_suffix: parts.suffix,
+  };
+}
+
+function isPrefix(token: string): boolean {
+  return NAME_PREFIXES.has(token.replace(/\./g, "").toLowerCase());
+}
+
+function isSuffix(token: string): boolean {
+  return NAME_SUFFIXES.has(token.replace(/[.,]/g, "").toLowerCase());
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  correctEmail,
+  correctWebsite,
+  hasKnownSuffix,
+} from "@/lib/normalization";
+
+describe("correctEmail", () => {
+  it("leaves digits alone when nothing supports a correction", () => {
+    expect(correctEmail("john2021@acme.com", { name: "John Smith" })).toEqual({
+      value: "john2021@acme.com",
+      original: "john2021@acme.com",
+      corrected: false,
+    });
+    expect(correctEmail("info@1password.com").value).toBe("info@1password.com");
+  });
+
+  it("spells the local part like the name on the card", () => {
+    expect(correctEmail("J0hn.Sm1th@Acme.com", { name: "John Smith" })).toEqual(
+      {
+        value: "john.smith@acme.com",
+        original: "J0hn.Sm1th@Acme.com",
+        corrected: true,
+      },
+    );
+    expect(correctEmail("ja1me@acme.com", { name: "Jaime Ruiz" }).value).toBe(
+      "jaime@acme.com",
+    );
+  });
+
+  it("corrects a single digit between letters without a name", () => {
+    expect(correctEmail("j0hn@acme.com").value).toBe("john@acme.com");
+  });
+
+  it("keeps digits the name doesn't account for", () => {
+    expect(correctEmail("b1ue@acme.com", { name: "Jane Doe" })).toEqual({
+      value: "b1ue@acme.com",
+      original: "b1ue@acme.com",
+      corrected: false,
+    });
+    // No name and no known domain to back the correction either
+    expect(correctEmail("b1ue@acme.internal").value).toBe("b1ue@acme.internal");
+  });
+
+  it("matches the domain against the website", () => {
+    expect(
+      correctEmail("sales@g00gle.com", { website: "www.google.com" }).value,
+    ).toBe("sales@google.com");
+  });
+
+  it("repairs top-level domains missing from the public suffix list", () => {
+    expect(correctEmail("jane@acme.c0m").value).toBe("jane@acme.com");
+    expect(correctEmail("jane@acme.c0.uk").value).toBe("jane@acme.co.uk");
+  });
+});
+
+describe("correctWebsite", () => {
+  it("matches the website against the email domain", () => {
+    expect(
+      correctWebsite("www.n0rthwind.com", { emailDomain: "northwind.com" }),
+    ).toEqual({
+      value: "northwind.com",
+      original: "www.n0rthwind.com",
+      corrected: true,
+    });
+  });
+
+  it("keeps a valid website without supporting context", () => {
+    expect(correctWebsite("www.web3labs.io").value).toBe("web3labs.io");
+  });
+});
+
+describe("hasKnownSuffix", () => {
+  it.each([
+    ["acme.com", true],
+    ["acme.co.uk", true],
+    ["acme.c0m", false],
+    ["localhost", false],
+  ])("checks %s", (domain, known) => {
+    expect(hasKnownSuffix(domain)).toBe(known);
+  });
+});
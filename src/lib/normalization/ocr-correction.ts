@@ -0,0 +1,229 @@
+/**
+ * Context-Aware OCR Correction
+ *
+ * OCR engines confuse digits with look-alike letters ("0"/"o", "1"/"l"/"i"). Blindly
+ * replacing every digit breaks legitimate values ("john2021@acme.com"), so corrections
+ * are only applied when a candidate is better supported by the rest of the card:
+ *
+ * - **Domains**: the candidate matches the domain of the detected website (or email),
+ *   or turns an unknown top-level domain into one from the public suffix list
+ * - **Email local parts**: the candidate spells more of the detected name
+ *   ("j0hn.sm1th" → "john.smith" on John Smith's card). Only on cards without a
+ *   name, and with a domain under a known public suffix, a single digit between two
+ *   letters is corrected ("j0hn" → "john"); with a name that no candidate spells,
+ *   the digits are kept ("b1ue" stays on Jane Doe's card)
+ *
+ * The original OCR reading is returned alongside the value so it can be kept for audit.
+ *
+ * @module normalization/ocr-correction
+ * @author Ahmed Kamal
+ */
+
+import { parse } from "tldts";
+import { stripNameAffixes } from "@/lib/normalization/name";
+
+/**
+ * Values from elsewhere on the card used to judge correction candidates.
+ */
+export type CorrectionContext = {
+  /** Detected person name, e.g. "John Smith" */
+  name?: string;
+  /** Detected website, e.g. "www.acme.com" */
+  website?: string;
+  /** Domain of the detected email address, e.g. "acme.com" */
+  emailDomain?: string;
+};
+
+/**
+ * A cleaned value and the OCR reading it came from.
+ */
+export type Correction = {
+  value: string;
+  /** Raw OCR text */
+  original: string;
+  /** True when OCR correction changed the value (beyond case and whitespace) */
+  corrected: boolean;
+};
+
+// Letters each digit is commonly misread for
+const CONFUSABLES: Record<string, string[]> = {
+  "0": ["o"],
+  "1": ["l", "i"],
+};
+
+// Above this many confusable digits only the all-letters candidate is tried
+const MAX_COMBINATION_DIGITS = 4;
+
+/**
+ * Corrects OCR misreadings in an email address.
+ *
+ * @param raw - Email as read by OCR
+ * @param context - Name and website detected on the same card
+ * @returns Lowercased email, corrected only where the context supports it
+ *
+ * @example
+ * correctEmail("j0hn.sm1th@acme.com", { name: "John Smith" }).value; // "john.smith@acme.com"
+ * correctEmail("john2021@acme.com", { name: "John Smith" }).value; // "john2021@acme.com"
+ */
+export function correctEmail(
+  raw: string,
+  context: CorrectionContext = {},
+): Correction {
+  const email = raw.trim().toLowerCase();
+  const at = email.lastIndexOf("@");
+  if (at === -1) return { value: email, original: raw, corrected: false };
+
+  const domain = correctDomain(
+    email.slice(at + 1),
+    context.website && hostname(context.website),
+  );
+  const local = correctLocalPart(
+    email.slice(0, at),
+    context.name,
+    hasKnownSuffix(domain),
+  );
+  const value = `${local}@${domain}`;
+
+  return { value, original: raw, corrected: value !== email };
+}
+
+/**
+ * Corrects OCR misreadings in a website, cross-checked against the email domain.
+ *
+ * @param raw - Website as read by OCR, e.g. "www.acme.c0m"
+ * @param context - Email domain detected on the same card
+ * @returns Lowercased website without "www.", corrected where the context supports it
+ */
+export function correctWebsite(
+  raw: string,
+  context: CorrectionContext = {},
+): Correction {
+  const website = raw
+    .trim()
+    .toLowerCase()
+    .replace(/^www\./, "");
+  const [host, ...path] = website.split("/");
+  const value = [correctDomain(host, context.emailDomain), ...path].join("/");
+
+  return { value, original: raw, corrected: value !== website };
+}
+
+/**
+ * Checks a domain against the public suffix list.
+ *
+ * @param domain - Domain name, e.g. "acme.co.uk"
+ * @returns True if the domain ends in a known (ICANN) public suffix
+ */
+export function hasKnownSuffix(domain: string): boolean {
+  const { isIcann, publicSuffix } = parse(domain);
+  return !!isIcann && !!publicSuffix && !/\d/.test(publicSuffix);
+}
+
+function correctDomain(domain: string, expected?: string): string {
+  return bestCandidate(domain, (candidate) => {
+    if (expected && candidate === expected) return 100;
+    if (!hasKnownSuffix(candidate)) return 0;
+    // Prefer the most specific suffix rule: "acme.c0.uk" → "acme.co.uk"
+    return 1 + parse(candidate).publicSuffix!.split(".").length;
+  });
+}
+
+function correctLocalPart(
+  local: string,
+  name: string | undefined,
+  knownDomain: boolean,
+): string {
+  const tokens = name ? nameTokens(name) : [];
+  if (tokens.length > 0) {
+    // The name is the evidence: digits it doesn't account for are kept
+    return bestCandidate(local, (candidate) =>
+      tokens
+        .filter((token) => candidate.includes(token))
+        .reduce((sum, token) => sum + token.length, 0),
+    );
+  }
+  if (!knownDomain) return local;
+
+  // Without a name, a single digit between two letters of an address under a known
+  // domain is almost always a misread letter
+  return local.replace(
+    /([a-z])([01])(?=[a-z])/g,
+    (_, letter: string, digit: string) => letter + CONFUSABLES[digit][0],
+  );
+}
+
+/**
+ * Picks the highest-scoring spelling of a value; ties keep the spelling with the
+ * fewest changes, so the OCR reading wins unless a candidate scores strictly higher.
+ */
+function bestCandidate(
+  value: string,
+  score: (candidate: string) => number,
+): string {
+  const positions = [...value]
+    .map((char, index) => (CONFUSABLES[char] ? index : -1))
+    .filter((index) => index !== -1);
+  if (positions.length === 0) return value;
+
+  let candidates: { text: string; changes: number }[] = [
+    { text: value, changes: 0 },
+  ];
+  if (positions.length > MAX_COMBINATION_DIGITS) {
+    candidates.push({
+      text: value.replace(/[01]/g, (digit) => CONFUSABLES[digit][0]),
+      changes: positions.length,
+    });
+  } else {
+    for (const position of positions) {
+      candidates = candidates.flatMap(({ text, changes }) => [
+        { text, changes },
+        ...CONFUSABLES[value[position]].map((letter) => ({
+          text: text.slice(0, position) + letter + text.slice(position + 1),
+          changes: changes + 1,
+        })),
+      ]);
+    }
+  }
+
+  let best = candidates[0];
+  let bestScore = score(best.text);
+  for (const candidate of candidates.slice(1)) {
+    const candidateScore = score(candidate.text);
+    if (
+      candidateScore > bestScore ||
+      (candidateScore === bestScore && candidate.changes < best.changes)
+    ) {
+      best = candidate;
+      bestScore = candidateScore;
+    }
+  }
+
+  return best.text;
+}
+
+/**
+ * Lowercase ASCII spellings of a name as they appear in email addresses:
+ * the name words plus "jsmith"-style initial + family name.
+ */
+function nameTokens(name: string): string[] {
+  const words = stripNameAffixes(name)
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[\s'’-]+/)
+    .filter((word) => /^[a-z]+$/.test(word));
+  if (words.length === 0) return [];
+
+  const tokens = words.filter((word) => word.length >= 3);
+  if (words.length > 1) tokens.push(words[0][0] + words[words.length - 1]);
+  return tokens;
+}
+
+function hostname(website: string): string {
+  return website
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .split("/")[0];
+}
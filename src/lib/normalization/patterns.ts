@@ -0,0 +1,25 @@
+/**
+ * Field Extraction Patterns
+ *
+ * Regular expressions used to locate contact details in raw OCR text. They are
+ * deliberately tolerant to common OCR spacing artifacts.
+ *
+ * Note: the patterns carry the global flag - use them with `String.match` /
+ * `String.matchAll`, not `RegExp.test`, which would keep `lastIndex` state.
+ *
+ * @module normalization/patterns
+ * @author Ahmed Kamal
+ */
+
+// The top-level domain may contain misread digits ("acme.c0m"); it is repaired later
+export const emailRegex =
+  /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.(?=[a-zA-Z0-9]*[a-zA-Z])[a-zA-Z0-9]{2,}/g;
+
+// Digits with common separators (spaces, dashes, dots, parentheses such as the
+// "(0)" trunk prefix), optionally followed by an extension ("ext. 204", "x12").
+// Separators never include line breaks, so numbers on consecutive lines stay apart
+export const phoneRegex =
+  /\+?[ \t\-().]*\d[ \t\-().\d]{6,18}\d(?:[ \t]*(?:ext\.?|extension|x)[ \t]*\d{1,6})?/gi;
+
+export const websiteRegex =
+  /(www\.[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}|[a-zA-Z0-9.-]+\.(com|net|org|io|co|uk|ca|de))/gi;
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  parsePhone,
+  phoneTypeFromLabel,
+  resolveDefaultRegion,
+  selectPrimaryPhone,
+} from "@/lib/normalization";
+import type { LeadPhone, PhoneType } from "@/models/lead";
+
+describe("parsePhone", () => {
+  it("drops the national trunk prefix", () => {
+    expect(parsePhone("020 7946 0958", "GB")).toEqual({
+      raw: "020 7946 0958",
+      valid: true,
+      e164: "+442079460958",
+      display: "+44 20 7946 0958",
+      extension: undefined,
+      region: "GB",
+      numberType: "FIXED_LINE",
+    });
+  });
+
+  it("ignores the default region when a country code is present", () => {
+    expect(parsePhone("+44 (0)20 7946 0958", "US").e164).toBe("+442079460958");
+    expect(parsePhone("+971 4 331 8000", "US").region).toBe("AE");
+  });
+
+  it.each([
+    ["(212) 736-5000 ext. 204", "204"],
+    ["212.736.5000 x12", "12"],
+  ])("extracts the extension from %s", (input, extension) => {
+    const phone = parsePhone(input, "US");
+
+    expect(phone.e164).toBe("+12127365000");
+    expect(phone.display).toBe("+1 212 736 5000");
+    expect(phone.extension).toBe(extension);
+  });
+
+  it("marks numbers that cannot exist as invalid", () => {
+    const phone = parsePhone("(555) 123-4567", "US");
+
+    expect(phone.valid).toBe(false);
+    expect(phone.e164).toBeUndefined();
+    expect(parsePhone("020 7946 0958", "US").valid).toBe(false);
+  });
+});
+
+describe("phoneTypeFromLabel", () => {
+  it.each([
+    ["T: ", "office"],
+    ["Tel. ", "office"],
+    ["Direct ", "office"],
+    ["M: ", "mobile"],
+    ["Mob ", "mobile"],
+    ["(cell)", "mobile"],
+    ["F: ", "fax"],
+    ["Tel/Fax: ", "office"],
+    ["Acme Corp ", undefined],
+  ])("reads %s as %s", (label, type) => {
+    expect(phoneTypeFromLabel(label)).toBe(type);
+  });
+});
+
+describe("selectPrimaryPhone", () => {
+  const phone = (type: PhoneType, e164: string): LeadPhone => ({
+    type,
+    e164,
+    display: e164,
+    primary: false,
+  });
+
+  it("prefers mobile over office numbers", () => {
+    const phones = selectPrimaryPhone([
+      phone("office", "+12127365000"),
+      phone("mobile", "+19175550123"),
+    ]);
+
+    expect(phones.map((entry) => entry.primary)).toEqual([false, true]);
+  });
+
+  it("never makes a fax the primary number", () => {
+    expect(selectPrimaryPhone([phone("fax", "+12127365001")])[0].primary).toBe(
+      false,
+    );
+    expect(
+      selectPrimaryPhone([
+        phone("fax", "+12127365001"),
+        phone("other", "+12127365000"),
+      ]).map((entry) => entry.primary),
+    ).toEqual([false, true]);
+  });
+});
+
+describe("resolveDefaultRegion", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("prefers a supported requested region", () => {
+    vi.stubEnv("DEFAULT_PHONE_REGION", "DE");
+
+    expect(resolveDefaultRegion("gb")).toBe("GB");
+    expect(resolveDefaultRegion("XX")).toBe("DE");
+  });
+
+  it("falls back to US", () => {
+    vi.stubEnv("DEFAULT_PHONE_REGION", "");
+
+    expect(resolveDefaultRegion()).toBe("US");
+  });
+});
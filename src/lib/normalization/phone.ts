@@ -0,0 +1,205 @@
+/**
+ * International Phone Number Parsing
+ *
+ * Parses phone numbers found on business cards into E.164 using libphonenumber
+ * metadata, so country calling codes, national trunk prefixes ("0" in the UK, "(0)"
+ * after "+44") and extensions ("ext. 204", "x12") are handled for every region.
+ *
+ * Cards often list several numbers ("T:", "M:", "F:"); `phoneTypeFromLabel` reads those
+ * label tokens and `selectPrimaryPhone` picks the number to use as the lead's main phone.
+ *
+ * Numbers written without a country code are interpreted in a default region, resolved
+ * per upload (`region` form field) or per deployment (`DEFAULT_PHONE_REGION`), falling
+ * back to "US".
+ *
+ * @module normalization/phone
+ * @author Ahmed Kamal
+ */
+
+import {
+  isSupportedCountry,
+  parsePhoneNumberFromString,
+  type CountryCode,
+  type NumberType,
+} from "libphonenumber-js/max";
+import type { LeadPhone, PhoneType } from "@/models/lead";
+
+export type { CountryCode } from "libphonenumber-js/max";
+
+/**
+ * A phone number parsed from card text.
+ */
+export type ParsedPhone = {
+  /** Text as it appeared on the card */
+  raw: string;
+  /** Whether the number is valid for its region */
+  valid: boolean;
+  /** E.164 number, e.g. "+442079460958" (only set when valid) */
+  e164?: string;
+  /** International display format, e.g. "+44 20 7946 0958" (only set when valid) */
+  display?: string;
+  /** Extension digits, e.g. "204" */
+  extension?: string;
+  /** ISO 3166-1 alpha-2 region the number belongs to */
+  region?: CountryCode;
+  /** Line type from numbering metadata, e.g. "MOBILE", "FIXED_LINE" */
+  numberType?: NumberType;
+};
+
+// Used when neither the upload nor the deployment specifies a default region
+const FALLBACK_REGION: CountryCode = "US";
+
+/**
+ * Resolves the default phone region for an upload.
+ *
+ * @param requested - Region requested for this upload (e.g. form field), any case
+ * @returns Requested region if supported, else `DEFAULT_PHONE_REGION`, else "US"
+ *
+ * @example
+ * resolveDefaultRegion("gb"); // "GB"
+ * resolveDefaultRegion("XX"); // value of DEFAULT_PHONE_REGION or "US"
+ */
+export function resolveDefaultRegion(requested?: string | null): CountryCode {
+  for (const candidate of [requested, process.env.DEFAULT_PHONE_REGION]) {
+    const region = candidate?.trim().toUpperCase();
+    if (region && isSupportedCountry(region)) {
+      return region;
+    }
+  }
+  return FALLBACK_REGION;
+}
+
+/**
+ * Parses a phone number written on a card.
+ *
+ * @param raw - Phone number text, optionally with an extension
+ * @param defaultRegion - Region used for numbers without a country code
+ * @returns Parsed number; `valid` is false when the number cannot exist
+ *
+ * @example
+ * parsePhone("020 7946 0958", "GB");
+ * // { raw: "020 7946 0958", valid: true, e164: "+442079460958",
+ * //   display: "+44 20 7946 0958", region: "GB" }
+ *
+ * parsePhone("(212) 736-5000 ext. 204", "US");
+ * // { ..., e164: "+12127365000", display: "+1 212 736 5000", extension: "204" }
+ */
+export function parsePhone(
+  raw: string,
+  defaultRegion: CountryCode = FALLBACK_REGION,
+): ParsedPhone {
+  const text = raw.trim();
+  const parsed = parsePhoneNumberFromString(text, defaultRegion);
+
+  if (!parsed || !parsed.isValid()) {
+    return { raw: text, valid: false, extension: parsed?.ext };
+  }
+
+  return {
+    raw: text,
+    valid: true,
+    e164: parsed.number,
+    // Formatted from the E.164 number so the region's extension suffix is left out
+    display: parsePhoneNumberFromString(parsed.number)!.formatInternational(),
+    extension: parsed.ext,
+    region: parsed.country,
+    numberType: parsed.getType(),
+  };
+}
+
+// Label tokens printed next to numbers ("T:", "Mob.", "Fax"), lowercase
+const PHONE_LABELS: Record<string, PhoneType> = {
+  m: "mobile",
+  mob: "mobile",
+  mobile: "mobile",
+  mobil: "mobile",
+  c: "mobile",
+  cell: "mobile",
+  cellular: "mobile",
+  gsm: "mobile",
+  whatsapp: "mobile",
+  t: "office",
+  tel: "office",
+  telephone: "office",
+  p: "office",
+  ph: "office",
+  phone: "office",
+  o: "office",
+  office: "office",
+  w: "office",
+  work: "office",
+  d: "office",
+  direct: "office",
+  dir: "office",
+  main: "office",
+  business: "office",
+  f: "fax",
+  fax: "fax",
+  telefax: "fax",
+};
+
+// Preferred types for the lead's main number; a fax is never primary
+const PRIMARY_PHONE_PRIORITY: PhoneType[] = ["mobile", "office", "other"];
+
+/**
+ * Reads the phone type from the label text around a number.
+ *
+ * @param label - Text between the number and the previous number or line start
+ *   (e.g. "T: "), or a parenthesized suffix (e.g. "(mobile)")
+ * @returns The labeled type, or undefined when no known label is present
+ *
+ * @example
+ * phoneTypeFromLabel("M: "); // "mobile"
+ * phoneTypeFromLabel("Tel/Fax "); // "office" - shared line, callable
+ */
+export function phoneTypeFromLabel(label: string): PhoneType | undefined {
+  const types = (label.toLowerCase().match(/[a-z]+/g) || [])
+    .map((token) => PHONE_LABELS[token])
+    .filter((type): type is PhoneType => !!type);
+
+  if (types.length === 0) return undefined;
+  // "Tel/Fax" lines reach a person as well, so they count as office numbers
+  if (types.includes("fax") && types.some((type) => type !== "fax")) {
+    return "office";
+  }
+  return types[types.length - 1];
+}
+
+/**
+ * Determines the type of a parsed number: the printed label wins, otherwise the
+ * line type from numbering metadata is used (NANP numbers can't be told apart).
+ *
+ * @param phone - Valid parsed phone number
+ * @param label - Type read from the label next to the number, if any
+ * @returns Phone type
+ */
+export function classifyPhone(
+  phone: ParsedPhone,
+  label?: PhoneType,
+): PhoneType {
+  if (label) return label;
+  switch (phone.numberType) {
+    case "MOBILE":
+      return "mobile";
+    case "FIXED_LINE":
+    case "TOLL_FREE":
+      return "office";
+    default:
+      return "other";
+  }
+}
+
+/**
+ * Marks the lead's primary number: the first mobile, else office, else untyped
+ * number. Fax numbers are never primary, so a fax-only card has no primary.
+ *
+ * @param phones - Numbers in reading order
+ * @returns The same numbers with exactly one (or, for fax-only, no) `primary` flag set
+ */
+export function selectPrimaryPhone(phones: LeadPhone[]): LeadPhone[] {
+  const primary = PRIMARY_PHONE_PRIORITY.map((type) =>
+    phones.find((phone) => phone.type === type),
+  ).find(Boolean);
+
+  return phones.map((phone) => ({ ...phone, primary: phone === primary }));
+}
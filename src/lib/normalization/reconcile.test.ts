@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { isFreeMailDomain, reconcileFields } from "@/lib/normalization";
+
+describe("reconcileFields", () => {
+  it("infers the website and the company as printed from the email domain", () => {
+    const { inferred, warnings } = reconcileFields(
+      { name: "Jane Doe", email: "jane@northwindtraders.com" },
+      ["Jane Doe", "Northwind Traders Ltd.", "jane@northwindtraders.com"],
+    );
+
+    expect(inferred.website).toMatchObject({
+      value: "northwindtraders.com",
+      rule: "inferred:email-domain",
+    });
+    expect(inferred.company).toMatchObject({
+      value: "Northwind Traders Ltd.",
+      rule: "inferred:email-domain+line",
+      source: "Northwind Traders Ltd.",
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it("falls back to the domain name when no line spells it", () => {
+    const { inferred } = reconcileFields(
+      { email: "ops@blue-harbor.co.uk", website: "blue-harbor.co.uk" },
+      [],
+    );
+
+    expect(inferred.company).toMatchObject({
+      value: "Blue Harbor",
+      confidence: 0.5,
+    });
+    expect(inferred.website).toBeUndefined();
+  });
+
+  it("never takes a printed website for the company", () => {
+    for (const website of ["northwindtraders.com", undefined]) {
+      const { inferred } = reconcileFields(
+        { name: "Jane Doe", email: "jane@northwindtraders.com", website },
+        ["Jane Doe", "www.northwindtraders.com", "northwindtraders.com"],
+      );
+
+      expect(inferred.company).toMatchObject({
+        value: "Northwindtraders",
+        rule: "inferred:email-domain",
+      });
+    }
+  });
+
+  it("never infers from free-mail addresses", () => {
+    expect(
+      reconcileFields({ email: "jane.doe@gmail.com", website: "acme.com" }, [
+        "Gmail",
+      ]),
+    ).toEqual({ inferred: {}, warnings: [] });
+  });
+
+  it("flags an email domain that contradicts the website", () => {
+    const { warnings } = reconcileFields(
+      {
+        email: "jane@northwind.com",
+        website: "contoso.com",
+        company: "Contoso",
+      },
+      [],
+    );
+
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        code: "domain_mismatch",
+        field: "website",
+        value: "contoso.com",
+      }),
+    ]);
+  });
+
+  it("accepts subdomains of the email domain as website", () => {
+    expect(
+      reconcileFields(
+        { email: "jane@acme.com", website: "shop.acme.com", company: "Acme" },
+        [],
+      ).warnings,
+    ).toEqual([]);
+  });
+});
+
+describe("isFreeMailDomain", () => {
+  it.each([
+    ["gmail.com", true],
+    ["mail.yahoo.co.uk", true],
+    ["qq.com", true],
+    ["northwindtraders.com", false],
+  ])("checks %s", (domain, free) => {
+    expect(isFreeMailDomain(domain)).toBe(free);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Cross-Field Reconciliation
+ *
+ * Runs after field extraction and checks the fields against each other. A company
+ * email address is strong evidence of the employer: "jane@northwindtraders.com"
+ * implies the website "northwindtraders.com" and the company printed as "Northwind
+ * Traders", even when no line on the card looked like a company name.
+ *
+ * Checks:
+ * - **Website inference**: missing website taken from the email domain
+ * - **Company inference**: missing company taken from the card line spelling the
+ *   email domain, or from the domain itself as a last resort
+ * - **Domain conflicts**: email domain and website pointing at different companies
+ *
+ * Free-mail addresses (gmail.com, outlook.com, ...) are never used for inference.
+ *
+ * @module normalization/reconcile
+ * @author Ahmed Kamal
+ */
+
+import { parse } from "tldts";
+import { isFreeMailDomain } from "@/lib/normalization/free-mail";
+import type { ExtractionWarning, LeadData } from "@/models/lead";
+
+/**
+ * A field value inferred from other fields.
+ */
+export type InferredField = {
+  value: string;
+  rule: string; // e.g. "inferred:email-domain"
+  confidence: number; // rule reliability (0..1), before OCR confidence weighting
+  source: string; // card text the value was inferred from
+};
+
+export type Reconciliation = {
+  inferred: Partial<Record<"company" | "website", InferredField>>;
+  warnings: ExtractionWarning[];
+};
+
+/**
+ * Reconciles extracted fields with each other.
+ *
+ * @param data - Extracted lead data
+ * @param lines - Card text lines, used to find the company as printed
+ * @returns Values inferred for missing fields and consistency warnings
+ *
+ * @example
+ * reconcileFields({ email: "jane@northwindtraders.com" }, ["Jane Doe", "Northwind Traders"]);
+ * // { inferred: { website: { value: "northwindtraders.com", ... },
+ * //               company: { value: "Northwind Traders", ... } }, warnings: [] }
+ */
+export function reconcileFields(
+  data: LeadData,
+  lines: string[],
+): Reconciliation {
+  const reconciliation: Reconciliation = { inferred: {}, warnings: [] };
+  const emailDomain = data.email?.split("@")[1];
+  if (!emailDomain || isFreeMailDomain(emailDomain)) return reconciliation;
+
+  const { domain, domainWithoutSuffix } = parse(emailDomain);
+  if (!domain || !domainWithoutSuffix) return reconciliation;
+
+  if (!data.website) {
+    reconciliation.inferred.website = {
+      value: domain,
+      rule: "inferred:email-domain",
+      confidence: 0.7,
+      source: data.email!,
+    };
+  } else {
+    const websiteDomain = parse(data.website).domain;
+    if (websiteDomain && websiteDomain !== domain) {
+      reconciliation.warnings.push({
+        code: "domain_mismatch",
+        field: "website",
+        message: `Email domain "${domain}" does not match website "${data.website}"`,
+        value: data.website,
+      });
+    }
+  }
+
+  if (!data.company) {
+    reconciliation.inferred.company = inferCompany(
+      domainWithoutSuffix,
+      data,
+      lines,
+    );
+  }
+
+  return reconciliation;
+}
+
+/**
+ * Finds the company for an email domain label ("northwindtraders"): a card line whose
+ * letters spell the label, else the label itself split on hyphens and title-cased.
+ * Web address lines ("www.northwindtraders.com") spell the label too but are skipped.
+ */
+function inferCompany(
+  label: string,
+  data: LeadData,
+  lines: string[],
+): InferredField {
+  const key = compact(label);
+  const taken = new Set(
+    [
+      data.name,
+      data.job_title,
+      data.name_native,
+      data.job_title_native,
+      data.website,
+    ]
+      .filter(Boolean)
+      .map((value) => compact(value!)),
+  );
+
+  for (const line of lines) {
+    const letters = compact(line);
+    if (
+      letters.length < 2 ||
+      taken.has(letters) ||
+      line.includes("@") ||
+      isWebAddress(line)
+    ) {
+      continue;
+    }
+    // "Northwind Traders" or "Northwind Traders Ltd." for northwindtraders.com
+    if (letters === key || (letters.startsWith(key) && key.length >= 4)) {
+      return {
+        value: line.trim().replace(/\s+/g, " "),
+        rule: "inferred:email-domain+line",
+        confidence: 0.75,
+        source: line.trim(),
+      };
+    }
+  }
+
+  return {
+    value: label
+      .split(/[-_]+/)
+      .filter(Boolean)
+      .map((word) => word[0].toUpperCase() + word.slice(1))
+      .join(" "),
+    rule: "inferred:email-domain",
+    confidence: 0.5,
+    source: data.email!,
+  };
+}
+
+// "northwindtraders.com", "https://www.northwindtraders.com/contact"
+function isWebAddress(line: string): boolean {
+  const text = line.trim();
+  return !/\s/.test(text) && parse(text).isIcann === true;
+}
+
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
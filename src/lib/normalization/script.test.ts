@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import {
+  detectScript,
+  isCasedScript,
+  isNativeScript,
+  isRtlScript,
+} from "@/lib/normalization";
+
+describe("detectScript", () => {
+  it.each([
+    ["José Müller", "latin"],
+    ["محمد الأحمد", "arabic"],
+    ["王小明", "han"],
+    ["Иван Петров", "cyrillic"],
+    ["김민수", "hangul"],
+    ["+1 312 555 0123", "unknown"],
+  ])("detects %s as %s", (text, script) => {
+    expect(detectScript(text)).toBe(script);
+  });
+
+  it("picks the script with the most letters", () => {
+    expect(detectScript("شركة ABC للتجارة")).toBe("arabic");
+  });
+});
+
+describe("script properties", () => {
+  it("knows which scripts have letter case and which are right-to-left", () => {
+    expect(isCasedScript("cyrillic")).toBe(true);
+    expect(isCasedScript("arabic")).toBe(false);
+    expect(isRtlScript("arabic")).toBe(true);
+    expect(isRtlScript("han")).toBe(false);
+  });
+
+  it("treats any known non-Latin script as native", () => {
+    expect(isNativeScript("عمر الهاشمي")).toBe(true);
+    expect(isNativeScript("Omar Al Hashimi")).toBe(false);
+    expect(isNativeScript("12345")).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Writing Script Detection
+ *
+ * Identifies the writing system of a line of card text so bilingual cards (e.g.
+ * English/Arabic) can keep the Latin and the native-script version of a field apart,
+ * and so classifiers can apply the rules that fit the script (letter case only
+ * carries meaning in Latin, Cyrillic and Greek).
+ *
+ * @module normalization/script
+ * @author Ahmed Kamal
+ */
+
+export type Script =
+  | "latin"
+  | "cyrillic"
+  | "greek"
+  | "arabic"
+  | "hebrew"
+  | "han"
+  | "hangul"
+  | "kana"
+  | "devanagari"
+  | "thai"
+  | "unknown";
+
+// Checked in order; the script with the most letters in a line wins
+const SCRIPT_PATTERNS: [Exclude<Script, "unknown">, RegExp][] = [
+  ["latin", /\p{Script=Latin}/gu],
+  ["cyrillic", /\p{Script=Cyrillic}/gu],
+  ["greek", /\p{Script=Greek}/gu],
+  ["arabic", /\p{Script=Arabic}/gu],
+  ["hebrew", /\p{Script=Hebrew}/gu],
+  ["han", /\p{Script=Han}/gu],
+  ["hangul", /\p{Script=Hangul}/gu],
+  ["kana", /[\p{Script=Hiragana}\p{Script=Katakana}]/gu],
+  ["devanagari", /\p{Script=Devanagari}/gu],
+  ["thai", /\p{Script=Thai}/gu],
+];
+
+// Scripts with upper/lower case letters
+const CASED_SCRIPTS = new Set<Script>(["latin", "cyrillic", "greek"]);
+
+// Scripts written right-to-left
+const RTL_SCRIPTS = new Set<Script>(["arabic", "hebrew"]);
+
+/**
+ * Detects the dominant writing script of a text.
+ *
+ * @param text - Text to inspect
+ * @returns Script with the most letters, or "unknown" when the text has no letters
+ *
+ * @example
+ * detectScript("José Müller"); // "latin"
+ * detectScript("محمد الأحمد"); // "arabic"
+ */
+export function detectScript(text: string): Script {
+  let best: Script = "unknown";
+  let bestCount = 0;
+
+  for (const [script, pattern] of SCRIPT_PATTERNS) {
+    const count = text.match(pattern)?.length || 0;
+    if (count > bestCount) {
+      best = script;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * @returns True if the script distinguishes upper and lower case letters
+ */
+export function isCasedScript(script: Script): boolean {
+  return CASED_SCRIPTS.has(script);
+}
+
+/**
+ * @returns True if the script is written right-to-left
+ */
+export function isRtlScript(script: Script): boolean {
+  return RTL_SCRIPTS.has(script);
+}
+
+/**
+ * Native-script text is anything written in a script other than Latin, e.g. the
+ * Arabic side of a bilingual card.
+ *
+ * @param text - Text to inspect
+ * @returns True if the dominant script is a known non-Latin script
+ */
+export function isNativeScript(text: string): boolean {
+  const script = detectScript(text);
+  return script !== "latin" && script !== "unknown";
+}
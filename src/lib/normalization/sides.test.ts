@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  cleanAndNormalizeData,
+  mergeCardSides,
+  sideFields,
+} from "@/lib/normalization";
+
+describe("mergeCardSides", () => {
+  it("combines the name on the front with the contact details on the back", async () => {
+    const front = await cleanAndNormalizeData(
+      "Jane Doe\nChief Executive Officer\nNorthwind Traders Inc.\n",
+    );
+    const back = await cleanAndNormalizeData(
+      "jane@northwindtraders.com\nM: (917) 555-0123\nT: (212) 736-5000\nlinkedin.com/in/jane-doe\n",
+    );
+
+    const { data, fields, warnings } = mergeCardSides(front, back);
+
+    expect(data).toMatchObject({
+      name: "Jane Doe",
+      name_first: "Jane",
+      job_title: "Chief Executive Officer",
+      company: "Northwind Traders Inc.",
+      email: "jane@northwindtraders.com",
+      phone: "+19175550123",
+      website: "northwindtraders.com",
+    });
+    expect(data.phones).toHaveLength(2);
+    expect(data.social_profiles).toHaveLength(1);
+    expect(fields.name?.side).toBe("front");
+    expect(fields.phone?.side).toBe("back");
+    // The company read on the front beats the one inferred from the email on the back
+    expect(fields.company?.rule).not.toMatch(/^inferred:/);
+    expect(Object.keys(sideFields(fields, "back")).sort()).toEqual([
+      "email",
+      "phone",
+      "website",
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("keeps the native-script side of a bilingual card apart", async () => {
+    const front = await cleanAndNormalizeData(
+      "Ahmed Al Mansouri\nSales Manager\n",
+    );
+    const back = await cleanAndNormalizeData("أحمد المنصوري\nمدير المبيعات\n");
+
+    const { data, warnings } = mergeCardSides(front, back);
+
+    expect(data).toMatchObject({
+      name: "Ahmed Al Mansouri",
+      name_native: "أحمد المنصوري",
+      job_title: "Sales Manager",
+      job_title_native: "مدير المبيعات",
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it("keeps the higher-confidence reading and flags conflicting sides", async () => {
+    const front = await cleanAndNormalizeData(
+      "Jane Doe\njane@acme.com\n",
+      [],
+      0.95,
+    );
+    const back = await cleanAndNormalizeData(
+      "Jane Doe\njdoe@acme.com\n",
+      [],
+      0.6,
+    );
+
+    const { data, fields, warnings } = mergeCardSides(front, back);
+
+    expect(data.email).toBe("jane@acme.com");
+    expect(fields.email?.side).toBe("front");
+    expect(warnings).toEqual([
+      expect.objectContaining({
+        code: "side_conflict",
+        field: "email",
+        value: "jdoe@acme.com",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Two-Sided Card Merging
+ *
+ * Many cards print the name on the front and the contact details on the back, often
+ * in a second language. Both sides are extracted separately and merged into one lead.
+ *
+ * Conflict Rules:
+ * - **One side only**: the value is taken from the side that has it
+ * - **Both sides**: values read from the card beat values inferred from other fields,
+ *   then the higher confidence wins (the front on ties); differing readings are
+ *   reported as `side_conflict` warnings
+ * - **Groups**: the name and its parts, and the postal address, are taken as a whole
+ *   from one side so parts of different readings are never mixed
+ * - **Lists**: phone numbers and social profiles of both sides are combined
+ *
+ * Every merged field records the `side` it was read from.
+ *
+ * @module normalization/sides
+ * @author Ahmed Kamal
+ */
+
+import { selectPrimaryPhone } from "@/lib/normalization/phone";
+import type {
+  CardSide,
+  ExtractionResult,
+  ExtractionWarning,
+  LeadData,
+  LeadField,
+  LeadFieldProvenance,
+  LeadPhone,
+  SocialProfile,
+} from "@/models/lead";
+
+// Fields taken together from one side; the first field decides the side
+const FIELD_GROUPS: LeadField[][] = [
+  [
+    "name",
+    "name_prefix",
+    "name_first",
+    "name_middle",
+    "name_last",
+    "name_suffix",
+  ],
+  [
+    "address_street",
+    "address_city",
+    "address_region",
+    "address_postal_code",
+    "address_country",
+  ],
+  ["name_native"],
+  ["email"],
+  ["company"],
+  ["company_native"],
+  ["job_title"],
+  ["job_title_native"],
+  ["website"],
+];
+
+// Fields with a native-script counterpart on bilingual cards
+const NATIVE_FIELDS = new Set<LeadField>([
+  "name_native",
+  "company_native",
+  "job_title_native",
+]);
+
+type Side = ExtractionResult & { side: CardSide };
+
+/**
+ * Merges the extractions of the front and back of a card.
+ *
+ * @param front - Extraction of the front side
+ * @param back - Extraction of the back side
+ * @returns The merged extraction; every field's provenance names its `side`
+ *
+ * @example
+ * mergeCardSides(
+ *   await cleanAndNormalizeData("Jane Doe\nAcme Corp"),
+ *   await cleanAndNormalizeData("jane@acme.com\n+1 212 736 5000"),
+ * ).data;
+ * // { name: "Jane Doe", company: "Acme Corp", email: "jane@acme.com", phone: "+12127365000", ... }
+ */
+export function mergeCardSides(
+  front: ExtractionResult,
+  back: ExtractionResult,
+): ExtractionResult {
+  const sides: Side[] = [
+    { ...front, side: "front" },
+    { ...back, side: "back" },
+  ];
+  const data: LeadData = {};
+  const fields: LeadFieldProvenance = {};
+  const warnings: ExtractionWarning[] = [];
+
+  const take = (side: Side, keys: LeadField[]) => {
+    for (const key of keys) {
+      if (side.data[key] === undefined) continue;
+      data[key] = side.data[key];
+      if (side.fields[key]) {
+        fields[key] = { ...side.fields[key]!, side: side.side };
+      }
+    }
+  };
+
+  for (const group of FIELD_GROUPS) {
+    const candidates = sides.filter((side) =>
+      group.some((key) => side.data[key]),
+    );
+    if (candidates.length === 0) continue;
+
+    const [winner, loser] = [...candidates].sort(
+      (a, b) => groupScore(b, group) - groupScore(a, group),
+    );
+    take(winner, group);
+
+    // Differing readings printed on both sides need a human decision
+    const field = group.find((key) => winner.data[key]) || group[0];
+    const kept = winner.data[field];
+    const other = loser?.data[field];
+    if (
+      loser &&
+      kept &&
+      other &&
+      !isDerived(loser, field) &&
+      !isDerived(winner, field) &&
+      compact(kept) !== compact(other)
+    ) {
+      warnings.push({
+        code: "side_conflict",
+        field,
+        message: `The ${winner.side} reads "${kept}" but the ${loser.side} reads "${other}"`,
+        value: other,
+      });
+    }
+  }
+
+  // Phone numbers of both sides; the primary number keeps its own side's provenance
+  const phones: LeadPhone[] = [];
+  for (const side of sides) {
+    for (const phone of side.data.phones || []) {
+      if (!phones.some((other) => other.e164 === phone.e164)) {
+        phones.push(phone);
+      }
+    }
+  }
+  if (phones.length > 0) {
+    data.phones = selectPrimaryPhone(phones);
+    const primary = data.phones.find((phone) => phone.primary);
+    const source = sides.find((side) => side.data.phone === primary?.e164);
+    if (source) take(source, ["phone", "phone_display", "phone_extension"]);
+  }
+
+  const profiles: SocialProfile[] = [];
+  for (const side of sides) {
+    for (const profile of side.data.social_profiles || []) {
+      if (
+        !profiles.some(
+          (other) =>
+            other.network === profile.network &&
+            other.handle.toLowerCase() === profile.handle.toLowerCase(),
+        )
+      ) {
+        profiles.push(profile);
+      }
+    }
+  }
+  if (profiles.length > 0) data.social_profiles = profiles;
+
+  return {
+    data,
+    fields,
+    warnings: [...front.warnings, ...back.warnings, ...warnings],
+  };
+}
+
+/**
+ * Provenance of the fields read from one side of the card.
+ *
+ * @param fields - Merged provenance
+ * @param side - Card side
+ * @returns Provenance of the fields whose `side` matches (fields without a side
+ *   count as front)
+ */
+export function sideFields(
+  fields: LeadFieldProvenance,
+  side: CardSide,
+): LeadFieldProvenance {
+  return Object.fromEntries(
+    Object.entries(fields).filter(
+      ([, provenance]) => (provenance.side || "front") === side,
+    ),
+  );
+}
+
+/**
+ * Ranks a side's reading of a field group: values read from the card beat derived
+ * values, then higher confidence wins. Stable sorting keeps the front on ties.
+ */
+function groupScore(side: Side, group: LeadField[]): number {
+  const field = group.find((key) => side.fields[key]);
+  if (!field) return 0;
+  return (isDerived(side, field) ? 0 : 1) + side.fields[field]!.confidence;
+}
+
+/**
+ * True when a side's value was not read for the field itself: inferred from another
+ * field, or the native-script reading copied over on a side printed only in that script.
+ */
+function isDerived(side: Side, field: LeadField): boolean {
+  const native = `${field}_native` as LeadField;
+  return (
+    !!side.fields[field]?.rule.startsWith("inferred:") ||
+    (NATIVE_FIELDS.has(native) && side.data[native] === side.data[field])
+  );
+}
+
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
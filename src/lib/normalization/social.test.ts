@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { findSocialProfiles, isSocialLine } from "@/lib/normalization";
+
+describe("findSocialProfiles", () => {
+  it("normalizes profile links to canonical URLs", () => {
+    const profiles = findSocialProfiles(
+      [
+        "https://uk.linkedin.com/in/jane-doe",
+        "twitter.com/JaneDoe | instagram.com/jane.doe",
+        "t.me/janedoe_bot",
+      ].join("\n"),
+    ).map((match) => match.profile);
+
+    expect(profiles).toEqual([
+      {
+        network: "linkedin",
+        handle: "jane-doe",
+        url: "https://www.linkedin.com/in/jane-doe",
+      },
+      { network: "x", handle: "@JaneDoe", url: "https://x.com/JaneDoe" },
+      {
+        network: "instagram",
+        handle: "jane.doe",
+        url: "https://www.instagram.com/jane.doe",
+      },
+      {
+        network: "telegram",
+        handle: "janedoe_bot",
+        url: "https://t.me/janedoe_bot",
+      },
+    ]);
+  });
+
+  it("reads labeled handles and WhatsApp numbers in the default region", () => {
+    const profiles = findSocialProfiles(
+      "IG: @janedoe\nWhatsApp: 050 123 4567",
+      "AE",
+    ).map((match) => match.profile);
+
+    expect(profiles).toEqual([
+      {
+        network: "instagram",
+        handle: "@janedoe",
+        url: "https://www.instagram.com/janedoe",
+      },
+      {
+        network: "whatsapp",
+        handle: "+971501234567",
+        url: "https://wa.me/971501234567",
+      },
+    ]);
+  });
+
+  it("reports a profile printed as link and handle once", () => {
+    expect(
+      findSocialProfiles("x.com/janedoe\nX: @janedoe").map(
+        (match) => match.source,
+      ),
+    ).toEqual(["x.com/janedoe"]);
+  });
+
+  it("does not mistake email addresses or company websites for profiles", () => {
+    expect(findSocialProfiles("jane@linkedin.com\nwww.acme.com")).toEqual([]);
+  });
+});
+
+describe("isSocialLine", () => {
+  it("recognizes profile links and bare handles", () => {
+    expect(isSocialLine("linkedin.com/company/acme")).toBe(true);
+    expect(isSocialLine("@janedoe")).toBe(true);
+    expect(isSocialLine("Acme Corporation")).toBe(false);
+  });
+});
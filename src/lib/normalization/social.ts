@@ -0,0 +1,216 @@
+/**
+ * Social Profile and Messaging Handle Extraction
+ *
+ * Finds social network profiles (LinkedIn, X/Twitter, Facebook, Instagram, GitHub,
+ * YouTube, TikTok) and messaging handles (WhatsApp, Telegram) printed on a card,
+ * either as links ("linkedin.com/in/jane-doe", "wa.me/971501234567") or as labeled
+ * handles ("X: @janedoe", "WhatsApp: +971 50 123 4567").
+ *
+ * Profile links are reported with their position so the extractor can keep them out
+ * of website and phone detection ("linkedin.com" is not the company website).
+ *
+ * @module normalization/social
+ * @author Ahmed Kamal
+ */
+
+import { parsePhone, type CountryCode } from "@/lib/normalization/phone";
+import type { SocialNetwork, SocialProfile } from "@/models/lead";
+
+/**
+ * A social profile found in card text.
+ */
+export type SocialMatch = {
+  profile: SocialProfile;
+  /** Card text the profile was read from */
+  source: string;
+  /** Character offsets of `source` in the text */
+  start: number;
+  end: number;
+  /** True for profile links, false for labeled handles such as "X: @jane" */
+  link: boolean;
+};
+
+type LinkPattern = {
+  network: SocialNetwork;
+  pattern: RegExp;
+  url: (handle: string, kind?: string) => string;
+};
+
+// Profile links; group 1 is the leading boundary, the last group is the handle
+const LINK_PATTERNS: LinkPattern[] = [
+  {
+    network: "linkedin",
+    pattern:
+      /(^|[^\w.-])(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/(in|company|pub)\/([\w%-]+)/gi,
+    url: (handle, kind) => `https://www.linkedin.com/${kind}/${handle}`,
+  },
+  {
+    network: "x",
+    pattern:
+      /(^|[^\w.-])(?:https?:\/\/)?(?:www\.)?(?:twitter|x)\.com\/@?(\w{1,15})/gi,
+    url: (handle) => `https://x.com/${handle}`,
+  },
+  {
+    network: "facebook",
+    pattern:
+      /(^|[^\w.-])(?:https?:\/\/)?(?:www\.|m\.)?(?:facebook|fb)\.com\/([\w.-]{3,})/gi,
+    url: (handle) => `https://www.facebook.com/${handle}`,
+  },
+  {
+    network: "instagram",
+    pattern:
+      /(^|[^\w.-])(?:https?:\/\/)?(?:www\.)?instagram\.com\/([\w.]{1,30})/gi,
+    url: (handle) => `https://www.instagram.com/${handle}`,
+  },
+  {
+    network: "github",
+    pattern:
+      /(^|[^\w.-])(?:https?:\/\/)?(?:www\.)?github\.com\/([a-z\d-]{1,39})/gi,
+    url: (handle) => `https://github.com/${handle}`,
+  },
+  {
+    network: "youtube",
+    pattern:
+      /(^|[^\w.-])(?:https?:\/\/)?(?:www\.)?youtube\.com\/(@[\w.-]+|c\/[\w-]+|channel\/[\w-]+)/gi,
+    url: (handle) => `https://www.youtube.com/${handle}`,
+  },
+  {
+    network: "tiktok",
+    pattern: /(^|[^\w.-])(?:https?:\/\/)?(?:www\.)?tiktok\.com\/@([\w.]+)/gi,
+    url: (handle) => `https://www.tiktok.com/@${handle}`,
+  },
+  {
+    network: "whatsapp",
+    pattern:
+      /(^|[^\w.-])(?:https?:\/\/)?(?:wa\.me\/|(?:api\.)?whatsapp\.com\/send\?phone=)\+?(\d{6,15})/gi,
+    url: (handle) => `https://wa.me/${handle.replace(/\D/g, "")}`,
+  },
+  {
+    network: "telegram",
+    pattern: /(^|[^\w.-])(?:https?:\/\/)?(?:t|telegram)\.me\/(\w{5,32})/gi,
+    url: (handle) => `https://t.me/${handle}`,
+  },
+];
+
+// Labels printed before a handle ("IG: @jane"), lowercase
+const HANDLE_LABELS: Record<string, SocialNetwork> = {
+  twitter: "x",
+  x: "x",
+  instagram: "instagram",
+  insta: "instagram",
+  ig: "instagram",
+  telegram: "telegram",
+  tg: "telegram",
+  tiktok: "tiktok",
+  github: "github",
+};
+
+const LABELED_HANDLE = /^\s*([a-z]+)\s*[:|-]?\s*@([\w.]{2,32})\s*$/i;
+const LABELED_WHATSAPP =
+  /^\s*(?:whatsapp|wa)\s*[:|-]?\s*(\+?[\d\s().-]{7,20})$/i;
+
+/**
+ * Finds social profiles and messaging handles in card text.
+ *
+ * WhatsApp numbers are stored in E.164 (without "+" in the wa.me link); a labeled
+ * WhatsApp number is also a regular phone number and is reported as a handle only.
+ *
+ * @param text - Raw card text
+ * @param defaultRegion - Region for WhatsApp numbers without a country code
+ * @returns Profiles in reading order, one per network and handle
+ *
+ * @example
+ * findSocialProfiles("linkedin.com/in/jane-doe\nX: @janedoe").map((m) => m.profile);
+ * // [{ network: "linkedin", handle: "jane-doe", url: "https://www.linkedin.com/in/jane-doe" },
+ * //  { network: "x", handle: "@janedoe", url: "https://x.com/janedoe" }]
+ */
+export function findSocialProfiles(
+  text: string,
+  defaultRegion: CountryCode = "US",
+): SocialMatch[] {
+  const matches: SocialMatch[] = [];
+
+  for (const { network, pattern, url } of LINK_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index! + match[1].length;
+      const source = match[0].slice(match[1].length);
+      const kind = match.length > 3 ? match[2] : undefined;
+      const captured = match[match.length - 1];
+      let handle = captured;
+
+      if (network === "whatsapp") {
+        const phone = parsePhone(`+${captured}`);
+        if (!phone.valid) continue;
+        handle = phone.e164!;
+      } else if (network === "x" || network === "tiktok") {
+        handle = `@${captured}`;
+      }
+
+      matches.push({
+        profile: { network, handle, url: url(captured, kind) },
+        source,
+        start,
+        end: start + source.length,
+        link: true,
+      });
+    }
+  }
+
+  let offset = 0;
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    const span = {
+      source: trimmed,
+      start: offset + line.indexOf(trimmed),
+      end: offset + line.indexOf(trimmed) + trimmed.length,
+      link: false,
+    };
+    offset += line.length + 1;
+
+    const handle = LABELED_HANDLE.exec(line);
+    const network = handle && HANDLE_LABELS[handle[1].toLowerCase()];
+    if (handle && network) {
+      const url = LINK_PATTERNS.find((link) => link.network === network)!.url;
+      matches.push({
+        profile: { network, handle: `@${handle[2]}`, url: url(handle[2]) },
+        ...span,
+      });
+    }
+
+    const whatsapp = LABELED_WHATSAPP.exec(line);
+    const phone = whatsapp && parsePhone(whatsapp[1], defaultRegion);
+    if (phone?.valid) {
+      matches.push({
+        profile: {
+          network: "whatsapp",
+          handle: phone.e164!,
+          url: `https://wa.me/${phone.e164!.slice(1)}`,
+        },
+        ...span,
+      });
+    }
+  }
+
+  // Reading order, then drop the same profile printed twice (link and handle)
+  return matches
+    .sort((a, b) => a.start - b.start)
+    .filter(
+      (match, index, all) =>
+        all.findIndex(
+          (other) =>
+            other.profile.network === match.profile.network &&
+            other.profile.handle.toLowerCase() ===
+              match.profile.handle.toLowerCase(),
+        ) === index,
+    );
+}
+
+/**
+ * @param line - Text line to evaluate
+ * @returns True if the line carries a social profile link or handle
+ */
+export function isSocialLine(line: string): boolean {
+  return (
+    findSocialProfiles(line).length > 0 || /^\s*@[\w.]{2,32}\s*$/.test(line)
+  );
+}
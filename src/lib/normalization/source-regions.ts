@@ -0,0 +1,52 @@
+/**
+ * Source Region Lookup
+ *
+ * Maps extracted field values back to the OCR word boxes they were read from.
+ *
+ * @module normalization/source-regions
+ * @author Ahmed Kamal
+ */
+
+import type { BoundingBox, TextSegment } from "@/lib/ocr";
+import type { LeadField, LeadFieldProvenance } from "@/models/lead";
+
+/**
+ * Source Region Lookup
+ *
+ * Maps every field's source span back to the word boxes it was read from, so the
+ * review UI can highlight the region on the card image. Consecutive segments are
+ * concatenated (ignoring whitespace) until they spell out the span text.
+ *
+ * @param fields - Per-field provenance with source spans
+ * @param textSegments - Word-level OCR segments with bounding boxes
+ * @returns Bounding boxes per field; fields without a match are omitted
+ */
+export function locateSourceRegions(
+  fields: LeadFieldProvenance,
+  textSegments: TextSegment[],
+): Partial<Record<LeadField, BoundingBox[]>> {
+  const regions: Partial<Record<LeadField, BoundingBox[]>> = {};
+  const compact = (value: string) => value.replace(/\s+/g, "");
+
+  for (const [field, provenance] of Object.entries(fields)) {
+    const target = compact(provenance.span.text);
+    if (!target) continue;
+
+    for (let start = 0; start < textSegments.length; start++) {
+      let spelled = "";
+      let end = start;
+      while (end < textSegments.length && spelled.length < target.length) {
+        spelled += compact(textSegments[end].text);
+        end++;
+      }
+      if (spelled === target) {
+        regions[field as LeadField] = textSegments
+          .slice(start, end)
+          .map((segment) => segment.boundingBox);
+        break;
+      }
+    }
+  }
+
+  return regions;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  cleanAndNormalizeData,
+  mergeDecodedContact,
+  parseContactPayload,
+} from "@/lib/normalization";
+
+const VCARD = [
+  "BEGIN:VCARD",
+  "VERSION:3.0",
+  "N:van der Berg;Mary;Ann;Dr.;PhD",
+  "FN:Dr. Mary Ann van der Berg\\, PhD",
+  "ORG:Northwind Traders;Sales",
+  "TITLE:Head of Partnerships",
+  "TEL;TYPE=CELL:+44 7911 123456",
+  "TEL;TYPE=WORK,VOICE:020 7946 0958",
+  "EMAIL;TYPE=INTERNET:mary@northwind.co.uk",
+  "URL:https://www.northwind.co.uk/",
+  "X-SOCIALPROFILE;TYPE=linkedin:https://www.linkedin.com/in/mary-vdb",
+  "ADR;TYPE=WORK:;;1 Canada Square;London;;E14 5AB;United Kingdom",
+  "END:VCARD",
+].join("\r\n");
+
+describe("parseContactPayload", () => {
+  it("parses a vCard into canonical lead data", () => {
+    const contact = parseContactPayload(VCARD, { defaultRegion: "GB" });
+
+    expect(contact?.format).toBe("vcard");
+    expect(contact?.data).toEqual({
+      name: "Dr. Mary Ann van der Berg, PhD",
+      name_prefix: "Dr.",
+      name_first: "Mary",
+      name_middle: "Ann",
+      name_last: "van der Berg",
+      name_suffix: "PhD",
+      email: "mary@northwind.co.uk",
+      company: "Northwind Traders",
+      job_title: "Head of Partnerships",
+      website: "northwind.co.uk",
+      address_street: "1 Canada Square",
+      address_city: "London",
+      address_postal_code: "E14 5AB",
+      address_country: "GB",
+      phone: "+447911123456",
+      phone_display: "+44 7911 123456",
+      phones: [
+        {
+          type: "mobile",
+          e164: "+447911123456",
+          display: "+44 7911 123456",
+          primary: true,
+        },
+        {
+          type: "office",
+          e164: "+442079460958",
+          display: "+44 20 7946 0958",
+          primary: false,
+        },
+      ],
+      social_profiles: [
+        {
+          network: "linkedin",
+          handle: "mary-vdb",
+          url: "https://www.linkedin.com/in/mary-vdb",
+        },
+      ],
+    });
+  });
+
+  it("unfolds lines and decodes quoted-printable values", () => {
+    const contact = parseContactPayload(
+      [
+        "BEGIN:VCARD",
+        "VERSION:2.1",
+        "FN;CHARSET=UTF-8;ENCODING=QUOTED-PRINTABLE:Jos=C3=A9 M=C3=BC=",
+        "ller",
+        "TITLE:Director of Global",
+        "  Operations",
+        "END:VCARD",
+      ].join("\n"),
+    );
+
+    expect(contact?.data).toMatchObject({
+      name: "José Müller",
+      job_title: "Director of Global Operations",
+    });
+  });
+
+  it("parses a MECARD", () => {
+    const contact = parseContactPayload(
+      "MECARD:N:Doe,John;ORG:Acme\\; Sons;TEL:(212) 736-5000;EMAIL:john@acme.com;URL:http://acme.com;;",
+    );
+
+    expect(contact).toMatchObject({
+      format: "mecard",
+      data: {
+        name: "John Doe",
+        name_first: "John",
+        name_last: "Doe",
+        company: "Acme; Sons",
+        email: "john@acme.com",
+        phone: "+12127365000",
+        website: "acme.com",
+      },
+    });
+  });
+
+  it("ignores payloads that are not contact cards", () => {
+    expect(parseContactPayload("https://acme.com/jane")).toBeNull();
+  });
+});
+
+describe("mergeDecodedContact", () => {
+  it("prefers decoded values over the OCR reading", async () => {
+    const extraction = await cleanAndNormalizeData(
+      "J0hn Doe\nAcme Corp\njohn@acme.c0m\n(555) 123-4567\nlinkedin.com/in/johndoe\n",
+      [],
+      0.9,
+    );
+    const contact = parseContactPayload(
+      "MECARD:N:Doe,John;EMAIL:john@acme.com;TEL:(212) 736-5000;;",
+    )!;
+
+    const { data, fields, warnings } = mergeDecodedContact(extraction, contact);
+
+    expect(data).toMatchObject({
+      name: "John Doe",
+      name_first: "John",
+      email: "john@acme.com",
+      phone: "+12127365000",
+      company: "Acme Corp",
+    });
+    expect(data.social_profiles).toHaveLength(1);
+    expect(fields.email).toMatchObject({ rule: "qr:mecard", confidence: 1 });
+    expect(fields.name_last?.rule).toBe("qr:mecard");
+    expect(fields.company?.rule).not.toBe("qr:mecard");
+    expect(Object.keys(fields).sort()).toEqual(
+      Object.keys(data)
+        .filter(
+          (key) =>
+            !["phones", "phone_display", "social_profiles"].includes(key),
+        )
+        .sort(),
+    );
+    // The OCR misreading of the phone number is superseded by the QR code
+    expect(warnings).toEqual([]);
+  });
+});
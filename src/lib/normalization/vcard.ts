@@ -0,0 +1,426 @@
+/**
+ * vCard and MECARD Decoding
+ *
+ * Many cards carry a QR code with the full contact as a vCard ("BEGIN:VCARD ...") or
+ * MECARD ("MECARD:N:Doe,John;TEL:...;;") payload. Decoded values are exact, so they
+ * are parsed into the canonical lead format and preferred over the OCR reading of
+ * the printed card.
+ *
+ * Supported Properties:
+ * - **vCard 2.1/3.0/4.0**: FN, N, ORG, TITLE, EMAIL, TEL, URL, ADR, X-SOCIALPROFILE,
+ *   including folded lines, escaped values and quoted-printable encoding
+ * - **MECARD**: N, TEL, EMAIL, ORG, TITLE, URL, ADR
+ *
+ * @module normalization/vcard
+ * @author Ahmed Kamal
+ */
+
+import { findAddress, countryCode } from "@/lib/normalization/address";
+import type { NormalizationOptions } from "@/lib/normalization/extract";
+import { normalizeLeadInput } from "@/lib/normalization/manual";
+import type { ParsedName } from "@/lib/normalization/name";
+import {
+  classifyPhone,
+  parsePhone,
+  phoneTypeFromLabel,
+  resolveDefaultRegion,
+  selectPrimaryPhone,
+} from "@/lib/normalization/phone";
+import { findSocialProfiles } from "@/lib/normalization/social";
+import type {
+  ExtractionResult,
+  ExtractionWarning,
+  LeadData,
+  LeadField,
+  LeadPhone,
+  SocialProfile,
+} from "@/models/lead";
+
+/**
+ * A contact decoded from a QR code payload, in canonical lead format.
+ */
+export type DecodedContact = {
+  format: "vcard" | "mecard";
+  data: LeadData;
+  warnings: ExtractionWarning[];
+};
+
+// Contact read from a payload, before normalization
+type RawContact = {
+  fields: Partial<Record<LeadField, string>>;
+  nameParts?: ParsedName;
+  phones: { value: string; label: string }[];
+  urls: string[];
+};
+
+// Lead fields filled alongside another field and carrying no provenance of their own
+const DERIVED_FIELDS = new Set(["phone_display", "phone_extension"]);
+
+/**
+ * Parses a vCard or MECARD payload into lead data.
+ *
+ * @param payload - Decoded QR code text
+ * @param options - Normalization settings such as the default phone region
+ * @returns The decoded contact, or null when the payload is not a contact card
+ *
+ * @example
+ * parseContactPayload("MECARD:N:Doe,Jane;TEL:+12127365000;EMAIL:jane@acme.com;;");
+ * // { format: "mecard", data: { name: "Jane Doe", email: "jane@acme.com",
+ * //   phone: "+12127365000", ... }, warnings: [] }
+ */
+export function parseContactPayload(
+  payload: string,
+  options: NormalizationOptions = {},
+): DecodedContact | null {
+  const text = payload.trim();
+  if (/^BEGIN:VCARD/i.test(text)) {
+    return normalizeContact("vcard", readVCard(text), options);
+  }
+  if (/^MECARD:/i.test(text)) {
+    return normalizeContact("mecard", readMeCard(text), options);
+  }
+  return null;
+}
+
+/**
+ * Merges a decoded contact into an OCR extraction, preferring the decoded values.
+ *
+ * Decoded fields replace their OCR counterparts together with their provenance
+ * (rule `qr:vcard` or `qr:mecard`, full confidence). Phone numbers and name parts are
+ * replaced as a whole, social profiles are combined, and OCR warnings about a
+ * replaced field no longer apply.
+ *
+ * @param extraction - Result of `cleanAndNormalizeData` for the printed card
+ * @param contact - Contact decoded from the card's QR code
+ * @returns The merged extraction
+ */
+export function mergeDecodedContact(
+  extraction: ExtractionResult,
+  contact: DecodedContact,
+): ExtractionResult {
+  const data: LeadData = { ...extraction.data };
+  const fields = { ...extraction.fields };
+  const decoded = contact.data;
+
+  const replaced = (Object.keys(decoded) as (keyof LeadData)[]).filter(
+    (key) => key !== "social_profiles",
+  );
+  if (decoded.phones)
+    replaced.push("phone", "phone_display", "phone_extension");
+  if (decoded.name) {
+    replaced.push(
+      "name_prefix",
+      "name_first",
+      "name_middle",
+      "name_last",
+      "name_suffix",
+    );
+  }
+  for (const key of replaced) {
+    delete data[key];
+    delete fields[key as LeadField];
+  }
+
+  for (const [key, value] of Object.entries(decoded)) {
+    if (key === "social_profiles") continue;
+    Object.assign(data, { [key]: value });
+    if (typeof value !== "string" || DERIVED_FIELDS.has(key)) continue;
+    fields[key as LeadField] = {
+      confidence: 1,
+      rule: `qr:${contact.format}`,
+      span: { text: value, start: -1, end: -1 },
+    };
+  }
+
+  const profiles = [
+    ...(decoded.social_profiles || []),
+    ...(extraction.data.social_profiles || []),
+  ].filter(
+    (profile, index, all) =>
+      all.findIndex(
+        (other) =>
+          other.network === profile.network &&
+          other.handle.toLowerCase() === profile.handle.toLowerCase(),
+      ) === index,
+  );
+  if (profiles.length > 0) data.social_profiles = profiles;
+
+  return {
+    data,
+    fields,
+    warnings: [
+      ...extraction.warnings.filter(
+        (warning) => !warning.field || !replaced.includes(warning.field),
+      ),
+      ...contact.warnings,
+    ],
+  };
+}
+
+function normalizeContact(
+  format: DecodedContact["format"],
+  contact: RawContact,
+  options: NormalizationOptions,
+): DecodedContact {
+  const defaultRegion = options.defaultRegion || resolveDefaultRegion();
+  const { fields, nameParts } = contact;
+
+  if (!fields.name && nameParts) {
+    const { prefix, first, middle, last, suffix } = nameParts;
+    const name = [prefix, first, middle, last].filter(Boolean).join(" ");
+    fields.name = suffix ? `${name}, ${suffix}` : name;
+  }
+
+  const profiles: SocialProfile[] = [];
+  for (const url of contact.urls) {
+    const social = findSocialProfiles(url, defaultRegion);
+    if (social.length > 0) {
+      profiles.push(...social.map((match) => match.profile));
+    } else if (!fields.website) {
+      fields.website = url.replace(/^https?:\/\//i, "").replace(/\/$/, "");
+    }
+  }
+
+  const { data, warnings } = normalizeLeadInput<LeadData>(
+    { ...fields },
+    { defaultRegion },
+  );
+
+  // The structured N property is authoritative over parsing the formatted name
+  if (nameParts) {
+    data.name_prefix = nameParts.prefix;
+    data.name_first = nameParts.first;
+    data.name_middle = nameParts.middle;
+    data.name_last = nameParts.last;
+    data.name_suffix = nameParts.suffix;
+  }
+
+  const phones: LeadPhone[] = [];
+  for (const { value, label } of contact.phones) {
+    const phone = parsePhone(value.replace(/^tel:/i, ""), defaultRegion);
+    if (!phone.valid) {
+      warnings.push({
+        code: "invalid_phone",
+        field: "phone",
+        message: `"${phone.raw}" is not a valid phone number for region ${defaultRegion}`,
+        value: phone.raw,
+      });
+      continue;
+    }
+    if (phones.some((other) => other.e164 === phone.e164)) continue;
+    phones.push({
+      type: classifyPhone(phone, phoneTypeFromLabel(label)),
+      e164: phone.e164!,
+      display: phone.display!,
+      ...(phone.extension && { extension: phone.extension }),
+      primary: false,
+    });
+  }
+  if (phones.length > 0) {
+    data.phones = selectPrimaryPhone(phones);
+    const primary = data.phones.find((phone) => phone.primary);
+    if (primary) {
+      data.phone = primary.e164;
+      data.phone_display = primary.display;
+      if (primary.extension) data.phone_extension = primary.extension;
+    }
+  }
+
+  if (profiles.length > 0) data.social_profiles = profiles;
+
+  return {
+    format,
+    data: Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined),
+    ) as LeadData,
+    warnings,
+  };
+}
+
+function readVCard(text: string): RawContact {
+  const contact: RawContact = { fields: {}, phones: [], urls: [] };
+  // Folded lines continue with a leading space or tab
+  const lines = text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n");
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+
+    const [property, ...params] = line.slice(0, colon).split(";");
+    // Grouped properties: "item1.EMAIL"
+    const name = property.replace(/^[\w-]+\./, "").toUpperCase();
+    let value = line.slice(colon + 1);
+
+    if (params.some((param) => /quoted-printable/i.test(param))) {
+      // Quoted-printable soft line breaks end with "="
+      while (value.endsWith("=") && index + 1 < lines.length) {
+        value = value.slice(0, -1) + lines[++index];
+      }
+      value = decodeQuotedPrintable(value);
+    }
+
+    const parts = splitEscaped(value, ";").map(unescapeValue);
+    const label = params.join(" ");
+
+    switch (name) {
+      case "FN":
+        contact.fields.name ||= unescapeValue(value);
+        break;
+      case "N": {
+        const [last, first, middle, prefix, suffix] = parts;
+        contact.nameParts = clean({ prefix, first, middle, last, suffix });
+        break;
+      }
+      case "ORG":
+        contact.fields.company ||= parts[0];
+        break;
+      case "TITLE":
+        contact.fields.job_title ||= unescapeValue(value);
+        break;
+      case "EMAIL":
+        contact.fields.email ||= unescapeValue(value).replace(/^mailto:/i, "");
+        break;
+      case "TEL":
+        contact.phones.push({ value: unescapeValue(value), label });
+        break;
+      case "URL":
+      case "X-SOCIALPROFILE":
+        contact.urls.push(unescapeValue(value));
+        break;
+      case "ADR": {
+        if (contact.fields.address_city || contact.fields.address_street) break;
+        const [, extended, street, city, region, postalCode, country] = parts;
+        Object.assign(contact.fields, {
+          address_street: [street, extended].filter(Boolean).join(", "),
+          address_city: city,
+          address_region: region,
+          address_postal_code: postalCode,
+          address_country: country && (countryCode(country) || country),
+        });
+        break;
+      }
+    }
+  }
+
+  return contact;
+}
+
+function readMeCard(text: string): RawContact {
+  const contact: RawContact = { fields: {}, phones: [], urls: [] };
+
+  for (const entry of splitEscaped(text.replace(/^MECARD:/i, ""), ";")) {
+    const colon = entry.indexOf(":");
+    if (colon === -1) continue;
+    const name = entry.slice(0, colon).trim().toUpperCase();
+    const value = entry.slice(colon + 1);
+
+    switch (name) {
+      case "N": {
+        // "Doe,John" (family name first) or a single formatted name
+        const [last, first] = splitEscaped(value, ",").map(unescapeValue);
+        if (first) {
+          contact.nameParts = clean({ first, last });
+        } else {
+          contact.fields.name = last;
+        }
+        break;
+      }
+      case "ORG":
+        contact.fields.company ||= unescapeValue(value);
+        break;
+      case "TITLE":
+        contact.fields.job_title ||= unescapeValue(value);
+        break;
+      case "EMAIL":
+        contact.fields.email ||= unescapeValue(value);
+        break;
+      case "TEL":
+      case "TEL-AV":
+        contact.phones.push({ value: unescapeValue(value), label: "" });
+        break;
+      case "URL":
+        contact.urls.push(unescapeValue(value));
+        break;
+      case "ADR": {
+        const parts = splitEscaped(value, ",").map(unescapeValue);
+        if (parts.length === 7) {
+          const [, extended, street, city, region, postalCode, country] = parts;
+          Object.assign(contact.fields, {
+            address_street: [street, extended].filter(Boolean).join(", "),
+            address_city: city,
+            address_region: region,
+            address_postal_code: postalCode,
+            address_country: country && (countryCode(country) || country),
+          });
+        } else {
+          // Free-form address, e.g. "350 Fifth Avenue, New York, NY 10118"
+          const address = findAddress(parts);
+          Object.assign(contact.fields, {
+            address_street: address?.street || parts.join(", "),
+            address_city: address?.city,
+            address_region: address?.region,
+            address_postal_code: address?.postalCode,
+            address_country: address?.country,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return contact;
+}
+
+/**
+ * Splits a value on a separator that is not escaped with a backslash, keeping the
+ * escapes so nested values can be split again.
+ */
+function splitEscaped(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (char === "\\" && index + 1 < value.length) {
+      current += char + value[++index];
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function unescapeValue(value: string): string {
+  return value
+    .replace(/\\([nN]|.)/g, (_, char: string) =>
+      char.toLowerCase() === "n" ? "\n" : char,
+    )
+    .trim();
+}
+
+function decodeQuotedPrintable(value: string): string {
+  const bytes: number[] = [];
+  for (let index = 0; index < value.length; index++) {
+    const hex = value.slice(index + 1, index + 3);
+    if (value[index] === "=" && /^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      index += 2;
+    } else {
+      bytes.push(...new TextEncoder().encode(value[index]));
+    }
+  }
+  return new TextDecoder().decode(Uint8Array.from(bytes));
+}
+
+function clean(parts: ParsedName): ParsedName {
+  return Object.fromEntries(
+    Object.entries(parts).filter(([, value]) => value?.trim()),
+  ) as ParsedName;
+}
@@ -0,0 +1,76 @@
+/**
+ * OCR Provider Selection
+ *
+ * Entry point for text extraction. The concrete backend is chosen by configuration so
+ * the same pipeline runs against Google Cloud Vision in production and a local Tesseract
+ * engine on dev machines, CI and air-gapped installs.
+ *
+ * Environment Variables:
+ * - `OCR_PROVIDER`: "google-vision" (default) or "tesseract"
+ * - `OCR_LANGUAGE_HINTS`: Default ISO 639-1 language hints, comma separated (e.g. "en,ar")
+ *
+ * @module ocr
+ * @author Ahmed Kamal
+ */
+
+import { googleVisionProvider } from "@/lib/ocr/google-vision";
+import { tesseractProvider } from "@/lib/ocr/tesseract";
+import type { OcrProvider } from "@/lib/ocr/types";
+
+export type {
+  BoundingBox,
+  BoundingVertex,
+  OcrOptions,
+  OcrProvider,
+  OcrResult,
+  TextSegment,
+} from "@/lib/ocr/types";
+
+// Registry of available OCR backends, keyed by their `OCR_PROVIDER` value
+const OCR_PROVIDERS: Record<string, OcrProvider> = {
+  "google-vision": googleVisionProvider,
+  tesseract: tesseractProvider,
+};
+
+/**
+ * Returns the OCR provider configured through `OCR_PROVIDER`.
+ *
+ * @param key - Optional provider key overriding `OCR_PROVIDER` (e.g. "tesseract")
+ * @returns The configured OCR provider
+ * @throws {Error} When the key names an unknown provider
+ *
+ * @example
+ * const ocr = getOcrProvider();
+ * const { fullText, textSegments } = await ocr.extractText(imageBuffer);
+ */
+export function getOcrProvider(
+  key = process.env.OCR_PROVIDER || "google-vision",
+): OcrProvider {
+  const provider = OCR_PROVIDERS[key];
+
+  if (!provider) {
+    throw new Error(
+      `Unknown OCR provider '${key}', expected one of: ${Object.keys(OCR_PROVIDERS).join(", ")}`,
+    );
+  }
+
+  return provider;
+}
+
+/**
+ * Resolves the OCR language hints for an upload.
+ *
+ * @param requested - Comma-separated ISO 639-1 codes requested for this upload (e.g.
+ *   form field), falling back to `OCR_LANGUAGE_HINTS`
+ * @returns Lowercase language codes, empty to let the provider auto-detect
+ *
+ * @example
+ * resolveLanguageHints("en, AR"); // ["en", "ar"]
+ */
+export function resolveLanguageHints(requested?: string | null): string[] {
+  const hints = requested?.trim() || process.env.OCR_LANGUAGE_HINTS || "";
+  return hints
+    .split(",")
+    .map((hint) => hint.trim().toLowerCase())
+    .filter((hint) => /^[a-z]{2,3}(-[a-z]{2,4})?$/.test(hint));
+}
@@ -0,0 +1,161 @@
+/**
+ * Tesseract.js OCR Client
+ *
+ * Local, offline OCR backend for development machines, CI and air-gapped installs where
+ * no Google Vision API key is available. Runs the Tesseract engine (WebAssembly) inside
+ * the Node.js process.
+ *
+ * Environment Variables (all optional):
+ * - `TESSERACT_LANGS`: Tesseract language codes joined by "+" (default: "eng")
+ * - `TESSERACT_LANG_PATH`: Directory or URL holding `*.traineddata` files. Point this at a
+ *   local directory for fully offline installs, otherwise the data is fetched once from the
+ *   tesseract.js CDN and cached.
+ * - `TESSERACT_CACHE_PATH`: Directory where downloaded language data is cached
+ *
+ * Language hints (ISO 639-1, e.g. "ar") are mapped to Tesseract models and added to
+ * `TESSERACT_LANGS`; one worker is kept per language combination.
+ *
+ * @module ocr/tesseract
+ * @author Ahmed Kamal
+ */
+
+import { createWorker, type Worker } from "tesseract.js";
+import type {
+  OcrOptions,
+  OcrProvider,
+  OcrResult,
+  TextSegment,
+} from "@/lib/ocr/types";
+
+// Workers keyed by their "+"-joined language list
+const workerPromises = new Map<string, Promise<Worker>>();
+
+// ISO 639-1 language hints to Tesseract traineddata names
+const TESSERACT_LANGUAGES: Record<string, string> = {
+  en: "eng",
+  ar: "ara",
+  fa: "fas",
+  ur: "urd",
+  he: "heb",
+  zh: "chi_sim",
+  "zh-tw": "chi_tra",
+  ja: "jpn",
+  ko: "kor",
+  ru: "rus",
+  uk: "ukr",
+  el: "ell",
+  hi: "hin",
+  th: "tha",
+  de: "deu",
+  fr: "fra",
+  es: "spa",
+  it: "ita",
+  pt: "por",
+  nl: "nld",
+  tr: "tur",
+};
+
+/**
+ * Returns the Tesseract worker for a language combination, creating it on first use.
+ *
+ * Worker start-up loads the WASM engine and language data, which takes a few seconds,
+ * so each worker is created once and reused across requests.
+ *
+ * @param languageHints - Optional ISO 639-1 codes added to `TESSERACT_LANGS`
+ * @returns Promise resolving to the initialized Tesseract worker
+ */
+export function getTesseractWorker(
+  languageHints: string[] = [],
+): Promise<Worker> {
+  const langs = [
+    ...(process.env.TESSERACT_LANGS || "eng").split("+"),
+    ...languageHints
+      .map((hint) => TESSERACT_LANGUAGES[hint.toLowerCase()])
+      .filter(Boolean),
+  ].filter((lang, index, all) => all.indexOf(lang) === index);
+  const key = langs.join("+");
+
+  let workerPromise = workerPromises.get(key);
+  if (!workerPromise) {
+    workerPromise = createWorker(langs, undefined, {
+      langPath: process.env.TESSERACT_LANG_PATH || undefined,
+      cachePath: process.env.TESSERACT_CACHE_PATH || undefined,
+    }).catch((error) => {
+      // Allow the next request to retry initialization
+      workerPromises.delete(key);
+      throw error;
+    });
+    workerPromises.set(key, workerPromise);
+  }
+
+  return workerPromise;
+}
+
+/**
+ * Tesseract.js OCR provider.
+ */
+export const tesseractProvider: OcrProvider = {
+  name: "Tesseract",
+
+  /**
+   * Extract text from business card image using the local Tesseract engine
+   *
+   * @param imageBuffer - Buffer containing the image data
+   * @param options - Language hints select the Tesseract language models
+   * @returns Promise with extracted text and confidence scores
+   */
+  async extractText(
+    imageBuffer: Buffer,
+    options: OcrOptions = {},
+  ): Promise<OcrResult> {
+    try {
+      const worker = await getTesseractWorker(options.languageHints);
+      const { data } = await worker.recognize(
+        imageBuffer,
+        {},
+        { text: true, blocks: true },
+      );
+
+      const fullText = data.text.trim();
+
+      if (!fullText) {
+        throw new Error("No text detected in image");
+      }
+
+      // Flatten the block → paragraph → line → word hierarchy into word segments.
+      // Tesseract reports confidence on a 0-100 scale, normalize it to 0-1.
+      const textSegments: TextSegment[] = (data.blocks || []).flatMap((block) =>
+        block.paragraphs.flatMap((paragraph) =>
+          paragraph.lines.flatMap((line) =>
+            line.words
+              .filter((word) => word.text.trim().length > 0)
+              .map((word) => ({
+                text: word.text,
+                confidence: word.confidence / 100,
+                boundingBox: {
+                  vertices: [
+                    { x: word.bbox.x0, y: word.bbox.y0 },
+                    { x: word.bbox.x1, y: word.bbox.y0 },
+                    { x: word.bbox.x1, y: word.bbox.y1 },
+                    { x: word.bbox.x0, y: word.bbox.y1 },
+                  ],
+                },
+              })),
+          ),
+        ),
+      );
+
+      return {
+        fullText,
+        confidence: data.confidence / 100,
+        textSegments,
+        wordCount: textSegments.length,
+      };
+    } catch (error) {
+      console.error("Tesseract OCR failed:", error);
+      throw new Error(
+        `OCR processing failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  },
+};
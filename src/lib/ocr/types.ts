@@ -0,0 +1,81 @@
+/**
+ * OCR Provider Contracts
+ *
+ * Shared types implemented by every OCR backend. Keeping a single result shape lets the
+ * processing pipeline stay provider-agnostic: downstream normalization only ever sees
+ * `fullText`, an overall `confidence` and word-level `textSegments` with bounding boxes.
+ *
+ * @module ocr/types
+ * @author Ahmed Kamal
+ */
+
+/**
+ * A single corner of a bounding polygon, in image pixel coordinates.
+ */
+export type BoundingVertex = {
+  x: number;
+  y: number;
+};
+
+/**
+ * Bounding polygon of a detected text segment.
+ *
+ * Vertices are ordered clockwise starting from the top-left corner of the text
+ * (relative to its reading direction), matching Google Vision's `boundingPoly`.
+ */
+export type BoundingBox = {
+  vertices: BoundingVertex[];
+};
+
+/**
+ * An individual word (or token) detected by the OCR engine.
+ */
+export type TextSegment = {
+  text: string;
+  confidence: number; // 0..1
+  boundingBox: BoundingBox;
+};
+
+/**
+ * Normalized OCR output shared by all providers.
+ */
+export type OcrResult = {
+  fullText: string;
+  confidence: number; // 0..1
+  textSegments: TextSegment[];
+  wordCount: number;
+};
+
+/**
+ * Per-request OCR settings.
+ */
+export type OcrOptions = {
+  /**
+   * ISO 639-1 codes of the languages expected on the card, e.g. ["en", "ar"] for a
+   * bilingual English/Arabic card. Providers use them to pick recognition models.
+   */
+  languageHints?: string[];
+};
+
+/**
+ * Contract every OCR backend must implement.
+ *
+ * @example
+ * const provider = getOcrProvider();
+ * const { fullText } = await provider.extractText(imageBuffer);
+ * console.log(`${provider.name} extracted:`, fullText);
+ */
+export interface OcrProvider {
+  /** Human readable provider name, recorded in the lead `source` column */
+  readonly name: string;
+
+  /**
+   * Extract text from a business card image.
+   *
+   * @param imageBuffer - Buffer containing the image data
+   * @param options - Optional settings such as language hints
+   * @returns Promise with extracted text, confidence and word segments
+   * @throws {Error} When the OCR engine fails or detects no text
+   */
+  extractText(imageBuffer: Buffer, options?: OcrOptions): Promise<OcrResult>;
+}
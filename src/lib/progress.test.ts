@@ -0,0 +1,192 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  acceptsEventStream,
+  createStageTracker,
+  readStageStream,
+  streamStages,
+  trackStages,
+  type StageEvent,
+} from "@/lib/progress";
+
+describe("createStageTracker", () => {
+  it("completes the running stage when the next one starts", () => {
+    const events: StageEvent[] = [];
+    const progress = createStageTracker((event) => events.push(event));
+
+    progress.start("ocr", "Extracting text...");
+    progress.start("ocr");
+    progress.start("normalization");
+    progress.fail("No text detected in image");
+    progress.skip("crm_sync", "Nothing to sync");
+
+    expect(events.map(({ stage, status }) => [stage, status])).toEqual([
+      ["ocr", "started"],
+      ["ocr", "completed"],
+      ["normalization", "started"],
+      ["normalization", "failed"],
+      ["crm_sync", "skipped"],
+    ]);
+    expect(events[1].durationMs).toBeGreaterThanOrEqual(0);
+    expect(events[3].message).toBe("No text detected in image");
+    expect(events[4].durationMs).toBeUndefined();
+  });
+
+  it("reports nothing without a listener", () => {
+    const progress = createStageTracker();
+
+    progress.start("ocr");
+    progress.complete();
+
+    expect(progress.reporting).toBe(false);
+  });
+});
+
+describe("trackStages", () => {
+  it("fails the running stage with the error message of the response", async () => {
+    const onEvent = vi.fn();
+
+    const response = await trackStages(onEvent, async (progress) => {
+      progress.start("storage");
+      return Response.json(
+        { success: false, message: "Failed to store lead data" },
+        { status: 500 },
+      );
+    });
+
+    expect(response.status).toBe(500);
+    expect(onEvent).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        stage: "storage",
+        status: "failed",
+        message: "Failed to store lead data",
+      }),
+    );
+  });
+
+  it("completes the running stage on success and fails it on errors", async () => {
+    const onEvent = vi.fn();
+
+    await trackStages(onEvent, async (progress) => {
+      progress.start("ocr");
+      return Response.json({ success: true });
+    });
+    await expect(
+      trackStages(onEvent, async (progress) => {
+        progress.start("normalization");
+        throw new Error("Parser crashed");
+      }),
+    ).rejects.toThrow("Parser crashed");
+
+    expect(onEvent.mock.calls.map(([event]) => event.status)).toEqual([
+      "started",
+      "completed",
+      "started",
+      "failed",
+    ]);
+  });
+});
+
+describe("progress streams", () => {
+  it("streams stage events followed by the result", async () => {
+    const response = streamStages(async (onStage) => {
+      const progress = createStageTracker(onStage);
+      progress.start("ocr");
+      progress.complete("Text extracted");
+      return Response.json({ success: true, lead: { id: "1" } });
+    });
+    const onStage = vi.fn();
+
+    const result = await readStageStream(response, onStage);
+
+    expect(result).toEqual({
+      status: 200,
+      body: { success: true, lead: { id: "1" } },
+    });
+    expect(onStage.mock.calls.map(([event]) => event.status)).toEqual([
+      "started",
+      "completed",
+    ]);
+  });
+
+  it("answers thrown errors as a 500 result", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const response = streamStages(async () => {
+      throw new Error("OCR provider unavailable");
+    });
+
+    const { status, body } = await readStageStream<{ error: string }>(
+      response,
+      () => {},
+    );
+
+    expect(status).toBe(500);
+    expect(body.error).toBe("OCR provider unavailable");
+  });
+
+  it("keeps running the handler after the client disconnects", async () => {
+    let release!: () => void;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    const finished = vi.fn();
+    const response = streamStages(async (onStage) => {
+      const progress = createStageTracker(onStage);
+      progress.start("ocr");
+      await released;
+      progress.complete();
+      progress.start("storage");
+      finished();
+      return Response.json({ success: true });
+    });
+    const reader = response.body!.getReader();
+
+    await reader.read();
+    await reader.cancel();
+    release();
+
+    await vi.waitFor(() => expect(finished).toHaveBeenCalled());
+  });
+
+  it("reassembles events split across chunks", async () => {
+    const text =
+      'event: stage\ndata: {"stage":"ocr","status":"started"}\n\n' +
+      'event: result\ndata: {"status":400,"body":{"success":false}}\n\n';
+    const chunks = [text.slice(0, 20), text.slice(20, 70), text.slice(70)];
+    const body = new ReadableStream({
+      start(controller) {
+        for (const chunk of chunks) {
+          controller.enqueue(new TextEncoder().encode(chunk));
+        }
+        controller.close();
+      },
+    });
+    const onStage = vi.fn();
+
+    const result = await readStageStream(
+      new Response(body, { headers: { "Content-Type": "text/event-stream" } }),
+      onStage,
+    );
+
+    expect(onStage).toHaveBeenCalledWith({ stage: "ocr", status: "started" });
+    expect(result).toEqual({ status: 400, body: { success: false } });
+  });
+
+  it("returns plain JSON responses as the result", async () => {
+    const response = Response.json(
+      { success: false, code: "missing_file" },
+      { status: 400 },
+    );
+
+    expect(await readStageStream(response, () => {})).toEqual({
+      status: 400,
+      body: { success: false, code: "missing_file" },
+    });
+  });
+
+  it("detects requests for a stream", () => {
+    const request = new Request("http://localhost/api/process-card", {
+      headers: { Accept: "text/event-stream" },
+    });
+
+    expect(acceptsEventStream(request)).toBe(true);
+    expect(acceptsEventStream(new Request("http://localhost/"))).toBe(false);
+  });
+});
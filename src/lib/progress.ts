@@ -0,0 +1,269 @@
+/**
+ * Pipeline Progress Streaming
+ *
+ * Real progress of a card upload through the pipeline stages, streamed to the upload
+ * page as Server-Sent Events while the request runs:
+ *
+ * ```
+ * event: stage
+ * data: {"stage":"ocr","status":"completed","message":"Text extracted","durationMs":1840}
+ *
+ * event: result
+ * data: {"status":200,"body":{"success":true,"lead":{...}}}
+ * ```
+ *
+ * `stage` events report each stage starting, completing, failing or being skipped;
+ * the final `result` event carries the HTTP status and body the request would have
+ * answered without streaming. The stream is requested with `Accept: text/event-stream`.
+ *
+ * Shared by the API routes (tracker, stream) and the upload page (reader), so it
+ * must stay free of server-only imports.
+ *
+ * @module progress
+ * @author Ahmed Kamal
+ */
+
+export const EVENT_STREAM_TYPE = "text/event-stream";
+
+/**
+ * Pipeline stages, in order.
+ */
+export type PipelineStage = "ocr" | "normalization" | "storage" | "crm_sync";
+
+export type StageStatus = "started" | "completed" | "failed" | "skipped";
+
+/**
+ * A stage changing status. Finished stages carry how long they ran.
+ */
+export type StageEvent = {
+  stage: PipelineStage;
+  status: StageStatus;
+  message?: string;
+  durationMs?: number;
+};
+
+/**
+ * Reports the stages of one request, one stage running at a time.
+ */
+export type StageTracker = {
+  /** Whether events are reported to anyone; callers may skip costly waits if not */
+  readonly reporting: boolean;
+  /** Completes the running stage, unless it is `stage`, and starts `stage` */
+  start(stage: PipelineStage, message?: string): void;
+  /** Completes the running stage */
+  complete(message?: string): void;
+  /** Fails the running stage */
+  fail(message: string): void;
+  /** Reports a stage that does not run for this request */
+  skip(stage: PipelineStage, message: string): void;
+};
+
+/**
+ * The body of an answered request, as carried by the `result` event.
+ */
+export type StreamResult<T = unknown> = {
+  status: number;
+  /** Route-specific response body */
+  body: T;
+};
+
+/**
+ * Creates a stage tracker.
+ *
+ * @param onEvent - Receives the stage events; without it nothing is reported
+ * @returns The tracker
+ *
+ * @example
+ * const progress = createStageTracker((event) => console.log(event));
+ * progress.start("ocr", "Extracting text...");
+ * progress.start("normalization"); // completes "ocr" with its duration
+ */
+export function createStageTracker(
+  onEvent?: (event: StageEvent) => void,
+): StageTracker {
+  let running: { stage: PipelineStage; startedAt: number } | null = null;
+
+  const finish = (status: "completed" | "failed", message?: string) => {
+    if (!running) return;
+    const { stage, startedAt } = running;
+    running = null;
+    onEvent?.({
+      stage,
+      status,
+      ...(message && { message }),
+      durationMs: Math.round(performance.now() - startedAt),
+    });
+  };
+
+  return {
+    reporting: !!onEvent,
+    start(stage, message) {
+      if (running?.stage === stage) return;
+      finish("completed");
+      running = { stage, startedAt: performance.now() };
+      onEvent?.({ stage, status: "started", ...(message && { message }) });
+    },
+    complete(message) {
+      finish("completed", message);
+    },
+    fail(message) {
+      finish("failed", message);
+    },
+    skip(stage, message) {
+      onEvent?.({ stage, status: "skipped", message });
+    },
+  };
+}
+
+/**
+ * Runs a request handler with a stage tracker. The stage running when the handler
+ * answers with an error status, or throws, is reported as failed with the error
+ * message; a stage still running on success is completed.
+ *
+ * @param onEvent - Receives the stage events (see `createStageTracker`)
+ * @param run - Handler reporting its stages to the tracker
+ * @returns The handler's response
+ *
+ * @example
+ * return trackStages(input.onStage, (progress) => runPipeline(input, progress));
+ */
+export async function trackStages<T extends Response>(
+  onEvent: ((event: StageEvent) => void) | undefined,
+  run: (progress: StageTracker) => Promise<T>,
+): Promise<T> {
+  const progress = createStageTracker(onEvent);
+  try {
+    const response = await run(progress);
+    if (response.status >= 400) {
+      const body = await response
+        .clone()
+        .json()
+        .catch(() => null);
+      progress.fail(body?.message || `Failed with status ${response.status}`);
+    } else {
+      progress.complete();
+    }
+    return response;
+  } catch (error) {
+    progress.fail(error instanceof Error ? error.message : "Processing failed");
+    throw error;
+  }
+}
+
+/**
+ * Whether a request asks for a progress stream.
+ */
+export function acceptsEventStream(request: Request): boolean {
+  return (request.headers.get("accept") || "").includes(EVENT_STREAM_TYPE);
+}
+
+/**
+ * Runs a request handler and streams its stage events, then its response, as
+ * Server-Sent Events. Errors thrown by the handler are answered as a 500 result.
+ * When the client disconnects, the handler still runs to completion and its
+ * remaining events are discarded.
+ *
+ * @param run - Handler reporting its stages to `onStage`
+ * @returns The event stream response
+ *
+ * @example
+ * if (acceptsEventStream(request)) {
+ *   return streamStages((onStage) => processCardUpload({ ...input, onStage }));
+ * }
+ */
+export function streamStages(
+  run: (onStage: (event: StageEvent) => void) => Promise<Response>,
+): Response {
+  const encoder = new TextEncoder();
+  // Set once the client disconnects; the handler still runs to completion
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+        );
+      };
+
+      let result: StreamResult;
+      try {
+        const response = await run((event) => send("stage", event));
+        result = { status: response.status, body: await response.json() };
+      } catch (error) {
+        console.error("Processing error:", error);
+        result = {
+          status: 500,
+          body: {
+            success: false,
+            message: "Processing failed",
+            error: error instanceof Error ? error.message : "Unknown error",
+          },
+        };
+      }
+      send("result", result);
+      if (!closed) controller.close();
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": EVENT_STREAM_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+      // Keeps proxies such as nginx from buffering the events
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+/**
+ * Reads a progress stream on the client, passing stage events on as they arrive.
+ * Responses that are not a stream (e.g. requests rejected before processing
+ * started) are returned as their result directly.
+ *
+ * @param response - Response of a request sent with `Accept: text/event-stream`
+ * @param onStage - Receives the stage events
+ * @returns The request's result; `T` is the expected body, which is not validated
+ * @throws {Error} When the stream ends without a result
+ *
+ * @example
+ * const response = await fetch("/api/process-card", {
+ *   method: "POST",
+ *   body: formData,
+ *   headers: { Accept: "text/event-stream" },
+ * });
+ * const { status, body } = await readStageStream(response, setStage);
+ */
+export async function readStageStream<T = unknown>(
+  response: Response,
+  onStage: (event: StageEvent) => void,
+): Promise<StreamResult<T>> {
+  const type = response.headers.get("content-type") || "";
+  if (!type.includes(EVENT_STREAM_TYPE) || !response.body) {
+    return { status: response.status, body: await response.json() };
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line; the last chunk may be incomplete
+    const events = buffer.split("\n\n");
+    buffer = events.pop()!;
+    for (const raw of events) {
+      const event = raw.match(/^event: (.*)$/m)?.[1];
+      const data = raw.match(/^data: (.*)$/m)?.[1];
+      if (!data) continue;
+      if (event === "stage") onStage(JSON.parse(data));
+      if (event === "result") return JSON.parse(data);
+    }
+  }
+
+  throw new Error("Progress stream ended without a result");
+}
@@ -0,0 +1,32 @@
+import { readFileSync } from "fs";
+import path from "path";
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import { decodeQrCode } from "@/lib/qr";
+
+describe("decodeQrCode", () => {
+  it("decodes the vCard QR code printed on a card", async () => {
+    const image = readFileSync(
+      path.join(__dirname, "__fixtures__", "qr-vcard-card.png"),
+    );
+
+    const payload = await decodeQrCode(image);
+
+    expect(payload).toMatch(/^BEGIN:VCARD/);
+    expect(payload).toContain("FN:Dr. Jane Doe");
+  });
+
+  it("returns null for images without a QR code", async () => {
+    const blank = await sharp({
+      create: { width: 200, height: 120, channels: 3, background: "#ffffff" },
+    })
+      .png()
+      .toBuffer();
+
+    expect(await decodeQrCode(blank)).toBeNull();
+  });
+
+  it("returns null for data that is not an image", async () => {
+    expect(await decodeQrCode(Buffer.from("not an image"))).toBeNull();
+  });
+});
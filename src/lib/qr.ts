@@ -0,0 +1,61 @@
+/**
+ * QR Code Detection
+ *
+ * Finds and decodes a QR code in an uploaded card image, locally and without any
+ * external service. Cards often carry a QR code with the full contact as a vCard or
+ * MECARD (see `parseContactPayload`), which is far more reliable than OCR.
+ *
+ * @module qr
+ * @author Ahmed Kamal
+ */
+
+import jsQR from "jsqr";
+import sharp from "sharp";
+
+// Decoding passes: phone photos are scaled down for speed, then scanned again at a
+// higher resolution with normalized contrast for small or faint codes
+const DECODE_PASSES = [
+  { maxSize: 1000, normalize: false },
+  { maxSize: 2000, normalize: true },
+];
+
+/**
+ * Decodes the QR code in an image.
+ *
+ * Images that cannot be read (unsupported format, corrupt data) are treated as
+ * having no QR code; the OCR pipeline reports its own errors for them.
+ *
+ * @param imageBuffer - Buffer containing the image data (JPEG, PNG, WebP, ...)
+ * @returns The decoded QR code text, or null when no QR code was found
+ *
+ * @example
+ * const payload = await decodeQrCode(imageBuffer);
+ * // "BEGIN:VCARD\nVERSION:3.0\nFN:Jane Doe\n..."
+ */
+export async function decodeQrCode(
+  imageBuffer: Buffer,
+): Promise<string | null> {
+  try {
+    for (const { maxSize, normalize } of DECODE_PASSES) {
+      let image = sharp(imageBuffer)
+        .rotate() // honour EXIF orientation of phone photos
+        .resize(maxSize, maxSize, { fit: "inside", withoutEnlargement: true });
+      if (normalize) image = image.normalize();
+
+      const { data, info } = await image
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+      const code = jsQR(
+        new Uint8ClampedArray(data.buffer, data.byteOffset, data.length),
+        info.width,
+        info.height,
+      );
+      if (code?.data) return code.data;
+    }
+  } catch (error) {
+    console.warn("QR code detection failed:", error);
+  }
+
+  return null;
+}
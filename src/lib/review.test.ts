@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { parsePhone } from "@/lib/normalization";
+import { applyCorrections, type ReviewedDraft } from "@/lib/review";
+
+const draft: ReviewedDraft = {
+  data: {
+    name: "Jane Doe",
+    name_first: "Jane",
+    name_last: "Doe",
+    email: "jane@acme.com",
+    company: "Acme",
+    website: "globex.com",
+    phone: "+442079460958",
+  },
+  field_provenance: {
+    email: {
+      confidence: 0.9,
+      rule: "regex:email",
+      span: { text: "jane@acme.com", start: 10, end: 23 },
+    },
+  },
+  extraction_warnings: [
+    {
+      code: "domain_mismatch",
+      field: "website",
+      message: "Website domain does not match the email domain",
+      value: "globex.com",
+    },
+    { code: "invalid_phone", field: "phone", message: "Phone number invalid" },
+    { code: "low_confidence", message: "OCR confidence is low" },
+  ],
+};
+
+describe("applyCorrections", () => {
+  it("records corrected fields as manual review", () => {
+    const { data, fieldProvenance } = applyCorrections(
+      draft,
+      { email: " jane.doe@acme.com ", company: "" },
+      null,
+    );
+
+    expect(data.email).toBe("jane.doe@acme.com");
+    expect(data).not.toHaveProperty("company");
+    expect(fieldProvenance.email).toEqual({
+      confidence: 1,
+      rule: "manual:review",
+      span: { text: "jane@acme.com", start: 10, end: 23 },
+    });
+  });
+
+  it("keeps warnings of fields the reviewer didn't change", () => {
+    // The website is resent unchanged, so its warning still applies
+    const { warnings } = applyCorrections(
+      draft,
+      { website: "globex.com", job_title: "CEO" },
+      null,
+    );
+
+    expect(warnings).toEqual(draft.extraction_warnings);
+  });
+
+  it("drops warnings of corrected fields", () => {
+    const correctedPhone = parsePhone("+44 20 7946 0000", "GB");
+
+    const { data, warnings } = applyCorrections(
+      draft,
+      { phone: "+44 20 7946 0000" },
+      correctedPhone,
+    );
+
+    expect(data.phone).toBe("+442079460000");
+    expect(data.phones).toEqual([
+      expect.objectContaining({ e164: "+442079460000", primary: true }),
+    ]);
+    expect(warnings.map(({ code }) => code)).toEqual([
+      "domain_mismatch",
+      "low_confidence",
+    ]);
+  });
+
+  it("re-derives the name parts of a corrected name", () => {
+    const { data } = applyCorrections(draft, { name: "John Smith" }, null);
+
+    expect(data).toMatchObject({ name_first: "John", name_last: "Smith" });
+  });
+});
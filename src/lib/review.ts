@@ -0,0 +1,149 @@
+/**
+ * Draft Review
+ *
+ * Applies the corrections of the review-and-correct flow to a draft's extracted
+ * data before it is stored as a lead (see `POST /api/process-card/drafts/{id}/confirm`).
+ *
+ * - Fields the reviewer changed get the `manual:review` provenance rule with full
+ *   confidence; an empty string clears a field
+ * - A corrected phone number replaces the primary entry of `phones`
+ * - A corrected name has its parts re-derived
+ * - Extraction warnings about corrected fields are dropped; all others are kept
+ *
+ * @module review
+ * @author Ahmed Kamal
+ */
+
+import {
+  classifyPhone,
+  nameFields,
+  type ParsedPhone,
+} from "@/lib/normalization";
+import {
+  LEAD_FIELDS,
+  type ExtractionWarning,
+  type LeadData,
+  type LeadField,
+  type LeadFieldProvenance,
+} from "@/models/lead";
+
+/**
+ * The stored draft fields a review applies to.
+ */
+export type ReviewedDraft = {
+  data: LeadData;
+  field_provenance?: LeadFieldProvenance | null;
+  extraction_warnings?: ExtractionWarning[] | null;
+};
+
+/**
+ * Lead data of a draft after the review.
+ */
+export type ReviewResult = {
+  data: LeadData;
+  fieldProvenance: LeadFieldProvenance;
+  warnings: ExtractionWarning[];
+};
+
+/**
+ * Applies the reviewer's corrections on top of a draft's extracted values.
+ *
+ * @param draft - Stored draft
+ * @param corrections - Corrected values by field, as sent by the reviewer; omitted
+ *   fields keep the extracted value
+ * @param correctedPhone - The corrected phone number parsed in the draft's region,
+ *   validated by the caller
+ * @returns The lead data, provenance and remaining warnings
+ *
+ * @example
+ * const { data, warnings } = applyCorrections(draft, { job_title: "CEO" }, null);
+ */
+export function applyCorrections(
+  draft: ReviewedDraft,
+  corrections: Record<string, unknown>,
+  correctedPhone: ParsedPhone | null,
+): ReviewResult {
+  const data: LeadData = { ...draft.data };
+  const fieldProvenance: LeadFieldProvenance = {
+    ...(draft.field_provenance || {}),
+  };
+  // Fields the reviewer changed (or cleared), including re-derived name parts
+  const corrected = new Set<LeadField>();
+
+  for (const field of LEAD_FIELDS) {
+    const input = corrections[field];
+    if (typeof input !== "string") continue;
+
+    const value =
+      field === "phone" && correctedPhone ? correctedPhone.e164! : input.trim();
+    if (value === (data[field] || "")) continue;
+    corrected.add(field);
+
+    if (field === "phone") {
+      // The corrected number replaces the primary entry of the phone list
+      const previous = (data.phones || []).find((phone) => phone.primary);
+      const others = (data.phones || [])
+        .filter((phone) => phone !== previous && phone.e164 !== value)
+        .map((phone) => ({ ...phone, primary: false }));
+      delete data.phone_display;
+      delete data.phone_extension;
+      data.phones = others;
+      if (correctedPhone) {
+        data.phone_display = correctedPhone.display;
+        if (correctedPhone.extension) {
+          data.phone_extension = correctedPhone.extension;
+        }
+        data.phones = [
+          {
+            type: previous?.type || classifyPhone(correctedPhone),
+            e164: correctedPhone.e164!,
+            display: correctedPhone.display!,
+            ...(correctedPhone.extension && {
+              extension: correctedPhone.extension,
+            }),
+            primary: true,
+          },
+          ...others,
+        ];
+      }
+    }
+
+    if (value) {
+      data[field] = value;
+      fieldProvenance[field] = {
+        confidence: 1,
+        rule: "manual:review",
+        span: fieldProvenance[field]?.span || {
+          text: value,
+          start: -1,
+          end: -1,
+        },
+      };
+    } else {
+      delete data[field];
+      delete fieldProvenance[field];
+    }
+  }
+
+  // A corrected name needs its parts re-derived
+  if (corrected.has("name")) {
+    for (const [field, value] of Object.entries(nameFields(data.name))) {
+      const key = field as LeadField;
+      corrected.add(key);
+      if (value) {
+        data[key] = value;
+        fieldProvenance[key] = fieldProvenance.name;
+      } else {
+        delete data[key];
+        delete fieldProvenance[key];
+      }
+    }
+  }
+
+  // Warnings about a field the reviewer has since corrected no longer apply
+  const warnings = (draft.extraction_warnings || []).filter(
+    (warning) => !warning.field || !corrected.has(warning.field),
+  );
+
+  return { data, fieldProvenance, warnings };
+}
@@ -0,0 +1,104 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readScanArtifact, storeScan, type ScanInput } from "@/lib/scans";
+import { getStorageProvider } from "@/lib/storage";
+
+const ocrResult = {
+  fullText: "Jane Doe\njane@acme.com",
+  confidence: 0.95,
+  textSegments: [],
+  wordCount: 3,
+};
+
+function scanInput(overrides: Partial<ScanInput> = {}): ScanInput {
+  return {
+    side: "front",
+    original: { buffer: Buffer.from("original"), contentType: "image/heic" },
+    image: { buffer: Buffer.from("image"), contentType: "image/jpeg" },
+    ocrResult,
+    ocrProvider: "Tesseract",
+    languageHints: ["en"],
+    region: "US",
+    preprocessing: ["contrast normalized"],
+    ...overrides,
+  };
+}
+
+describe("scan artifacts", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "scans-"));
+    vi.stubEnv("STORAGE_PROVIDER", "local");
+    vi.stubEnv("STORAGE_LOCAL_DIR", root);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("stores the original, the preprocessed image and the OCR result", async () => {
+    const scan = await storeScan(scanInput());
+
+    expect(scan).toMatchObject({
+      side: "front",
+      storage_provider: "local",
+      original_path: `${scan.id}/original.heic`,
+      image_path: `${scan.id}/image.jpeg`,
+      ocr_result_path: `${scan.id}/ocr.json`,
+      ocr_provider: "Tesseract",
+    });
+
+    const image = await readScanArtifact(scan, "image");
+    const ocr = await readScanArtifact(scan, "ocr");
+    expect(image).toEqual({
+      data: Buffer.from("image"),
+      contentType: "image/jpeg",
+    });
+    expect(JSON.parse(ocr!.data.toString())).toEqual(ocrResult);
+  });
+
+  it("shares an original already stored with another scan", async () => {
+    const first = await storeScan(scanInput());
+    const second = await storeScan(
+      scanInput({
+        original: { path: first.original_path! },
+        cropBox: { left: 0, top: 0, right: 100, bottom: 60 },
+      }),
+    );
+
+    expect(second.original_path).toBe(first.original_path);
+    expect(second.crop_box).toEqual({
+      left: 0,
+      top: 0,
+      right: 100,
+      bottom: 60,
+    });
+    expect((await readScanArtifact(second, "original"))!.data).toEqual(
+      Buffer.from("original"),
+    );
+  });
+
+  it("returns null for artifacts that were not stored", async () => {
+    const scan = await storeScan(scanInput());
+
+    expect(
+      await readScanArtifact({ ...scan, ocr_result_path: undefined }, "ocr"),
+    ).toBeNull();
+    expect(
+      await readScanArtifact(
+        { ...scan, image_path: "missing/image.jpeg" },
+        "image",
+      ),
+    ).toBeNull();
+  });
+
+  it("keeps local files inside the storage directory", async () => {
+    await expect(
+      getStorageProvider("local").get("../outside.json"),
+    ).rejects.toThrow("Invalid storage path");
+  });
+});
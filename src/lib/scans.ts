@@ -0,0 +1,143 @@
+/**
+ * Scan Artifacts
+ *
+ * Everything needed to re-run extraction on a card later, or to show the card next to
+ * its lead, is kept per scanned image:
+ *
+ * - **original**: the upload as received (photo, HEIC, PDF)
+ * - **image**: the preprocessed image OCR read; word boxes refer to it
+ * - **ocr**: the full OCR result (text, confidence, word boxes) as JSON
+ *
+ * Artifacts go to the configured storage backend (see `getStorageProvider`) under
+ * "<scan id>/", and are linked from a `lead_scans` row.
+ *
+ * @module scans
+ * @author Ahmed Kamal
+ */
+
+import type { Rect } from "@/lib/normalization";
+import type { OcrResult } from "@/lib/ocr";
+import { getStorageProvider, type StoredObject } from "@/lib/storage";
+import type { CardSide, LeadScan } from "@/models/lead";
+
+type EncodedFile = { buffer: Buffer; contentType: string };
+
+/**
+ * A scanned card image to store.
+ */
+export type ScanInput = {
+  side: CardSide;
+  /** The upload as received, or the storage path of an original another scan of
+   * the same upload already stored (multi-card photos, multi-page PDFs) */
+  original: EncodedFile | { path: string };
+  /** SHA-256 of the uploaded file (see `prepareUpload`) */
+  contentHash?: string;
+  image: EncodedFile;
+  ocrResult: OcrResult;
+  ocrProvider: string;
+  languageHints: string[];
+  region: string;
+  preprocessing: string[];
+  cropBox?: Rect;
+  page?: number;
+};
+
+/**
+ * Stored artifacts of a scan.
+ */
+export type ScanArtifact = "original" | "image" | "ocr";
+
+/**
+ * Stores the artifacts of a scanned card image.
+ *
+ * Storage failures are logged but don't fail the scan; the artifact's path is left
+ * empty.
+ *
+ * @param input - Scanned image, its upload and OCR result
+ * @returns The `lead_scans` row for the scan, not yet linked to a lead or draft
+ *
+ * @example
+ * const scan = await storeScan({ side: "front", original, image, ocrResult, ... });
+ * await db.from("lead_scans").insert([{ ...scan, lead_id: lead.id }]);
+ */
+export async function storeScan(input: ScanInput): Promise<LeadScan> {
+  const storage = getStorageProvider();
+  const id = crypto.randomUUID();
+
+  const save = async (name: string, data: Buffer, contentType: string) => {
+    const path = `${id}/${name}`;
+    try {
+      await storage.put(path, data, contentType);
+      return path;
+    } catch (error) {
+      console.error(`Failed to store scan artifact ${path}:`, error);
+      return undefined;
+    }
+  };
+
+  const { original, image } = input;
+  return {
+    id,
+    side: input.side,
+    storage_provider: storage.name,
+    ...(input.contentHash && { content_hash: input.contentHash }),
+    original_path:
+      "path" in original
+        ? original.path
+        : await save(
+            `original.${extension(original.contentType)}`,
+            original.buffer,
+            original.contentType,
+          ),
+    image_path: await save(
+      `image.${extension(image.contentType)}`,
+      image.buffer,
+      image.contentType,
+    ),
+    ocr_result_path: await save(
+      "ocr.json",
+      Buffer.from(JSON.stringify(input.ocrResult)),
+      "application/json",
+    ),
+    ocr_provider: input.ocrProvider,
+    language_hints: input.languageHints,
+    region: input.region,
+    preprocessing: input.preprocessing,
+    ...(input.cropBox && { crop_box: input.cropBox }),
+    ...(input.page && { page: input.page }),
+    created_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Reads a stored artifact of a scan from the backend it was written to.
+ *
+ * @param scan - The scan's `lead_scans` row
+ * @param artifact - Artifact to read
+ * @returns The artifact, or null when it was not stored
+ *
+ * @example
+ * const ocr = await readScanArtifact(scan, "ocr");
+ * const { fullText, textSegments } = JSON.parse(ocr!.data.toString());
+ */
+export async function readScanArtifact(
+  scan: Pick<
+    LeadScan,
+    "storage_provider" | "original_path" | "image_path" | "ocr_result_path"
+  >,
+  artifact: ScanArtifact,
+): Promise<StoredObject | null> {
+  const path = {
+    original: scan.original_path,
+    image: scan.image_path,
+    ocr: scan.ocr_result_path,
+  }[artifact];
+  if (!path) return null;
+
+  return getStorageProvider(scan.storage_provider).get(path);
+}
+
+// File extension of a MIME type, e.g. "jpeg" for "image/jpeg"
+function extension(contentType: string): string {
+  return contentType.split("/")[1]?.split("+")[0] || "bin";
+}
@@ -0,0 +1,53 @@
+/**
+ * Storage Provider Selection
+ *
+ * Entry point for file storage. Scan artifacts (original uploads, preprocessed images,
+ * OCR results) go to Supabase Storage in production and to the local filesystem on dev
+ * machines and in tests.
+ *
+ * Environment Variables:
+ * - `STORAGE_PROVIDER`: "supabase" or "local" (default: "supabase" in production,
+ *   "local" otherwise)
+ *
+ * @module storage
+ * @author Ahmed Kamal
+ */
+
+import { localStorageProvider } from "@/lib/storage/local";
+import { supabaseStorageProvider } from "@/lib/storage/supabase";
+import type { StorageProvider } from "@/lib/storage/types";
+
+export type { StorageProvider, StoredObject } from "@/lib/storage/types";
+
+// Registry of available storage backends, keyed by their `STORAGE_PROVIDER` value
+const STORAGE_PROVIDERS: Record<string, StorageProvider> = {
+  supabase: supabaseStorageProvider,
+  local: localStorageProvider,
+};
+
+/**
+ * Returns the storage provider configured through `STORAGE_PROVIDER`.
+ *
+ * @param key - Optional provider key overriding `STORAGE_PROVIDER`, e.g. the backend
+ *   recorded with a stored scan
+ * @returns The storage provider
+ * @throws {Error} When the key names an unknown provider
+ *
+ * @example
+ * const storage = getStorageProvider();
+ * await storage.put(`${scanId}/image.jpeg`, buffer, "image/jpeg");
+ */
+export function getStorageProvider(
+  key = process.env.STORAGE_PROVIDER ||
+    (process.env.NODE_ENV === "production" ? "supabase" : "local"),
+): StorageProvider {
+  const provider = STORAGE_PROVIDERS[key];
+
+  if (!provider) {
+    throw new Error(
+      `Unknown storage provider '${key}', expected one of: ${Object.keys(STORAGE_PROVIDERS).join(", ")}`,
+    );
+  }
+
+  return provider;
+}
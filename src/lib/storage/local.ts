@@ -0,0 +1,71 @@
+/**
+ * Local Filesystem Storage Provider
+ *
+ * Storage backend for dev machines and tests: files are written below a local
+ * directory, so scans can be inspected without any cloud setup.
+ *
+ * Environment Variables:
+ * - `STORAGE_LOCAL_DIR`: Root directory (default ".storage" in the working directory)
+ *
+ * @module storage/local
+ * @author Ahmed Kamal
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { StorageProvider } from "@/lib/storage/types";
+
+// MIME types of the stored artifacts, by file extension
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".heic": "image/heic",
+  ".pdf": "application/pdf",
+  ".json": "application/json",
+};
+
+export const localStorageProvider: StorageProvider = {
+  name: "local",
+
+  async put(key, data) {
+    const file = resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+  },
+
+  async get(key) {
+    try {
+      return {
+        data: await fs.readFile(resolve(key)),
+        contentType:
+          CONTENT_TYPES[path.extname(key).toLowerCase()] ||
+          "application/octet-stream",
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  },
+
+  async delete(key) {
+    await fs.rm(resolve(key), { force: true });
+  },
+};
+
+/**
+ * Maps a storage path to a file below the root directory.
+ *
+ * @throws {Error} For paths escaping the root directory
+ */
+function resolve(key: string): string {
+  const root = path.resolve(
+    process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), ".storage"),
+  );
+  const file = path.resolve(root, key);
+  if (!file.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage path '${key}'`);
+  }
+  return file;
+}
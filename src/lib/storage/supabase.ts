@@ -0,0 +1,46 @@
+/**
+ * Supabase Storage Provider
+ *
+ * Production storage backend: files live in a private Supabase Storage bucket.
+ *
+ * Environment Variables:
+ * - `CARD_IMAGES_BUCKET`: Bucket name (default "card-images")
+ *
+ * @module storage/supabase
+ * @author Ahmed Kamal
+ */
+
+import { getSupabaseClient } from "@/lib/supabase";
+import type { StorageProvider } from "@/lib/storage/types";
+
+const bucket = () => process.env.CARD_IMAGES_BUCKET || "card-images";
+
+export const supabaseStorageProvider: StorageProvider = {
+  name: "supabase",
+
+  async put(path, data, contentType) {
+    const { error } = await getSupabaseClient()
+      .storage.from(bucket())
+      .upload(path, data, { contentType, upsert: true });
+    if (error) throw error;
+  },
+
+  async get(path) {
+    const { data, error } = await getSupabaseClient()
+      .storage.from(bucket())
+      .download(path);
+    if (error || !data) return null;
+
+    return {
+      data: Buffer.from(await data.arrayBuffer()),
+      contentType: data.type || "application/octet-stream",
+    };
+  },
+
+  async delete(path) {
+    const { error } = await getSupabaseClient()
+      .storage.from(bucket())
+      .remove([path]);
+    if (error) throw error;
+  },
+};
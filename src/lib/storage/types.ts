@@ -0,0 +1,34 @@
+/**
+ * Storage Provider Contracts
+ *
+ * Shared types implemented by every storage backend, so scan artifacts (card images,
+ * OCR results) are stored and read the same way in production and on dev machines.
+ *
+ * @module storage/types
+ * @author Ahmed Kamal
+ */
+
+/**
+ * A stored file with its MIME type.
+ */
+export type StoredObject = {
+  data: Buffer;
+  contentType: string;
+};
+
+/**
+ * Contract every storage backend implements.
+ *
+ * Paths are relative keys such as "<scan id>/image.jpeg"; backends map them onto
+ * their own namespace (bucket, directory).
+ */
+export type StorageProvider = {
+  /** Backend key recorded with stored artifacts, e.g. "supabase" */
+  name: string;
+  /** Stores a file, replacing any file at the same path */
+  put(path: string, data: Buffer, contentType: string): Promise<void>;
+  /** Reads a file, or null when there is none at the path */
+  get(path: string): Promise<StoredObject | null>;
+  /** Deletes a file; paths without a file are ignored */
+  delete(path: string): Promise<void>;
+};
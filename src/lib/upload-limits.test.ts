@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { assessCapture } from "@/lib/capture";
+import { resolutionError } from "@/lib/upload-limits";
+
+describe("resolutionError", () => {
+  it("accepts portrait camera captures on the upload form", () => {
+    // A portrait phone capture the camera mode lets through (see `assessCapture`)
+    const frame = { width: 720, height: 1280 };
+    const issues = assessCapture(frame, {
+      gray: new Uint8ClampedArray(9),
+      width: 3,
+      height: 3,
+    }).issues;
+    expect(issues).not.toContain("resolution");
+
+    // ...is accepted by the upload form's check the captured file goes through
+    expect(resolutionError(frame.width, frame.height)).toBeNull();
+    expect(resolutionError(600, 800)).toBeNull();
+    expect(resolutionError(1920, 1080)).toBeNull();
+  });
+
+  it("rejects images below the minimum in either orientation", () => {
+    expect(resolutionError(640, 480)).toBe(
+      "Image resolution too low. Minimum: 800×600px. Current: 640×480px",
+    );
+    expect(resolutionError(500, 1280)).toBe(
+      "Image resolution too low. Minimum: 800×600px. Current: 500×1280px",
+    );
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Upload Limits
+ *
+ * Accepted card upload formats and size limits, shared by the upload form (instant
+ * feedback) and the process-card routes (enforcement, see `prepareUpload`).
+ *
+ * @module upload-limits
+ * @author Ahmed Kamal
+ */
+
+export const IMAGE_CONFIG = {
+  MIN_WIDTH: 800,
+  MIN_HEIGHT: 600,
+  MAX_SIZE_MB: 10,
+  // PDFs render one card per page
+  MAX_PDF_PAGES: 10,
+  SUPPORTED_FORMATS: [
+    "image/jpeg",
+    "image/jpg",
+    "image/png",
+    "image/webp",
+    "image/heic",
+    "image/heif",
+    "application/pdf",
+  ],
+};
+
+/**
+ * Checks an image's size against `IMAGE_CONFIG.MIN_WIDTH`×`MIN_HEIGHT` in either
+ * orientation, so portrait photos of a card pass like landscape ones. Shared by the
+ * upload form, the camera capture checks and `prepareUpload`.
+ *
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @returns The error shown to the user, or null when the image is large enough
+ *
+ * @example
+ * resolutionError(720, 1280); // null
+ * resolutionError(640, 480); // "Image resolution too low. Minimum: 800×600px. Current: 640×480px"
+ */
+export function resolutionError(width: number, height: number): string | null {
+  const long = Math.max(width, height);
+  const short = Math.min(width, height);
+  if (long >= IMAGE_CONFIG.MIN_WIDTH && short >= IMAGE_CONFIG.MIN_HEIGHT) {
+    return null;
+  }
+  return `Image resolution too low. Minimum: ${IMAGE_CONFIG.MIN_WIDTH}×${IMAGE_CONFIG.MIN_HEIGHT}px. Current: ${width}×${height}px`;
+}
+
+/**
+ * Formats browsers cannot preview; their resolution is only checked by the server.
+ */
+export const CONVERTED_FORMATS = [
+  "image/heic",
+  "image/heif",
+  "application/pdf",
+];
+
+export const BATCH_CONFIG = {
+  // Files per batch request; the upload page sends larger selections in chunks
+  MAX_FILES: 10,
+};
+
+/**
+ * Quality checks of the camera capture mode (see `assessCapture`).
+ */
+export const CAPTURE_CONFIG = {
+  // Card frames are measured at this width
+  ANALYSIS_WIDTH: 480,
+  // Variance of the Laplacian below which a frame counts as blurred
+  MIN_SHARPNESS: 60,
+  // Share of blown-out pixels above which a frame counts as glared
+  MAX_GLARE_RATIO: 0.02,
+  // Aspect ratio of the card frame, between ISO (85.6×54mm, 1.59) and US
+  // (3.5×2in, 1.75) business cards
+  CARD_ASPECT_RATIO: 1.65,
+};
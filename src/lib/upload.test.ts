@@ -0,0 +1,180 @@
+import sharp from "sharp";
+import { describe, expect, it, vi } from "vitest";
+import {
+  detectUploadFormat,
+  prepareUpload,
+  readUploadFile,
+  UploadError,
+} from "@/lib/upload";
+
+function blank(width: number, height: number) {
+  return sharp({
+    create: { width, height, channels: 3, background: "#ffffff" },
+  });
+}
+
+// Minimal PDF with the given number of blank pages, 3.5×2in by default
+function pdf(pages: number, mediaBox = "0 0 252 144"): Buffer {
+  const kids = Array.from({ length: pages }, (_, i) => `${3 + i} 0 R`);
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${kids.join(" ")}] /Count ${pages} >>`,
+    ...kids.map(
+      () => `<< /Type /Page /Parent 2 0 R /MediaBox [${mediaBox}] >>`,
+    ),
+  ];
+  let body = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = body.length;
+    body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = [
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`,
+    ...offsets.map(
+      (offset) => `${String(offset).padStart(10, "0")} 00000 n \n`,
+    ),
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n`,
+    `startxref\n${body.length}\n%%EOF\n`,
+  ];
+  return Buffer.from(body + xref.join(""));
+}
+
+function upload(buffer: Buffer, name = "card", type = "") {
+  return new File([new Uint8Array(buffer)], name, { type });
+}
+
+async function uploadError(file: File): Promise<UploadError> {
+  const error = await prepareUpload(file).catch((error) => error);
+  expect(error).toBeInstanceOf(UploadError);
+  return error;
+}
+
+describe("detectUploadFormat", () => {
+  it("detects formats from their magic bytes", async () => {
+    expect(detectUploadFormat(await blank(10, 10).jpeg().toBuffer())).toBe(
+      "jpeg",
+    );
+    expect(detectUploadFormat(await blank(10, 10).png().toBuffer())).toBe(
+      "png",
+    );
+    expect(detectUploadFormat(await blank(10, 10).webp().toBuffer())).toBe(
+      "webp",
+    );
+    expect(
+      detectUploadFormat(
+        Buffer.from("\0\0\0\x18ftypheic\0\0\0\0mif1heic", "latin1"),
+      ),
+    ).toBe("heic");
+    expect(detectUploadFormat(pdf(1))).toBe("pdf");
+  });
+
+  it("rejects anything else", async () => {
+    expect(detectUploadFormat(await blank(10, 10).gif().toBuffer())).toBeNull();
+    expect(detectUploadFormat(Buffer.from("<html></html>"))).toBeNull();
+  });
+});
+
+describe("prepareUpload", () => {
+  it("accepts a card photo in either orientation", async () => {
+    const portrait = await blank(600, 800).jpeg().toBuffer();
+
+    const { format, images } = await prepareUpload(upload(portrait));
+
+    expect(format).toBe("jpeg");
+    expect(images).toEqual([
+      expect.objectContaining({
+        contentType: "image/jpeg",
+        width: 600,
+        height: 800,
+      }),
+    ]);
+  });
+
+  it("identifies uploads by the hash of their bytes", async () => {
+    const photo = await blank(1000, 700).jpeg().toBuffer();
+    const other = await blank(1000, 700).png().toBuffer();
+
+    const first = await prepareUpload(upload(photo, "card.jpg"));
+    const retry = await prepareUpload(upload(photo, "card (1).jpg"));
+
+    expect(first.contentHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(retry.contentHash).toBe(first.contentHash);
+    expect((await prepareUpload(upload(other))).contentHash).not.toBe(
+      first.contentHash,
+    );
+  });
+
+  it("trusts the magic bytes over the declared type", async () => {
+    const html = upload(
+      Buffer.from("<script></script>"),
+      "card.jpg",
+      "image/jpeg",
+    );
+
+    const error = await uploadError(html);
+
+    expect(error.code).toBe("unsupported_type");
+    expect(error.status).toBe(415);
+  });
+
+  it("rejects images below the minimum resolution", async () => {
+    const error = await uploadError(
+      upload(await blank(640, 480).png().toBuffer()),
+    );
+
+    expect(error.code).toBe("resolution_too_low");
+    expect(error.message).toContain("640×480");
+  });
+
+  it("rejects oversized and empty files", async () => {
+    const large = await uploadError(upload(Buffer.alloc(11 * 1024 * 1024)));
+    const empty = await uploadError(upload(Buffer.alloc(0)));
+
+    expect([large.code, large.status]).toEqual(["file_too_large", 413]);
+    expect(empty.code).toBe("empty_file");
+  });
+
+  it("rejects oversized files before reading them", async () => {
+    const large = upload(Buffer.alloc(11 * 1024 * 1024));
+    const read = vi.spyOn(large, "arrayBuffer");
+
+    await expect(readUploadFile(large)).rejects.toMatchObject({
+      code: "file_too_large",
+    });
+    expect(read).not.toHaveBeenCalled();
+  });
+
+  it("reports corrupt images as unreadable", async () => {
+    const truncated = (await blank(900, 700).png().toBuffer()).subarray(0, 40);
+
+    expect((await uploadError(upload(truncated))).code).toBe("unreadable_file");
+  });
+
+  it("renders each PDF page as a card image", async () => {
+    const { format, original, images } = await prepareUpload(upload(pdf(2)));
+
+    expect(format).toBe("pdf");
+    expect(original.contentType).toBe("application/pdf");
+    expect(
+      images.map(({ page, width, height }) => [page, width, height]),
+    ).toEqual([
+      [1, 1050, 600],
+      [2, 1050, 600],
+    ]);
+    expect(detectUploadFormat(images[0].buffer)).toBe("png");
+  });
+
+  it("renders oversized PDF pages within the preprocessing size", async () => {
+    // 200×100in: 60000×30000px at 300 DPI
+    const { images } = await prepareUpload(upload(pdf(1, "0 0 14400 7200")));
+
+    expect(images.map(({ width, height }) => [width, height])).toEqual([
+      [2400, 1200],
+    ]);
+  });
+
+  it("limits the number of PDF pages", async () => {
+    expect((await uploadError(upload(pdf(11)))).code).toBe("too_many_pages");
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Card Upload Validation and Conversion
+ *
+ * Server-side checks for uploaded card files; the upload form runs the same checks
+ * for instant feedback, but the API must not trust what the client sends.
+ *
+ * Validation:
+ * - **Type**: detected from the file's magic bytes, never from the declared MIME type
+ *   or the file name
+ * - **Size**: at most `IMAGE_CONFIG.MAX_SIZE_MB`
+ * - **Resolution**: at least `MIN_WIDTH`×`MIN_HEIGHT` in either orientation
+ *
+ * Conversion (local, no external service):
+ * - **HEIC/HEIF** (iPhone photos) is decoded to JPEG with libheif (WebAssembly),
+ *   since sharp's prebuilt libvips only reads AVIF
+ * - **PDF** pages are rendered to PNG with MuPDF (WebAssembly), one card per page
+ *
+ * Every upload is identified by the SHA-256 hash of its bytes, so re-uploads of the
+ * same file can be recognized.
+ *
+ * @module upload
+ * @author Ahmed Kamal
+ */
+
+import { createHash } from "node:crypto";
+import heicConvert from "heic-convert";
+import sharp from "sharp";
+import { MAX_DIMENSION } from "@/lib/image";
+import { IMAGE_CONFIG, resolutionError } from "@/lib/upload-limits";
+
+// PDF rendering resolution; a 3.5×2in card renders at 1050×600px. Larger pages
+// render at a lower resolution, so their longest side stays within MAX_DIMENSION
+const PDF_DPI = 300;
+
+/**
+ * Upload formats recognized by their magic bytes.
+ */
+export type UploadFormat = "jpeg" | "png" | "webp" | "heic" | "pdf";
+
+/**
+ * Structured upload error codes, returned to API clients as `code`.
+ */
+export type UploadErrorCode =
+  | "empty_file"
+  | "unsupported_type"
+  | "file_too_large"
+  | "resolution_too_low"
+  | "too_many_pages"
+  | "unreadable_file";
+
+/**
+ * An uploaded file that failed validation or conversion.
+ */
+export class UploadError extends Error {
+  constructor(
+    public readonly code: UploadErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "UploadError";
+  }
+
+  /** HTTP status for the error: 413 too large, 415 unsupported type, else 400 */
+  get status(): number {
+    if (this.code === "file_too_large") return 413;
+    if (this.code === "unsupported_type") return 415;
+    return 400;
+  }
+}
+
+/**
+ * An image ready for the card pipeline.
+ */
+export type UploadedImage = {
+  buffer: Buffer;
+  contentType: string;
+  width: number;
+  height: number;
+  /** Page number (1-based) for images rendered from a PDF */
+  page?: number;
+};
+
+/**
+ * A validated upload: the original file and the card images it contains.
+ */
+export type PreparedUpload = {
+  format: UploadFormat;
+  /** The file as uploaded, with the MIME type of its detected format */
+  original: { buffer: Buffer; contentType: string };
+  /** SHA-256 of the uploaded bytes (hex) */
+  contentHash: string;
+  /** One image per card: the image itself, or one per PDF page */
+  images: UploadedImage[];
+};
+
+const CONTENT_TYPES: Record<UploadFormat, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  heic: "image/heic",
+  pdf: "application/pdf",
+};
+
+// ISO BMFF brands of HEIC/HEIF images ("ftyp" box)
+const HEIF_BRANDS = [
+  "heic",
+  "heix",
+  "hevc",
+  "hevx",
+  "heim",
+  "heis",
+  "mif1",
+  "msf1",
+];
+
+/**
+ * Detects a file's format from its magic bytes.
+ *
+ * @param buffer - File contents
+ * @returns The detected format, or null for anything else
+ *
+ * @example
+ * detectUploadFormat(Buffer.from("%PDF-1.7\n...")); // "pdf"
+ */
+export function detectUploadFormat(buffer: Buffer): UploadFormat | null {
+  if (
+    buffer.length >= 3 &&
+    buffer[0] === 0xff &&
+    buffer[1] === 0xd8 &&
+    buffer[2] === 0xff
+  ) {
+    return "jpeg";
+  }
+  if (
+    buffer
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return "png";
+  }
+  if (
+    buffer.toString("latin1", 0, 4) === "RIFF" &&
+    buffer.toString("latin1", 8, 12) === "WEBP"
+  ) {
+    return "webp";
+  }
+  if (
+    buffer.toString("latin1", 4, 8) === "ftyp" &&
+    HEIF_BRANDS.includes(buffer.toString("latin1", 8, 12))
+  ) {
+    return "heic";
+  }
+  if (buffer.toString("latin1", 0, 5) === "%PDF-") return "pdf";
+  return null;
+}
+
+/**
+ * Reads an uploaded card file after the checks that need no decoding: size (before
+ * the file is read at all), emptiness and type.
+ *
+ * @param file - Uploaded file
+ * @returns The file's bytes and detected format
+ * @throws {UploadError} When the file is too large, empty or of an unsupported type
+ *
+ * @example
+ * const { buffer, format } = await readUploadFile(file); // format: "jpeg"
+ */
+export async function readUploadFile(
+  file: File,
+): Promise<{ buffer: Buffer; format: UploadFormat }> {
+  const maxBytes = IMAGE_CONFIG.MAX_SIZE_MB * 1024 * 1024;
+  if (file.size > maxBytes) {
+    throw new UploadError(
+      "file_too_large",
+      `File too large. Maximum size: ${IMAGE_CONFIG.MAX_SIZE_MB}MB`,
+    );
+  }
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  if (buffer.length === 0) {
+    throw new UploadError("empty_file", "The uploaded file is empty");
+  }
+
+  const format = detectUploadFormat(buffer);
+  if (!format) {
+    throw new UploadError(
+      "unsupported_type",
+      "Unsupported format. Please use: JPEG, PNG, WEBP, HEIC or PDF",
+    );
+  }
+
+  return { buffer, format };
+}
+
+/**
+ * Validates an uploaded card file and converts it to images the pipeline can read.
+ *
+ * @param file - Uploaded file
+ * @returns The validated upload with one image per card
+ * @throws {UploadError} When the file is empty, of an unsupported type, too large,
+ *   unreadable, has too many pages or a resolution below the minimum
+ *
+ * @example
+ * const { images } = await prepareUpload(formData.get("image") as File);
+ * // iPhone photo: [{ buffer: <JPEG>, contentType: "image/jpeg", width: 4032, height: 3024 }]
+ */
+export async function prepareUpload(file: File): Promise<PreparedUpload> {
+  const { buffer, format } = await readUploadFile(file);
+
+  let images: UploadedImage[];
+  try {
+    if (format === "pdf") {
+      images = await renderPdfPages(buffer);
+    } else if (format === "heic") {
+      const jpeg = Buffer.from(
+        await heicConvert({ buffer, format: "JPEG", quality: 0.92 }),
+      );
+      images = [await describeImage(jpeg, "image/jpeg")];
+    } else {
+      images = [await describeImage(buffer, CONTENT_TYPES[format])];
+    }
+  } catch (error) {
+    if (error instanceof UploadError) throw error;
+    console.warn(`Failed to read ${format} upload:`, error);
+    throw new UploadError(
+      "unreadable_file",
+      "Unable to read image file. Please try a different image.",
+    );
+  }
+
+  for (const image of images) {
+    const message = resolutionError(image.width, image.height);
+    if (message) {
+      throw new UploadError(
+        "resolution_too_low",
+        `${message}${image.page ? ` (page ${image.page})` : ""}`,
+      );
+    }
+  }
+
+  return {
+    format,
+    original: { buffer, contentType: CONTENT_TYPES[format] },
+    contentHash: hashContent(buffer),
+    images,
+  };
+}
+
+/**
+ * Identifies an upload by its bytes (hex SHA-256), see `PreparedUpload.contentHash`.
+ */
+export function hashContent(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+/**
+ * Reads an image's displayed size (EXIF orientation applied).
+ */
+async function describeImage(
+  buffer: Buffer,
+  contentType: string,
+): Promise<UploadedImage> {
+  const {
+    width = 0,
+    height = 0,
+    orientation = 1,
+  } = await sharp(buffer).metadata();
+  const rotated = orientation >= 5;
+  return {
+    buffer,
+    contentType,
+    width: rotated ? height : width,
+    height: rotated ? width : height,
+  };
+}
+
+/**
+ * Renders every page of a PDF to PNG, at most `MAX_DIMENSION` pixels on the
+ * longest side.
+ */
+async function renderPdfPages(buffer: Buffer): Promise<UploadedImage[]> {
+  // Loaded on demand: the WebAssembly module is only needed for PDF uploads
+  const mupdf = await import("mupdf");
+  const document = mupdf.Document.openDocument(buffer, "application/pdf");
+  try {
+    const pageCount = document.countPages();
+    if (pageCount > IMAGE_CONFIG.MAX_PDF_PAGES) {
+      throw new UploadError(
+        "too_many_pages",
+        `Too many pages. Maximum: ${IMAGE_CONFIG.MAX_PDF_PAGES} cards per PDF`,
+      );
+    }
+
+    const images: UploadedImage[] = [];
+    for (let index = 0; index < pageCount; index++) {
+      const page = document.loadPage(index);
+      // The MediaBox is untrusted: a huge page at 300 DPI would need gigabytes
+      const [x0, y0, x1, y1] = page.getBounds();
+      const longest = Math.max(x1 - x0, y1 - y0);
+      const scale = Math.min(PDF_DPI / 72, MAX_DIMENSION / longest);
+      const pixmap = page.toPixmap(
+        mupdf.Matrix.scale(scale, scale),
+        mupdf.ColorSpace.DeviceRGB,
+        false,
+        true,
+      );
+      images.push({
+        buffer: Buffer.from(pixmap.asPNG()),
+        contentType: "image/png",
+        width: pixmap.getWidth(),
+        height: pixmap.getHeight(),
+        page: index + 1,
+      });
+      pixmap.destroy();
+      page.destroy();
+    }
+    return images;
+  } finally {
+    document.destroy();
+  }
+}
@@ -1,8 +1,159 @@
+export type PhoneType = "mobile" | "office" | "fax" | "other";
+
+/**
+ * One phone number printed on a card, labeled by type. Exactly one number
+ * (never a fax) is marked `primary` and mirrored into `phone`/`phone_display`.
+ */
+export type LeadPhone = {
+  type: PhoneType;
+  e164: string;
+  display: string;
+  extension?: string;
+  primary: boolean;
+};
+
+export type SocialNetwork =
+  | "linkedin"
+  | "x"
+  | "facebook"
+  | "instagram"
+  | "github"
+  | "youtube"
+  | "tiktok"
+  | "whatsapp"
+  | "telegram";
+
+/**
+ * A social profile or messaging handle printed on a card.
+ */
+export type SocialProfile = {
+  network: SocialNetwork;
+  handle: string; // e.g. "jane-doe", "@janedoe", "+971501234567" (WhatsApp)
+  url: string; // canonical profile link, e.g. "https://www.linkedin.com/in/jane-doe"
+};
+
 export type LeadData = {
   name?: string;
+  // Parts of `name`, derived from it (see `parseName`)
+  name_prefix?: string; // e.g. "Dr."
+  name_first?: string;
+  name_middle?: string;
+  name_last?: string; // including particles, e.g. "van der Berg"
+  name_suffix?: string; // e.g. "Jr.", "PhD"
   email?: string;
-  phone?: string;
+  phone?: string; // primary number, E.164, e.g. "+442079460958"
+  phone_display?: string; // international format, e.g. "+44 20 7946 0958"
+  phone_extension?: string;
+  phones?: LeadPhone[]; // every number on the card, in reading order
   company?: string;
   job_title?: string;
+  // Native-script versions from bilingual cards, e.g. the Arabic side
+  name_native?: string;
+  company_native?: string;
+  job_title_native?: string;
   website?: string;
+  address_street?: string;
+  address_city?: string;
+  address_region?: string; // state/province, e.g. "IL"
+  address_postal_code?: string;
+  address_country?: string; // ISO 3166-1 alpha-2, e.g. "US"
+  social_profiles?: SocialProfile[]; // in reading order
+};
+
+// Single-valued text fields (the structured `phones` and `social_profiles` lists
+// are not fields on their own)
+export type LeadField = Exclude<keyof LeadData, "phones" | "social_profiles">;
+
+/**
+ * Location of the OCR text a field value was extracted from.
+ * `start`/`end` are character offsets into the raw OCR text (-1 when the
+ * value was reconstructed from word boxes and has no exact text match).
+ */
+export type SourceSpan = {
+  text: string;
+  start: number;
+  end: number;
+};
+
+/**
+ * Side of a two-sided card an image shows.
+ */
+export type CardSide = "front" | "back";
+
+/**
+ * How a single field value was produced and how much it can be trusted.
+ */
+export type FieldProvenance = {
+  confidence: number; // 0..1
+  rule: string; // heuristic that produced the value, e.g. "regex:email", "layout:name"
+  span: SourceSpan; // offsets into the OCR text of `side`
+  original?: string; // OCR reading before correction, kept for audit, e.g. "j0hn@acme.c0m"
+  side?: CardSide; // card side the value was read from (two-sided uploads only)
+};
+
+export type LeadFieldProvenance = Partial<Record<LeadField, FieldProvenance>>;
+
+/**
+ * A problem found during extraction that a reviewer should look at,
+ * e.g. a phone number that is not valid for any region.
+ */
+export type ExtractionWarning = {
+  code: string; // machine readable, e.g. "invalid_phone"
+  field?: LeadField;
+  message: string;
+  value?: string; // offending source value
+};
+
+/**
+ * Output of the normalization engine: the cleaned lead plus per-field provenance.
+ */
+export type ExtractionResult = {
+  data: LeadData;
+  fields: LeadFieldProvenance;
+  warnings: ExtractionWarning[];
+};
+
+/**
+ * One scanned card image with its stored artifacts (a row of `lead_scans`), kept so
+ * extraction can be re-run later and the card shown next to the lead. Paths are
+ * relative to the `storage_provider` the artifacts were written to.
+ */
+export type LeadScan = {
+  id: string;
+  lead_id?: string;
+  draft_id?: string;
+  side: CardSide;
+  storage_provider: string;
+  content_hash?: string; // SHA-256 of the uploaded file, shared by its scans
+  original_path?: string; // the upload as received (photo, HEIC, PDF)
+  image_path?: string; // the preprocessed image OCR read
+  ocr_result_path?: string; // full OCR result JSON (text, confidence, word boxes)
+  ocr_provider: string;
+  language_hints: string[];
+  region: string;
+  preprocessing: string[];
+  // Multi-card photos: the card's crop in pixels of the preprocessed photo
+  crop_box?: { left: number; top: number; right: number; bottom: number };
+  page?: number; // multi-page PDFs
+  created_at: string;
 };
+
+/**
+ * Editable lead fields, in display order.
+ */
+export const LEAD_FIELDS: LeadField[] = [
+  "name",
+  "email",
+  "phone",
+  "company",
+  "job_title",
+  "name_native",
+  "company_native",
+  "job_title_native",
+  "website",
+  "address_street",
+  "address_city",
+  "address_region",
+  "address_postal_code",
+  "address_country",
+];
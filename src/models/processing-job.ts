@@ -0,0 +1,45 @@
+export type ProcessingJobStatus =
+  | "queued"
+  | "processing"
+  | "completed"
+  | "failed";
+
+/**
+ * Processing options of a queued card upload, as sent with the request.
+ */
+export type ProcessingJobParams = {
+  mode: "commit" | "draft";
+  multipleCards: boolean;
+  region: string;
+  languageHints: string[];
+  /** Uploaded files as received, to rebuild them for the pipeline */
+  files: {
+    image: { name: string; type: string };
+    back?: { name: string; type: string };
+  };
+};
+
+/**
+ * An asynchronous card processing job (a row of `processing_jobs`). The uploads are
+ * kept in the storage backend until the worker runs the job; `result` holds the
+ * response body the synchronous API would have returned.
+ */
+export type ProcessingJob = {
+  id: string;
+  status: ProcessingJobStatus;
+  params: ProcessingJobParams;
+  storage_provider: string;
+  image_path: string;
+  back_path?: string;
+  callback_url?: string;
+  result?: Record<string, unknown>;
+  result_status?: number; // HTTP status of `result`
+  error?: string;
+  attempts: number;
+  callback_status?: number; // HTTP status of the last callback attempt
+  callback_error?: string;
+  callback_delivered_at?: string;
+  created_at: string;
+  started_at?: string;
+  completed_at?: string;
+};
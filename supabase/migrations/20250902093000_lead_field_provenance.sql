@@ -0,0 +1,12 @@
+-- Per-field extraction provenance
+-- Stores, for every extracted field, the confidence score (0..1), the rule that
+-- produced it and the source OCR text span, e.g.:
+-- { "email": { "confidence": 0.92, "rule": "regex:email", "span": { "text": "...", "start": 42, "end": 58 } } }
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "field_provenance" JSONB;
+
+-- Overall OCR confidence reported by the provider (0..1)
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "ocr_confidence" REAL;
+
+-- OCR confidence range validation
+ALTER TABLE leads ADD CONSTRAINT chk_leads_ocr_confidence
+    CHECK (ocr_confidence IS NULL OR (ocr_confidence >= 0 AND ocr_confidence <= 1));
@@ -0,0 +1,28 @@
+-- Pending extractions awaiting human review
+-- A draft holds everything the review UI needs (extracted fields, provenance, raw OCR text
+-- and word boxes). Only an explicit confirm turns it into a row in `leads`.
+CREATE TABLE IF NOT EXISTS lead_drafts
+(
+    "id"               UUID      DEFAULT gen_random_uuid() PRIMARY KEY,
+    "data"             JSONB     NOT NULL,
+    "field_provenance" JSONB,
+    "ocr_confidence"   REAL,
+    "raw_text"         TEXT,
+    "text_segments"    JSONB,
+    "source"           TEXT,
+    "status"           TEXT      DEFAULT 'pending' NOT NULL,
+    "lead_id"          UUID REFERENCES leads (id) ON DELETE SET NULL,
+    "expires_at"       TIMESTAMP DEFAULT (NOW() + INTERVAL '24 hours') NOT NULL,
+    "confirmed_at"     TIMESTAMP,
+    "created_at"       TIMESTAMP DEFAULT NOW()
+);
+
+-- Expiry index
+-- Used for: purging drafts that were never confirmed
+CREATE INDEX IF NOT EXISTS idx_lead_drafts_expires_at
+    ON lead_drafts(expires_at)
+    WHERE status = 'pending';
+
+-- Draft status validation
+ALTER TABLE lead_drafts ADD CONSTRAINT chk_lead_drafts_status
+    CHECK (status IN ('pending', 'confirmed', 'expired'));
@@ -0,0 +1,14 @@
+-- International phone numbers
+-- `phone` now holds E.164 (e.g. "+442079460958"); the human readable international
+-- format and any extension are stored alongside it
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "phone_display" TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "phone_extension" TEXT;
+
+-- Problems found during extraction that need follow-up, e.g.:
+-- [{ "code": "invalid_phone", "field": "phone", "message": "...", "value": "555 0199" }]
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "extraction_warnings" JSONB;
+
+-- Drafts keep their warnings and the default phone region used for the upload,
+-- so reviewer corrections are parsed the same way
+ALTER TABLE lead_drafts ADD COLUMN IF NOT EXISTS "extraction_warnings" JSONB;
+ALTER TABLE lead_drafts ADD COLUMN IF NOT EXISTS "region" TEXT;
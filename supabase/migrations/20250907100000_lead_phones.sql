@@ -0,0 +1,5 @@
+-- Every phone number printed on the card, labeled by type, e.g.:
+-- [{ "type": "office", "e164": "+12127365000", "display": "+1 212 736 5000", "primary": true },
+--  { "type": "fax", "e164": "+12127365001", "display": "+1 212 736 5001", "primary": false }]
+-- The primary number is also kept in `phone`/`phone_display` for filtering and display
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "phones" JSONB;
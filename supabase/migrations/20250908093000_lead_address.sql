@@ -0,0 +1,13 @@
+-- Structured postal address extracted from the card (US, UK, EU and GCC formats)
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "address_street" TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "address_city" TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "address_region" TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "address_postal_code" TEXT;
+-- ISO 3166-1 alpha-2 when the printed country is known, e.g. "US", "AE"
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "address_country" TEXT;
+
+-- Country index
+-- Used for: regional lead filtering and territory assignment
+CREATE INDEX IF NOT EXISTS idx_leads_address_country
+    ON leads(address_country)
+    WHERE address_country IS NOT NULL;
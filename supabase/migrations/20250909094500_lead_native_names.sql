@@ -0,0 +1,6 @@
+-- Native-script versions of name, company and title from bilingual cards
+-- (e.g. the Arabic side of an English/Arabic card); the Latin version stays in
+-- name/company/job_title
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "name_native" TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "company_native" TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "job_title_native" TEXT;
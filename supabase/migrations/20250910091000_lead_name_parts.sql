@@ -0,0 +1,13 @@
+-- Structured parts of the full name, derived from "name" when a lead is stored
+-- (e.g. "Dr. Mary Ann van der Berg, PhD"); used by the CRM adapters
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "name_prefix" TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "name_first" TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "name_middle" TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "name_last" TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "name_suffix" TEXT;
+
+-- Last name index
+-- Used for: alphabetical lead lists and duplicate detection
+CREATE INDEX IF NOT EXISTS idx_leads_name_last
+    ON leads(name_last)
+    WHERE name_last IS NOT NULL;
@@ -0,0 +1,4 @@
+-- Social profiles and messaging handles printed on the card, e.g.:
+-- [{ "network": "linkedin", "handle": "jane-doe", "url": "https://www.linkedin.com/in/jane-doe" },
+--  { "network": "whatsapp", "handle": "+971501234567", "url": "https://wa.me/971501234567" }]
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "social_profiles" JSONB;
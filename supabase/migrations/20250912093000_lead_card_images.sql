@@ -0,0 +1,16 @@
+-- Card images kept in Supabase Storage; paths are relative to the bucket, e.g.
+-- "0b7c6c1e-.../front.jpeg". Two-sided cards also store the back side.
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "image_front_path" TEXT;
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "image_back_path" TEXT;
+
+ALTER TABLE lead_drafts ADD COLUMN IF NOT EXISTS "image_front_path" TEXT;
+ALTER TABLE lead_drafts ADD COLUMN IF NOT EXISTS "image_back_path" TEXT;
+
+-- OCR output of the back side, kept for the review UI like `raw_text`/`text_segments`
+ALTER TABLE lead_drafts ADD COLUMN IF NOT EXISTS "back_raw_text" TEXT;
+ALTER TABLE lead_drafts ADD COLUMN IF NOT EXISTS "back_text_segments" JSONB;
+
+-- Private bucket for the uploaded images (bucket name: CARD_IMAGES_BUCKET)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('card-images', 'card-images', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,36 @@
+-- Stored artifacts of every scanned card image, so extraction can be re-run later
+-- and the card shown next to its lead. Paths are relative to the storage backend
+-- the scan was written to (`storage_provider`), e.g. "3f1e.../image.jpeg".
+CREATE TABLE IF NOT EXISTS lead_scans
+(
+    "id"               UUID      DEFAULT gen_random_uuid() PRIMARY KEY,
+    "lead_id"          UUID REFERENCES leads (id) ON DELETE CASCADE,
+    "draft_id"         UUID REFERENCES lead_drafts (id) ON DELETE SET NULL,
+    "side"             TEXT      NOT NULL,
+    "storage_provider" TEXT      NOT NULL,
+    "original_path"    TEXT,
+    "image_path"       TEXT,
+    "ocr_result_path"  TEXT,
+    "ocr_provider"     TEXT,
+    "language_hints"   TEXT[],
+    "region"           TEXT,
+    "preprocessing"    JSONB,
+    "crop_box"         JSONB,
+    "page"             INTEGER,
+    "created_at"       TIMESTAMP DEFAULT NOW()
+);
+
+-- Lead index
+-- Used for: showing a lead's card images
+CREATE INDEX IF NOT EXISTS idx_lead_scans_lead_id
+    ON lead_scans(lead_id);
+
+-- Draft index
+-- Used for: linking a draft's scans to the lead it is confirmed as
+CREATE INDEX IF NOT EXISTS idx_lead_scans_draft_id
+    ON lead_scans(draft_id)
+    WHERE draft_id IS NOT NULL;
+
+-- Card side validation
+ALTER TABLE lead_scans ADD CONSTRAINT chk_lead_scans_side
+    CHECK (side IN ('front', 'back'));
@@ -0,0 +1,8 @@
+-- SHA-256 of the uploaded file (hex), to recognize re-uploads of the same card:
+-- their stored OCR result is reused and the existing lead returned
+ALTER TABLE lead_scans ADD COLUMN IF NOT EXISTS "content_hash" TEXT;
+
+-- Content hash index
+-- Used for: finding earlier scans of an uploaded file
+CREATE INDEX IF NOT EXISTS idx_lead_scans_content_hash
+    ON lead_scans(content_hash);
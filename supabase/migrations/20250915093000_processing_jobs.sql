@@ -0,0 +1,78 @@
+-- Asynchronous card processing (`async=true` uploads)
+-- The uploads are kept in the storage backend (`image_path`/`back_path`) until a worker
+-- claims the job; `result` holds the response body of the synchronous API.
+CREATE TABLE IF NOT EXISTS processing_jobs
+(
+    "id"                    UUID      DEFAULT gen_random_uuid() PRIMARY KEY,
+    "status"                TEXT      DEFAULT 'queued' NOT NULL,
+    "params"                JSONB     NOT NULL,
+    "storage_provider"      TEXT      NOT NULL,
+    "image_path"            TEXT      NOT NULL,
+    "back_path"             TEXT,
+    "callback_url"          TEXT,
+    "result"                JSONB,
+    "result_status"         INTEGER,
+    "error"                 TEXT,
+    "attempts"              INTEGER   DEFAULT 0 NOT NULL,
+    "callback_status"       INTEGER,
+    "callback_error"        TEXT,
+    "callback_delivered_at" TIMESTAMP,
+    "created_at"            TIMESTAMP DEFAULT NOW(),
+    "started_at"            TIMESTAMP,
+    "completed_at"          TIMESTAMP
+);
+
+-- Queue index
+-- Used for: claiming the oldest waiting job
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_queue
+    ON processing_jobs(created_at)
+    WHERE status IN ('queued', 'processing');
+
+-- Job status validation
+ALTER TABLE processing_jobs ADD CONSTRAINT chk_processing_jobs_status
+    CHECK (status IN ('queued', 'processing', 'completed', 'failed'));
+
+-- Fails jobs whose worker died mid-run on their last (3rd) run, 15 minutes after it
+-- started. Returns the failed jobs once, so their callbacks are delivered by exactly
+-- one worker.
+CREATE OR REPLACE FUNCTION expire_processing_jobs()
+    RETURNS SETOF processing_jobs
+    LANGUAGE sql
+AS
+$$
+UPDATE processing_jobs
+SET status        = 'failed',
+    result        = '{"success": false, "message": "Processing timed out"}',
+    result_status = 500,
+    error         = 'Processing timed out',
+    completed_at  = NOW()
+WHERE status = 'processing'
+  AND started_at < NOW() - INTERVAL '15 minutes'
+  AND attempts >= 3
+RETURNING *;
+$$;
+
+-- Claims the oldest queued job for a worker, safe with concurrent workers.
+-- Jobs whose worker died mid-run are retried after 15 minutes, at most 3 runs.
+CREATE OR REPLACE FUNCTION claim_processing_job()
+    RETURNS SETOF processing_jobs
+    LANGUAGE plpgsql
+AS
+$$
+BEGIN
+    RETURN QUERY
+        UPDATE processing_jobs
+            SET status = 'processing',
+                started_at = NOW(),
+                attempts = attempts + 1
+            WHERE id = (SELECT id
+                        FROM processing_jobs
+                        WHERE status = 'queued'
+                           OR (status = 'processing'
+                               AND started_at < NOW() - INTERVAL '15 minutes'
+                               AND attempts < 3)
+                        ORDER BY created_at
+                        LIMIT 1 FOR UPDATE SKIP LOCKED)
+            RETURNING *;
+END;
+$$;
@@ -0,0 +1,7 @@
+-- Batch upload a lead was created in (`POST /api/process-card/batch`), so the
+-- dashboard can list the leads of one batch
+ALTER TABLE leads ADD COLUMN IF NOT EXISTS "batch_id" UUID;
+
+-- Batch index
+-- Used for: listing the leads of a batch on the dashboard
+CREATE INDEX IF NOT EXISTS idx_leads_batch_id ON leads(batch_id);